@@ -4,10 +4,12 @@ import { House, ShoppingCart, TrendingUp, User, Settings } from 'lucide-react-na
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { AnimatedTabIcon } from '@/components/navigation/AnimatedTabIcon';
+import { useAutomaticBackups } from '@/hooks/useAutomaticBackups';
 
 export default function TabLayout() {
   const { theme } = useTheme();
   const { t } = useLanguage();
+  useAutomaticBackups();
 
   return (
     <Tabs
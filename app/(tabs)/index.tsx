@@ -1,16 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Dimensions } from 'react-native';
-import { Target, TrendingUp, Award, Clock, Wifi, WifiOff, CircleCheck as CheckCircle, Calendar, Zap, Activity, ChartBar as BarChart3 } from 'lucide-react-native';
+import { Target, TrendingUp, Award, Clock, Wifi, WifiOff, Globe, CircleCheck as CheckCircle, Calendar, Zap, Activity, ChartBar as BarChart3 } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
 import { useFirebaseRecords } from '@/contexts/FirebaseRecordsContext';
 import { useFirebaseStats } from '@/contexts/FirebaseStatsContext';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
 import { useTutorial } from '@/hooks/useTutorial';
 import { useDailyReset } from '@/hooks/useDailyReset';
 import { TutorialModal } from '@/components/ui/TutorialModal';
+import { ConflictResolutionModal } from '@/components/ui/ConflictResolutionModal';
+import { LegacyMigrationModal } from '@/components/ui/LegacyMigrationModal';
+import { AccountDeletionNoticeModal } from '@/components/ui/AccountDeletionNoticeModal';
 import { DailyCheckCard } from '@/components/cards/DailyCheckCard';
+import { DoseSchedule } from '@/utils/DoseSchedule';
+import { LocalDate } from '@/utils/LocalDate';
 import { ProgressCard } from '@/components/cards/ProgressCard';
 import { Card } from '@/components/ui/Card';
 import { Header } from '@/components/ui/Header';
@@ -21,15 +28,20 @@ const { width: screenWidth } = Dimensions.get('window');
 export default function HomeScreen() {
   const { theme } = useTheme();
   const { t } = useLanguage();
-  const { user, userProfile } = useFirebaseAuth();
-  const { records, createRecord, updateRecord, getRecordByDate, syncStatus } = useFirebaseRecords();
+  const { user, userProfile, legacyData, migrateLegacyData, skipLegacyMigration, accountDeletion, cancelAccountDeletion, logout } = useFirebaseAuth();
+  const { records, getRecordByDate, selectByDate, selectByMonth, selectIntakesByDate, logIntake, syncStatus, pendingCount, rejectedCount, retrySync, dismissRejected, conflicts, resolveConflict, refreshRecords } = useFirebaseRecords();
   const { stats } = useFirebaseStats();
+  const { planFor } = useSchedule();
+  const { timeZone, travelTimeZone, dismissTravelTimeZone, updateSettings, refreshSettings } = useFirebaseSettings();
   const { showTutorial, completeTutorial, skipTutorial } = useTutorial();
   const [todayRecord, setTodayRecord] = useState<any>(null);
   const [isCompleted, setIsCompleted] = useState(false);
   const [loading, setLoading] = useState(false);
   const [canCheckIn, setCanCheckIn] = useState(true);
-  const [currentDate, setCurrentDate] = useState(new Date().toISOString().split('T')[0]);
+  const [currentDate, setCurrentDate] = useState(LocalDate.today());
+  const todayPlan = planFor(currentDate);
+  const dosesPerDay = Math.max(1, todayPlan.doses.length);
+  const todayIntakes = selectIntakesByDate(currentDate);
   const [currentMonthStats, setCurrentMonthStats] = useState({
     progress: 0,
     completedDays: 0,
@@ -65,20 +77,12 @@ export default function HomeScreen() {
   // Calcular estatísticas apenas do mês atual para a HOME
   const calculateCurrentMonthStats = () => {
     try {
-      const now = new Date();
-      const year = now.getFullYear();
-      const month = now.getMonth();
+      const { year, month } = LocalDate.monthOf(currentDate);
       
-      // Primeiro e último dia do mês atual
-      const firstDay = new Date(year, month, 1);
-      const lastDay = new Date(year, month + 1, 0);
-      const totalDaysInMonth = lastDay.getDate();
+      const totalDaysInMonth = LocalDate.daysInMonth(year, month);
       
-      // Filtrar apenas registros do mês atual
-      const currentMonthRecords = records.filter(record => {
-        const recordDate = new Date(record.date);
-        return recordDate >= firstDay && recordDate <= lastDay;
-      });
+      // Apenas registros do mês atual
+      const currentMonthRecords = selectByMonth(year, month);
       
       const completedRecords = currentMonthRecords.filter(r => r.completed);
       const completedDays = completedRecords.length;
@@ -102,7 +106,7 @@ export default function HomeScreen() {
   };
 
   const checkCanCheckIn = () => {
-    const todayRecord = records.find(record => record.date === currentDate);
+    const todayRecord = selectByDate(currentDate);
     const hasCompletedToday = todayRecord?.completed || false;
     
     // Só atualizar se realmente mudou
@@ -117,7 +121,7 @@ export default function HomeScreen() {
   // Check if it's a new day on component mount and focus
   useEffect(() => {
     const handleFocus = () => {
-      const newDate = new Date().toISOString().split('T')[0];
+      const newDate = LocalDate.today();
       if (newDate !== currentDate) {
         setCurrentDate(newDate);
       }
@@ -127,7 +131,7 @@ export default function HomeScreen() {
   const loadTodayRecord = async () => {
     try {
       // Buscar registro de hoje nos records carregados
-      const todayRecord = records.find(record => record.date === currentDate);
+      const todayRecord = selectByDate(currentDate);
       if (todayRecord) {
         setTodayRecord(todayRecord);
         setIsCompleted(todayRecord.completed);
@@ -148,7 +152,7 @@ export default function HomeScreen() {
     }
 
     // Verificar novamente o estado atual
-    const currentTodayRecord = records.find(record => record.date === currentDate);
+    const currentTodayRecord = selectByDate(currentDate);
     const alreadyCompleted = currentTodayRecord?.completed || false;
     
     if (alreadyCompleted) {
@@ -161,7 +165,7 @@ export default function HomeScreen() {
     }
     
     // Double check if it's still the same day
-    const currentDay = new Date().toISOString().split('T')[0];
+    const currentDay = LocalDate.today();
     if (currentDay !== currentDate) {
       setCurrentDate(currentDay);
       return;
@@ -170,40 +174,24 @@ export default function HomeScreen() {
     try {
       setLoading(true);
       
-      const currentTime = new Date().toLocaleTimeString('pt-BR', { 
-        hour: '2-digit', 
-        minute: '2-digit' 
-      });
+      const currentTime = LocalDate.timeOf();
       
-      const recordData = {
-        date: currentDate,
-        capsules: 2, // Dosagem padrão
+      // Cada toque registra a próxima dose do dia
+      const summary = await logIntake(currentDate, {
+        capsules: DoseSchedule.nextDose(todayPlan, todayIntakes.length).capsules,
         time: currentTime,
-        notes: '',
-        completed: true,
-      };
-
-      const currentTodayRecord = records.find(record => record.date === currentDate);
-      
-      if (currentTodayRecord?.id) {
-        // Atualizar registro existente
-        await updateRecord(currentTodayRecord.id, recordData);
-      } else {
-        // Criar novo registro
-        await createRecord(recordData);
-      }
+      });
 
-      // Aguardar um pouco para Firebase processar
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
       // Forçar atualização do estado local
-      setIsCompleted(true);
-      setCanCheckIn(false);
+      setIsCompleted(summary.completed);
+      setCanCheckIn(!summary.completed);
       
       // Mostrar feedback de sucesso
       Alert.alert(
-        '🎉 ' + t('congratulations'), 
-        t('recordSavedSuccess'),
+        summary.completed ? '🎉 ' + t('congratulations') : t('doseSaved'),
+        summary.completed
+          ? t('recordSavedSuccess')
+          : t('doseLogged').replace('{current}', String(summary.doses)).replace('{total}', String(dosesPerDay)),
         [{ text: t('ok') }]
       );
       
@@ -220,6 +208,36 @@ export default function HomeScreen() {
     }
   };
 
+  const handleTravelTimeZone = () => {
+    if (!travelTimeZone) return;
+
+    Alert.alert(
+      t('timezoneTravelTitle'),
+      t('timezoneTravelMessage').replace('{device}', travelTimeZone).replace('{current}', timeZone),
+      [
+        { text: t('timezoneKeep').replace('{zone}', timeZone), onPress: dismissTravelTimeZone },
+        { text: t('timezoneSwitch').replace('{zone}', travelTimeZone), onPress: () => updateSettings({ timezone: travelTimeZone }) },
+      ]
+    );
+  };
+
+  // Recarrega o que a migração dos dados antigos pode ter alterado na nuvem
+  const handleLegacyMigration = async () => {
+    const report = await migrateLegacyData();
+    if (report.migratedDates.length > 0) await refreshRecords();
+    if (report.settingsFields.length > 0) await refreshSettings();
+    return report;
+  };
+
+  // Alterações feitas offline que o servidor recusou e saíram da fila
+  const handleRejectedChanges = () => {
+    Alert.alert(
+      t('syncRejectedTitle'),
+      t('syncRejectedMessage').replace('{count}', rejectedCount.toString()),
+      [{ text: t('ok'), onPress: () => dismissRejected() }]
+    );
+  };
+
   const ModernStatCard = ({ icon: Icon, title, value, subtitle, color, delay = 0 }: any) => (
     <Animated.View entering={FadeInDown.delay(delay).springify()}>
       <LinearGradient
@@ -284,20 +302,52 @@ export default function HomeScreen() {
       >
         {/* Sync Status Indicator */}
         {syncStatus !== 'synced' && (
-          <Animated.View entering={FadeIn} style={[styles.syncIndicator, { 
-            backgroundColor: syncStatus === 'syncing' ? theme.colors.warning + '15' : theme.colors.error + '15',
-            borderColor: syncStatus === 'syncing' ? theme.colors.warning + '30' : theme.colors.error + '30'
-          }]}>
-            {syncStatus === 'syncing' ? (
-              <Wifi size={16} color={theme.colors.warning} />
-            ) : (
-              <WifiOff size={16} color={theme.colors.error} />
-            )}
-            <Text style={[styles.syncText, { 
-              color: syncStatus === 'syncing' ? theme.colors.warning : theme.colors.error 
-            }]}>
-              {syncStatus === 'syncing' ? 'Sincronizando...' : 'Erro de sincronização'}
-            </Text>
+          <Animated.View entering={FadeIn}>
+            <TouchableOpacity
+              style={[styles.syncIndicator, { 
+                backgroundColor: syncStatus === 'error' ? theme.colors.error + '15' : theme.colors.warning + '15',
+                borderColor: syncStatus === 'error' ? theme.colors.error + '30' : theme.colors.warning + '30'
+              }]}
+              onPress={rejectedCount > 0 ? handleRejectedChanges : retrySync}
+              disabled={syncStatus === 'syncing'}
+              activeOpacity={0.7}
+            >
+              {syncStatus === 'syncing' ? (
+                <Wifi size={16} color={theme.colors.warning} />
+              ) : (
+                <WifiOff size={16} color={syncStatus === 'error' ? theme.colors.error : theme.colors.warning} />
+              )}
+              <Text style={[styles.syncText, { 
+                color: syncStatus === 'error' ? theme.colors.error : theme.colors.warning 
+              }]}>
+                {syncStatus === 'syncing'
+                  ? t('syncing')
+                  : rejectedCount > 0
+                    ? t('syncRejected').replace('{count}', rejectedCount.toString())
+                    : syncStatus === 'error'
+                      ? t('syncError')
+                      : t('pendingChanges').replace('{count}', pendingCount.toString())}
+              </Text>
+            </TouchableOpacity>
+          </Animated.View>
+        )}
+
+        {/* Time zone travel notice */}
+        {travelTimeZone && (
+          <Animated.View entering={FadeIn}>
+            <TouchableOpacity
+              style={[styles.syncIndicator, {
+                backgroundColor: theme.colors.primary + '15',
+                borderColor: theme.colors.primary + '30'
+              }]}
+              onPress={handleTravelTimeZone}
+              activeOpacity={0.7}
+            >
+              <Globe size={16} color={theme.colors.primary} />
+              <Text style={[styles.syncText, { color: theme.colors.primary }]}>
+                {t('timezoneTravelBanner').replace('{zone}', travelTimeZone)}
+              </Text>
+            </TouchableOpacity>
           </Animated.View>
         )}
 
@@ -309,6 +359,8 @@ export default function HomeScreen() {
             canCheckIn={canCheckIn}
             capsules={todayRecord?.capsules || 2}
             time={todayRecord?.time || '--:--'}
+            dosesTaken={todayIntakes.length}
+            dosesPerDay={dosesPerDay}
             streak={stats.currentStreak}
             loading={loading}
           />
@@ -320,7 +372,6 @@ export default function HomeScreen() {
             progress={currentMonthStats.progress}
             completedDays={currentMonthStats.completedDays}
             totalDays={currentMonthStats.totalDaysInMonth}
-            records={records}
           />
         </Animated.View>
 
@@ -359,6 +410,24 @@ export default function HomeScreen() {
               color={theme.colors.error}
               delay={1000}
             />
+            <ModernStatCard
+              icon={CheckCircle}
+              title={t('dailyGoal')}
+              value={`${stats.goals.todayCapsules}/${stats.goals.dailyGoal}`}
+              subtitle={stats.goals.dailyGoalMet ? t('goalMet') : t('goalNotMetYet')}
+              color={stats.goals.dailyGoalMet ? theme.colors.success : theme.colors.warning}
+              delay={1100}
+            />
+            <ModernStatCard
+              icon={Calendar}
+              title={t('weeklyGoal')}
+              value={`${stats.goals.weeklyGoalProgress.toFixed(0)}%`}
+              subtitle={t('weeklyGoalSummary')
+                .replace('{count}', String(stats.goals.weekCapsules))
+                .replace('{goal}', String(stats.goals.weeklyGoal))}
+              color="#0EA5E9"
+              delay={1200}
+            />
           </View>
         </Animated.View>
 
@@ -437,6 +506,23 @@ export default function HomeScreen() {
           completeTutorial();
         }}
       />
+
+      <ConflictResolutionModal
+        conflict={showTutorial ? null : conflicts[0] || null}
+        onResolve={resolveConflict}
+      />
+
+      <AccountDeletionNoticeModal
+        deletion={showTutorial ? null : accountDeletion}
+        onKeepAccount={cancelAccountDeletion}
+        onSignOut={logout}
+      />
+
+      <LegacyMigrationModal
+        summary={showTutorial || conflicts.length > 0 || accountDeletion ? null : legacyData}
+        onMigrate={handleLegacyMigration}
+        onSkip={skipLegacyMigration}
+      />
     </View>
   );
 }
@@ -1,14 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Image } from 'react-native';
-import { User, CreditCard as Edit3, Save, Calendar, Mail, X, Camera } from 'lucide-react-native';
+import { User, CreditCard as Edit3, Save, Calendar, Mail, X, Camera, FileText, Lock, Trash2 } from 'lucide-react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as ImagePicker from 'expo-image-picker';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
 import { SupabaseService } from '@/services/SupabaseService';
+import { DataManager } from '@/utils/DataManager';
 import { Card } from '@/components/ui/Card';
 import { Header } from '@/components/ui/Header';
+import { DateRangeModal } from '@/components/ui/DateRangeModal';
+import { AccountSecurityModal, AccountSecurityMode } from '@/components/ui/AccountSecurityModal';
+import { DeleteAccountModal } from '@/components/ui/DeleteAccountModal';
+import { useClinicianReport } from '@/hooks/useClinicianReport';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 
 interface UserProfile {
@@ -24,11 +29,26 @@ interface UserProfile {
 export default function ProfileScreen() {
   const { theme } = useTheme();
   const { t, language } = useLanguage();
-  const { user, userProfile, updateUserProfile } = useFirebaseAuth();
+  const {
+    user,
+    userProfile,
+    updateUserProfile,
+    pendingEmail,
+    changeEmail,
+    changePassword,
+    accountDeletion,
+    requestAccountDeletion,
+    cancelAccountDeletion,
+    logout,
+  } = useFirebaseAuth();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [tempProfile, setTempProfile] = useState<UserProfile | null>(null);
   const [firstLoginDate, setFirstLoginDate] = useState<string>('');
+  const [showReportRange, setShowReportRange] = useState(false);
+  const [securityMode, setSecurityMode] = useState<AccountSecurityMode | null>(null);
+  const [showDeleteAccount, setShowDeleteAccount] = useState(false);
+  const report = useClinicianReport();
 
   useEffect(() => {
     if (userProfile) {
@@ -86,6 +106,33 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleSecuritySubmit = async (currentPassword: string, value: string) => {
+    if (securityMode === 'email') {
+      await changeEmail(currentPassword, value);
+      setSecurityMode(null);
+      Alert.alert(t('emailChangeRequested'), t('emailChangeRequestedMessage').replace('{email}', value));
+    } else {
+      await changePassword(currentPassword, value);
+      setSecurityMode(null);
+      Alert.alert(t('passwordUpdated'), t('passwordChangedMessage'));
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    try {
+      await cancelAccountDeletion();
+      Alert.alert(t('success'), t('deletionCancelled'));
+    } catch (error) {
+      console.error(`❌ [${user?.id}] Failed to cancel account deletion:`, error);
+      Alert.alert(t('error'), t('cancelDeletionFailed'));
+    }
+  };
+
+  const finishAccountDeletion = async () => {
+    setShowDeleteAccount(false);
+    await logout();
+  };
+
   const startEditing = () => {
     setTempProfile(profile ? { ...profile } : null);
     setIsEditing(true);
@@ -458,8 +505,9 @@ export default function ProfileScreen() {
               icon={Mail}
               label={t('contactEmail')}
               value={tempProfile?.email || ''}
-              onChangeText={(text: string) => tempProfile && setTempProfile({ ...tempProfile, email: text })}
+              onChangeText={() => {}} // Acompanha o email da conta; muda pela segurança da conta
               placeholder={language === 'en' ? "Ex: john@email.com" : "Ex: joao@email.com"}
+              readOnly={true}
             />
 
             <ProfileField
@@ -474,6 +522,119 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Relatório para o médico */}
+        {!isEditing && (
+          <Animated.View entering={FadeInDown.delay(600)}>
+            <Card style={{ marginHorizontal: 20, marginBottom: 20 }} padding={20}>
+              <View style={styles.controlSection}>
+                <Text style={[styles.controlTitle, { color: theme.colors.text }]}>
+                  {t('clinicianReport')}
+                </Text>
+                <Text style={[styles.controlSubtitle, { color: theme.colors.textSecondary }]}>
+                  {t('clinicianReportDescription')}
+                </Text>
+
+                <TouchableOpacity
+                  style={[styles.controlButton, { backgroundColor: theme.colors.primary }]}
+                  onPress={() => setShowReportRange(true)}
+                  activeOpacity={0.7}
+                >
+                  <FileText size={20} color="#ffffff" />
+                  <Text style={styles.controlButtonText}>{t('generateReport')}</Text>
+                </TouchableOpacity>
+              </View>
+            </Card>
+          </Animated.View>
+        )}
+
+        {/* Segurança da conta */}
+        {!isEditing && (
+          <Animated.View entering={FadeInDown.delay(700)}>
+            <Card style={{ marginHorizontal: 20, marginBottom: 20 }} padding={20}>
+              <View style={styles.controlSection}>
+                <Text style={[styles.controlTitle, { color: theme.colors.text }]}>
+                  {t('accountSecurity')}
+                </Text>
+                <Text style={[styles.controlSubtitle, { color: theme.colors.textSecondary }]}>
+                  {t('accountSecurityDescription').replace('{email}', user?.email || '')}
+                </Text>
+
+                {!!pendingEmail && (
+                  <View style={[styles.pendingEmailBox, {
+                    backgroundColor: theme.colors.warning + '15',
+                    borderColor: theme.colors.warning
+                  }]}>
+                    <Mail size={18} color={theme.colors.warning} />
+                    <Text style={[styles.pendingEmailText, { color: theme.colors.text }]}>
+                      {t('pendingEmailChange').replace('{email}', pendingEmail)}
+                    </Text>
+                  </View>
+                )}
+
+                <View style={styles.securityButtons}>
+                  <TouchableOpacity
+                    style={[styles.controlButton, styles.securityButton, { backgroundColor: theme.colors.primary }]}
+                    onPress={() => setSecurityMode('email')}
+                    activeOpacity={0.7}
+                  >
+                    <Mail size={20} color="#ffffff" />
+                    <Text style={styles.controlButtonText}>{t('changeEmail')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.controlButton, styles.securityButton, { backgroundColor: theme.colors.primary }]}
+                    onPress={() => setSecurityMode('password')}
+                    activeOpacity={0.7}
+                  >
+                    <Lock size={20} color="#ffffff" />
+                    <Text style={styles.controlButtonText}>{t('changePassword')}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </Card>
+          </Animated.View>
+        )}
+
+        {/* Exclusão da conta */}
+        {!isEditing && (
+          <Animated.View entering={FadeInDown.delay(800)}>
+            <Card style={{ marginHorizontal: 20, marginBottom: 20 }} padding={20}>
+              <View style={styles.controlSection}>
+                <Text style={[styles.controlTitle, { color: theme.colors.text }]}>
+                  {t('deleteAccount')}
+                </Text>
+                <Text style={[styles.controlSubtitle, { color: theme.colors.textSecondary }]}>
+                  {accountDeletion
+                    ? t('deleteAccountPendingDescription').replace(
+                        '{date}',
+                        new Date(accountDeletion.purge_after).toLocaleDateString(language === 'pt' ? 'pt-BR' : 'en-US')
+                      )
+                    : t('deleteAccountCardDescription').replace('{days}', String(SupabaseService.ACCOUNT_DELETION_GRACE_DAYS))}
+                </Text>
+
+                {accountDeletion ? (
+                  <TouchableOpacity
+                    style={[styles.controlButton, { backgroundColor: theme.colors.primary }]}
+                    onPress={handleCancelDeletion}
+                    activeOpacity={0.7}
+                  >
+                    <X size={20} color="#ffffff" />
+                    <Text style={styles.controlButtonText}>{t('keepMyAccount')}</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    style={[styles.controlButton, { backgroundColor: theme.colors.error }]}
+                    onPress={() => setShowDeleteAccount(true)}
+                    activeOpacity={0.7}
+                  >
+                    <Trash2 size={20} color="#ffffff" />
+                    <Text style={styles.controlButtonText}>{t('deleteMyAccount')}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </Card>
+          </Animated.View>
+        )}
+
         {/* Card de Salvamento */}
         {isEditing && (
           <Animated.View entering={FadeInDown.delay(800)}>
@@ -516,6 +677,38 @@ export default function ProfileScreen() {
         )}
 
       </ScrollView>
+
+      <DateRangeModal
+        visible={showReportRange}
+        title={t('clinicianReport')}
+        description={t('clinicianReportRangeDescription')}
+        submitLabel={t('generateReport')}
+        earliestDate={report.earliestDate}
+        busy={report.generating}
+        onSubmit={async (range) => {
+          if (await report.shareReport(range)) setShowReportRange(false);
+        }}
+        onClose={() => setShowReportRange(false)}
+      />
+
+      <AccountSecurityModal
+        visible={securityMode !== null}
+        mode={securityMode || 'email'}
+        currentEmail={user?.email || ''}
+        onSubmit={handleSecuritySubmit}
+        onClose={() => setSecurityMode(null)}
+      />
+
+      <DeleteAccountModal
+        visible={showDeleteAccount}
+        onExport={async () => {
+          if (!user) throw new Error('No authenticated user');
+          await DataManager.shareBackup(user.id);
+        }}
+        onConfirm={requestAccountDeletion}
+        onFinish={finishAccountDeletion}
+        onClose={() => setShowDeleteAccount(false)}
+      />
     </View>
   );
 }
@@ -608,6 +801,28 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  pendingEmailBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  pendingEmailText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+    marginLeft: 10,
+  },
+  securityButtons: {
+    width: '100%',
+    gap: 12,
+  },
+  securityButton: {
+    justifyContent: 'center',
+  },
   saveSection: {
     alignItems: 'center',
   },
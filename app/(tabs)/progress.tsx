@@ -1,11 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
-import { Target, TrendingUp, Award, Clock, Calendar, ChartBar as BarChart3, ChevronLeft, ChevronRight, Activity } from 'lucide-react-native';
+import { Target, TrendingUp, CircleCheck as CheckCircle, Award, Clock, Calendar, ChartBar as BarChart3, ChevronLeft, ChevronRight, Activity, Flame, Snowflake, History, FileText } from 'lucide-react-native';
+import { router } from 'expo-router';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useFirebaseRecords } from '@/contexts/FirebaseRecordsContext';
-import { SupabaseService } from '@/services/SupabaseService';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
+import { useFirebaseStats } from '@/contexts/FirebaseStatsContext';
 import { DailyRecord } from '@/types/database';
+import { DoseSchedule } from '@/utils/DoseSchedule';
+import { DoseIntakes } from '@/utils/DoseIntakes';
+import { GoalProgress } from '@/utils/GoalProgress';
+import { LocalDate } from '@/utils/LocalDate';
+import { StreakRun } from '@/utils/StreakEngine';
 
 // Helper function to get translated month name
 const getTranslatedMonth = (date: Date, t: (key: string) => string): string => {
@@ -22,13 +30,26 @@ const getTranslatedMonth = (date: Date, t: (key: string) => string): string => {
 import { Card } from '@/components/ui/Card';
 import { StatCard } from '@/components/ui/StatCard';
 import { Header } from '@/components/ui/Header';
+import { DateRangeModal } from '@/components/ui/DateRangeModal';
+import { useClinicianReport } from '@/hooks/useClinicianReport';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 
+const STREAK_HISTORY_LIMIT = 5;
+
 export default function ProgressScreen() {
   const { theme } = useTheme();
-  const { t } = useLanguage();
-  const { records } = useFirebaseRecords();
-  const [selectedMonth, setSelectedMonth] = useState(new Date());
+  const { t, language } = useLanguage();
+  const { records, intakes, deleteRecord, selectByMonth, canLogDate, backfillWindowDays } = useFirebaseRecords();
+  const { schedule, planFor } = useSchedule();
+  const { settings, timeZone } = useFirebaseSettings();
+  const { stats } = useFirebaseStats();
+  const report = useClinicianReport();
+  const [showReportRange, setShowReportRange] = useState(false);
+  // Primeiro dia do mês atual no fuso do usuário
+  const [selectedMonth, setSelectedMonth] = useState(() => {
+    const { year, month } = LocalDate.monthOf(LocalDate.today());
+    return new Date(year, month, 1);
+  });
   const [monthlyRecords, setMonthlyRecords] = useState<DailyRecord[]>([]);
   const [periodStats, setPeriodStats] = useState({
     totalCapsules: 0,
@@ -36,6 +57,8 @@ export default function ProgressScreen() {
     bestDay: 'N/A',
     consistency: 0,
     completedDays: 0,
+    onTimeDays: 0,
+    lateDays: 0,
     totalDays: 0,
   });
   const [monthlyStats, setMonthlyStats] = useState({
@@ -45,38 +68,46 @@ export default function ProgressScreen() {
     totalDaysInMonth: 0,
     consistency: 0,
   });
+  const [goalStats, setGoalStats] = useState({
+    dailyGoalDays: 0,
+    elapsedDays: 0,
+    weeksMet: 0,
+    totalWeeks: 0,
+    averageWeeklyProgress: 0,
+  });
 
   useEffect(() => {
     console.log(`📊 [Progress] Records updated: ${records.length} total records`);
-    console.log(`📊 [Progress] Selected month: ${selectedMonth.toISOString().slice(0, 7)}`);
+    console.log(`📊 [Progress] Selected month: ${LocalDate.dateOf(selectedMonth.getFullYear(), selectedMonth.getMonth(), 1).slice(0, 7)}`);
     if (records.length >= 0) { // Allow for empty records
       calculatePeriodStats();
       calculateMonthlyStats();
+      calculateGoalStats();
       filterRecordsByMonth();
     }
-  }, [records, selectedMonth]);
+  }, [records, intakes, selectedMonth, schedule, settings?.daily_goal, settings?.weekly_goal, timeZone]);
+
+  // Dias completos são julgados pela quantidade prevista no esquema
+  const isRecordComplete = (record: DailyRecord) =>
+    DoseSchedule.isDayComplete(planFor(record.date), record.capsules || 0);
+
+  const countScheduledDays = (year: number, month: number) => {
+    const daysInMonth = LocalDate.daysInMonth(year, month);
+    let scheduled = 0;
+    for (let day = 1; day <= daysInMonth; day++) {
+      const dateStr = LocalDate.dateOf(year, month, day);
+      if (!planFor(dateStr).isRestDay) scheduled++;
+    }
+    return scheduled;
+  };
 
   const filterRecordsByMonth = () => {
     try {
       const year = selectedMonth.getFullYear();
       const month = selectedMonth.getMonth();
       
-      // Get first and last day of selected month
-      const firstDay = new Date(year, month, 1);
-      const lastDay = new Date(year, month + 1, 0);
-      
-      // Filter records for selected month from all available records
-      const filteredRecords = records.filter(record => {
-        const recordDate = new Date(record.date);
-        const isInRange = recordDate >= firstDay && recordDate <= lastDay;
-        
-        return isInRange;
-      });
-      
-      // Sort by date (most recent first)
-      filteredRecords.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      
-      setMonthlyRecords(filteredRecords);
+      // Records for the selected month, most recent first
+      setMonthlyRecords(selectByMonth(year, month));
     } catch (error) {
       console.error('❌ [Progress] Error filtering records by month:', error);
       setMonthlyRecords([]);
@@ -88,22 +119,17 @@ export default function ProgressScreen() {
       const year = selectedMonth.getFullYear();
       const month = selectedMonth.getMonth();
       
-      // Get first and last day of selected month
-      const firstDay = new Date(year, month, 1);
-      const lastDay = new Date(year, month + 1, 0);
-      const totalDaysInMonth = lastDay.getDate();
+      const totalDaysInMonth = new Date(year, month + 1, 0).getDate();
       
-      // Filter records for selected month with real-time data
-      const monthRecords = records.filter(record => {
-        const recordDate = new Date(record.date);
-        return recordDate >= firstDay && recordDate <= lastDay;
-      });
+      // Records for selected month with real-time data
+      const monthRecords = selectByMonth(year, month);
       
-      const completedRecords = monthRecords.filter(r => r.completed);
+      const completedRecords = monthRecords.filter(isRecordComplete);
       const totalCapsules = completedRecords.reduce((sum, r) => sum + (r.capsules || 2), 0);
       const averageCapsules = completedRecords.length > 0 ? totalCapsules / completedRecords.length : 0;
       const completedDays = completedRecords.length;
-      const consistency = (completedDays / totalDaysInMonth) * 100;
+      const scheduledDays = countScheduledDays(year, month);
+      const consistency = scheduledDays > 0 ? (completedDays / scheduledDays) * 100 : 0;
       
       const newMonthlyStats = {
         totalCapsules,
@@ -127,37 +153,78 @@ export default function ProgressScreen() {
   };
 
 
+  // Metas do mês selecionado, contadas até hoje
+  const calculateGoalStats = () => {
+    try {
+      const year = selectedMonth.getFullYear();
+      const month = selectedMonth.getMonth();
+      const { start: firstDay, end: lastDay } = LocalDate.monthBounds(year, month);
+      const today = LocalDate.today();
+
+      if (firstDay > today) {
+        setGoalStats({ dailyGoalDays: 0, elapsedDays: 0, weeksMet: 0, totalWeeks: 0, averageWeeklyProgress: 0 });
+        return;
+      }
+
+      const dailyGoal = settings?.daily_goal || GoalProgress.DEFAULT_DAILY_GOAL;
+      const weeklyGoal = settings?.weekly_goal || GoalProgress.DEFAULT_WEEKLY_GOAL;
+      const capsulesByDate = DoseIntakes.capsulesByDate(records, intakes);
+      const days = GoalProgress.datesInRange(firstDay, lastDay < today ? lastDay : today);
+
+      const dailyGoalDays = days.filter(date => (capsulesByDate[date] || 0) >= dailyGoal).length;
+
+      // Semanas (segunda a domingo) que tocam o mês
+      const weekStarts = Array.from(new Set(days.map(date => GoalProgress.weekStart(date))));
+      const weeklyProgress = weekStarts.map(start =>
+        GoalProgress.percentage(GoalProgress.capsulesInRange(capsulesByDate, start, LocalDate.addDays(start, 6)), weeklyGoal)
+      );
+      const weeksMet = weeklyProgress.filter(progress => progress >= 100).length;
+      const averageWeeklyProgress = weeklyProgress.length > 0
+        ? weeklyProgress.reduce((sum, progress) => sum + progress, 0) / weeklyProgress.length
+        : 0;
+
+      setGoalStats({
+        dailyGoalDays,
+        elapsedDays: days.length,
+        weeksMet,
+        totalWeeks: weekStarts.length,
+        averageWeeklyProgress,
+      });
+    } catch (error) {
+      console.error('❌ [Progress] Error calculating goal stats:', error);
+      setGoalStats({ dailyGoalDays: 0, elapsedDays: 0, weeksMet: 0, totalWeeks: 0, averageWeeklyProgress: 0 });
+    }
+  };
+
   const calculatePeriodStats = () => {
     try {
       // Use monthly records instead of period-based filtering
       const year = selectedMonth.getFullYear();
       const month = selectedMonth.getMonth();
-      const firstDay = new Date(year, month, 1);
-      const lastDay = new Date(year, month + 1, 0);
-      const totalDaysInMonth = lastDay.getDate();
+      const totalDaysInMonth = new Date(year, month + 1, 0).getDate();
       
-      // Filter records for selected month
-      const monthRecords = records.filter(record => {
-        const recordDate = new Date(record.date);
-        return recordDate >= firstDay && recordDate <= lastDay;
-      });
+      // Records for selected month
+      const monthRecords = selectByMonth(year, month);
 
       // Calculate stats for the selected month
-      const completedRecords = monthRecords.filter(r => r.completed);
+      const completedRecords = monthRecords.filter(isRecordComplete);
       const totalCapsules = completedRecords.reduce((sum, r) => sum + (r.capsules || 2), 0);
       const averageCapsules = completedRecords.length > 0 ? totalCapsules / completedRecords.length : 0;
+      const scheduledDays = countScheduledDays(year, month);
       const bestDay = completedRecords.reduce((best, current) => 
         (current.capsules || 2) > (best.capsules || 2) ? current : best, 
         completedRecords[0] || { date: '', capsules: 2 }
       );
-      const consistency = (completedRecords.length / totalDaysInMonth) * 100;
+      const consistency = scheduledDays > 0 ? (completedRecords.length / scheduledDays) * 100 : 0;
       
       const newPeriodStats = {
         totalCapsules,
         averageCapsules,
-        bestDay: bestDay.date ? new Date(bestDay.date).toLocaleDateString('pt-BR') : 'N/A',
+        bestDay: bestDay.date ? LocalDate.parse(bestDay.date).toLocaleDateString('pt-BR', { timeZone: 'UTC' }) : 'N/A',
         consistency,
         completedDays: completedRecords.length,
+        onTimeDays: completedRecords.filter(r => !r.edited_late).length,
+        lateDays: completedRecords.filter(r => r.edited_late).length,
         totalDays: totalDaysInMonth,
       };
       
@@ -171,6 +238,8 @@ export default function ProgressScreen() {
         bestDay: 'N/A',
         consistency: 0,
         completedDays: 0,
+        onTimeDays: 0,
+        lateDays: 0,
         totalDays: 0,
       });
     }
@@ -187,10 +256,10 @@ export default function ProgressScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              // Delete all records from Firebase
+              // Delete all records (queued until the device is online)
               for (const record of records) {
                 if (record.id) {
-                  await SupabaseService.deleteDailyRecord(record.id);
+                  await deleteRecord(record.id);
                 }
               }
               
@@ -205,6 +274,52 @@ export default function ProgressScreen() {
     );
   };
 
+  /**
+   * Abre o registro de um dia do calendário, respeitando a janela de registro atrasado
+   */
+  const openDay = (date: string) => {
+    if (date > LocalDate.today()) return;
+
+    if (!canLogDate(date)) {
+      Alert.alert(
+        t('outsideBackfillWindowTitle'),
+        t('outsideBackfillWindowMessage').replace('{days}', String(backfillWindowDays))
+      );
+      return;
+    }
+
+    router.push({ pathname: '/register-use', params: { date } });
+  };
+
+  const formatShortDate = (date: string) =>
+    LocalDate.parse(date).toLocaleDateString(language === 'pt' ? 'pt-BR' : 'en-US', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      timeZone: 'UTC',
+    });
+
+  const renderStreakRun = (run: StreakRun) => (
+    <View key={run.start} style={[styles.streakRow, { borderBottomColor: theme.colors.border }]}>
+      <View style={styles.streakInfo}>
+        <Text style={[styles.streakRange, { color: theme.colors.text }]}>
+          {formatShortDate(run.start)} – {run.active ? t('today') : formatShortDate(run.end)}
+        </Text>
+        {run.frozenDays > 0 && (
+          <View style={styles.streakFrozen}>
+            <Snowflake size={12} color={theme.colors.textSecondary} />
+            <Text style={[styles.streakFrozenText, { color: theme.colors.textSecondary }]}>
+              {t('frozenDays').replace('{count}', String(run.frozenDays))}
+            </Text>
+          </View>
+        )}
+      </View>
+      <Text style={[styles.streakLength, { color: run.active ? '#EA580C' : theme.colors.text }]}>
+        {run.length} {t('days')}
+      </Text>
+    </View>
+  );
+
   const MonthSelector = () => {
     const goToPreviousMonth = () => {
       const newMonth = new Date(selectedMonth);
@@ -219,9 +334,9 @@ export default function ProgressScreen() {
     };
 
     const isCurrentMonth = () => {
-      const now = new Date();
-      return selectedMonth.getFullYear() === now.getFullYear() && 
-             selectedMonth.getMonth() === now.getMonth();
+      const now = LocalDate.monthOf(LocalDate.today());
+      return selectedMonth.getFullYear() === now.year && 
+             selectedMonth.getMonth() === now.month;
     };
 
     const isFutureMonth = () => {
@@ -431,16 +546,19 @@ export default function ProgressScreen() {
             >
               {Array.from({ length: monthlyStats.totalDaysInMonth }, (_, index) => {
                 const day = index + 1;
-                const date = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth(), day);
-                const dateStr = date.toISOString().split('T')[0];
+                const dateStr = LocalDate.dateOf(selectedMonth.getFullYear(), selectedMonth.getMonth(), day);
                 const dayRecord = monthlyRecords.find(r => r.date === dateStr);
-                const isCompleted = dayRecord?.completed || false;
-                const isToday = dateStr === new Date().toISOString().split('T')[0];
-                const isFuture = date > new Date();
+                const isCompleted = dayRecord ? isRecordComplete(dayRecord) : false;
+                const isRestDay = planFor(dateStr).isRestDay && !isCompleted;
+                const isToday = dateStr === LocalDate.today();
+                const isFuture = dateStr > LocalDate.today();
                 
                 return (
-                  <View
+                  <TouchableOpacity
                     key={day}
+                    activeOpacity={0.7}
+                    disabled={isFuture}
+                    onPress={() => openDay(dateStr)}
                     style={[
                       styles.dayItem,
                       {
@@ -448,12 +566,16 @@ export default function ProgressScreen() {
                           ? '#f5f5f5'
                           : isCompleted 
                             ? theme.colors.success + '20'
-                            : theme.colors.error + '20',
+                            : isRestDay
+                              ? theme.colors.border + '40'
+                              : theme.colors.error + '20',
                         borderColor: isFuture
                           ? '#e0e0e0'
                           : isCompleted 
                             ? theme.colors.success
-                            : theme.colors.error,
+                            : isRestDay
+                              ? theme.colors.border
+                              : theme.colors.error,
                         borderWidth: isToday ? 3 : 1,
                       }
                     ]}
@@ -465,7 +587,9 @@ export default function ProgressScreen() {
                           ? '#9e9e9e'
                           : isCompleted 
                             ? theme.colors.success
-                            : theme.colors.error,
+                            : isRestDay
+                              ? theme.colors.textSecondary
+                              : theme.colors.error,
                         fontWeight: isToday ? '800' : '600'
                       }
                     ]}>
@@ -480,7 +604,7 @@ export default function ProgressScreen() {
                       </View>
                     )}
                     
-                    {!isCompleted && !isFuture && (
+                    {!isCompleted && !isFuture && !isRestDay && (
                       <View style={styles.dayStatusIndicator}>
                         <Text style={[styles.dayStatusText, { color: theme.colors.error }]}>
                           ❌
@@ -488,6 +612,14 @@ export default function ProgressScreen() {
                       </View>
                     )}
                     
+                    {isRestDay && !isFuture && (
+                      <View style={styles.dayStatusIndicator}>
+                        <Text style={[styles.dayStatusText, { color: theme.colors.textSecondary }]}>
+                          💤
+                        </Text>
+                      </View>
+                    )}
+                    
                     {isFuture && (
                       <View style={styles.dayStatusIndicator}>
                         <Text style={[styles.dayStatusText, { color: '#9e9e9e' }]}>
@@ -495,7 +627,11 @@ export default function ProgressScreen() {
                         </Text>
                       </View>
                     )}
-                  </View>
+
+                    {dayRecord?.edited_late && (
+                      <View style={[styles.lateMarker, { backgroundColor: theme.colors.warning }]} />
+                    )}
+                  </TouchableOpacity>
                 );
               })}
             </ScrollView>
@@ -514,6 +650,18 @@ export default function ProgressScreen() {
                   {t('notCompleted') || 'Não Completado'}
                 </Text>
               </View>
+              <View style={styles.legendItem}>
+                <View style={[styles.legendDot, { backgroundColor: theme.colors.border }]} />
+                <Text style={[styles.legendText, { color: theme.colors.text }]}>
+                  {t('restDay')}
+                </Text>
+              </View>
+              <View style={styles.legendItem}>
+                <View style={[styles.legendDot, { backgroundColor: theme.colors.warning }]} />
+                <Text style={[styles.legendText, { color: theme.colors.text }]}>
+                  {t('loggedLate')}
+                </Text>
+              </View>
               <View style={styles.legendItem}>
                 <View style={[styles.legendDot, { backgroundColor: '#f5f5f5', borderWidth: 1, borderColor: '#e0e0e0' }]} />
                 <Text style={[styles.legendText, { color: theme.colors.text }]}>
@@ -572,11 +720,134 @@ export default function ProgressScreen() {
               color={theme.colors.error}
               delay={900}
             />
+            <StatCard
+              icon={CheckCircle}
+              title={t('onTimeLogs')}
+              value={periodStats.onTimeDays}
+              subtitle={t('onTimeLogsSubtitle')}
+              color={theme.colors.primary}
+              delay={1000}
+            />
+            <StatCard
+              icon={History}
+              title={t('lateLogs')}
+              value={periodStats.lateDays}
+              subtitle={t('lateLogsSubtitle')}
+              color={theme.colors.warning}
+              delay={1100}
+            />
           </View>
         </Animated.View>
 
+        <Animated.View entering={FadeInDown.delay(600)} style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <CheckCircle size={24} color={theme.colors.primary} />
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              {t('goalAttainment')}
+            </Text>
+          </View>
+
+          <View style={styles.statsGrid}>
+            <StatCard
+              icon={Target}
+              title={t('dailyGoal')}
+              value={`${goalStats.dailyGoalDays}/${goalStats.elapsedDays}`}
+              subtitle={t('dailyGoalDaysMet')}
+              color={theme.colors.success}
+              delay={700}
+            />
+            <StatCard
+              icon={Calendar}
+              title={t('weeklyGoal')}
+              value={`${goalStats.averageWeeklyProgress.toFixed(0)}%`}
+              subtitle={t('weeklyGoalWeeksMet')
+                .replace('{count}', String(goalStats.weeksMet))
+                .replace('{total}', String(goalStats.totalWeeks))}
+              color="#0EA5E9"
+              delay={800}
+            />
+          </View>
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(700)} style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Flame size={24} color={theme.colors.primary} />
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              {t('streaks')}
+            </Text>
+          </View>
+
+          <View style={styles.statsGrid}>
+            <StatCard
+              icon={Flame}
+              title={t('currentStreak')}
+              value={stats.streaks.current}
+              subtitle={t('consecutive') + ' ' + t('days')}
+              color="#EA580C"
+              delay={800}
+            />
+            <StatCard
+              icon={Award}
+              title={t('longestStreak')}
+              value={stats.streaks.longest}
+              subtitle={stats.streaks.freezeDaysPerMonth > 0
+                ? t('freezeDaysUsed')
+                    .replace('{used}', String(stats.streaks.freezeDaysUsedThisMonth))
+                    .replace('{total}', String(stats.streaks.freezeDaysPerMonth))
+                : t('days')}
+              color="#8B5CF6"
+              delay={900}
+            />
+          </View>
+
+          {stats.streaks.history.length > 0 && (
+            <Card style={{ marginHorizontal: 20, marginTop: 12 }}>
+              <Text style={[styles.monthlyCalendarTitle, { color: theme.colors.text }]}>
+                {t('streakHistory')}
+              </Text>
+              {stats.streaks.history.slice(0, STREAK_HISTORY_LIMIT).map(renderStreakRun)}
+            </Card>
+          )}
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(800)} style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <FileText size={24} color={theme.colors.primary} />
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              {t('clinicianReport')}
+            </Text>
+          </View>
+
+          <Card style={{ marginHorizontal: 20 }}>
+            <Text style={[styles.reportDescription, { color: theme.colors.textSecondary }]}>
+              {t('clinicianReportDescription')}
+            </Text>
+            <TouchableOpacity
+              style={[styles.reportButton, { backgroundColor: theme.colors.primary }]}
+              onPress={() => setShowReportRange(true)}
+              activeOpacity={0.7}
+            >
+              <FileText size={18} color="#ffffff" />
+              <Text style={styles.reportButtonText}>{t('generateReport')}</Text>
+            </TouchableOpacity>
+          </Card>
+        </Animated.View>
+
         <View style={styles.bottomSpacing} />
       </ScrollView>
+
+      <DateRangeModal
+        visible={showReportRange}
+        title={t('clinicianReport')}
+        description={t('clinicianReportRangeDescription')}
+        submitLabel={t('generateReport')}
+        earliestDate={report.earliestDate}
+        busy={report.generating}
+        onSubmit={async (range) => {
+          if (await report.shareReport(range)) setShowReportRange(false);
+        }}
+        onClose={() => setShowReportRange(false)}
+      />
     </View>
   );
 }
@@ -591,6 +862,24 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 24,
   },
+  reportDescription: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    gap: 8,
+  },
+  reportButtonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   sectionHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -611,6 +900,33 @@ const styles = StyleSheet.create({
   recordsList: {
     gap: 12,
   },
+  streakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  streakInfo: {
+    flex: 1,
+  },
+  streakRange: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  streakFrozen: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  streakFrozenText: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  streakLength: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
   bottomSpacing: {
     height: 20,
   },
@@ -676,14 +992,24 @@ const styles = StyleSheet.create({
   dayStatusIndicator: {
     alignItems: 'center',
   },
+  lateMarker: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
   dayStatusText: {
     fontSize: 12,
     fontWeight: '600',
   },
   daysLegend: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'center',
-    gap: 24,
+    columnGap: 24,
+    rowGap: 8,
     paddingTop: 12,
     borderTopWidth: 1,
     borderTopColor: 'rgba(0,0,0,0.1)',
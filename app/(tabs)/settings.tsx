@@ -1,17 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert } from 'react-native';
-import { Bell, Target, Info, Shield, Share2, Moon, Sun, Languages, Database, CircleHelp as HelpCircle, Settings as SettingsIcon } from 'lucide-react-native';
+import { Bell, BellRing, Target, Pill, CalendarClock, Globe, Snowflake, History, CheckCheck, Info, Shield, Share2, Moon, Sun, Languages, Database, CircleHelp as HelpCircle, Settings as SettingsIcon } from 'lucide-react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
 import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
+import { useReminders } from '@/contexts/ReminderContext';
+import { ReminderService } from '@/services/ReminderService';
+import { SupabaseService } from '@/services/SupabaseService';
 import { useTutorial } from '@/hooks/useTutorial';
 import { router } from 'expo-router';
 import { Header } from '@/components/ui/Header';
 import { InfoModal } from '@/components/ui/InfoModal';
 import { DataManagementModal } from '@/components/ui/DataManagementModal';
 import { HelpSupportModal } from '@/components/ui/HelpSupportModal';
+import { GoalEditorModal } from '@/components/ui/GoalEditorModal';
+import { GoalProgress } from '@/utils/GoalProgress';
+import { StreakEngine } from '@/utils/StreakEngine';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 
 interface Settings {
@@ -25,13 +31,78 @@ export default function SettingsScreen() {
   const { theme, toggleTheme } = useTheme();
   const { t, language, setLanguage } = useLanguage();
   const { logout, loading } = useFirebaseAuth();
-  const { settings, updateSettings } = useFirebaseSettings();
+  const { settings, updateSettings, timeZone, deviceTimeZone } = useFirebaseSettings();
   const { resetTutorial } = useTutorial();
+  const { permissionGranted, scheduledCount, requestPermission, snoozeReminder } = useReminders();
   const [showMaxTestorinInfo, setShowMaxTestorinInfo] = useState(false);
   const [showPrivacyInfo, setShowPrivacyInfo] = useState(false);
   const [showShareInfo, setShowShareInfo] = useState(false);
   const [showDataManagement, setShowDataManagement] = useState(false);
   const [showHelpSupport, setShowHelpSupport] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<'daily' | 'weekly' | 'doses' | 'freeze' | 'backfill' | null>(null);
+  const [savingGoal, setSavingGoal] = useState(false);
+
+  const dailyGoal = settings?.daily_goal || GoalProgress.DEFAULT_DAILY_GOAL;
+  const weeklyGoal = settings?.weekly_goal || GoalProgress.DEFAULT_WEEKLY_GOAL;
+  // Nunca mais doses do que cápsulas na meta diária (ver DoseSchedule.fromSettings)
+  const maxDosesPerDay = Math.min(6, dailyGoal);
+  const dosesPerDay = Math.min(settings?.doses_per_day || 1, maxDosesPerDay);
+  const freezeDays = settings?.streak_freeze_days || 0;
+  const backfillWindow = settings?.backfill_window_days ?? 7;
+
+  const goalEditors = {
+    daily: {
+      title: t('dailyGoal'),
+      description: t('dailyGoalDescription'),
+      value: dailyGoal,
+      min: 1,
+      max: 20,
+      presets: [1, 2, 3, 4],
+      unit: t('capsules'),
+      field: 'daily_goal',
+    },
+    weekly: {
+      title: t('weeklyGoal'),
+      description: t('weeklyGoalDescription'),
+      value: weeklyGoal,
+      min: 1,
+      max: 140,
+      presets: [dailyGoal * 5, dailyGoal * 6, dailyGoal * 7],
+      unit: t('capsules'),
+      field: 'weekly_goal',
+    },
+    doses: {
+      title: t('dosesPerDay'),
+      description: t('dosesPerDayDescription'),
+      value: dosesPerDay,
+      min: 1,
+      max: maxDosesPerDay,
+      presets: [1, 2, 3, 4].filter(count => count <= maxDosesPerDay),
+      unit: t('dosesUnit'),
+      field: 'doses_per_day',
+    },
+    freeze: {
+      title: t('streakFreezeDays'),
+      description: t('streakFreezeDescription'),
+      value: freezeDays,
+      min: 0,
+      max: StreakEngine.MAX_FREEZE_DAYS,
+      presets: [0, 1, 2, 3],
+      unit: t('days'),
+      field: 'streak_freeze_days',
+    },
+    backfill: {
+      title: t('backfillWindow'),
+      description: t('backfillWindowDescription'),
+      value: backfillWindow,
+      min: 0,
+      max: 30,
+      presets: [0, 3, 7, 14],
+      unit: t('days'),
+      field: 'backfill_window_days',
+    },
+  } as const;
+  const goalEditor = editingGoal ? goalEditors[editingGoal] : null;
 
   useEffect(() => {
     // Settings are loaded automatically via useFirebaseSettings hook
@@ -39,12 +110,68 @@ export default function SettingsScreen() {
 
   const toggleNotifications = async (value: boolean) => {
     try {
+      if (value && !permissionGranted && !(await requestPermission())) {
+        Alert.alert(t('notifications'), t('notificationPermissionDenied'));
+        return;
+      }
       await updateSettings({ notifications: value });
     } catch (error) {
       console.error('Error updating notifications:', error);
     }
   };
 
+  const toggleCountBackfilled = async (value: boolean) => {
+    try {
+      await updateSettings({ count_backfilled_days: value });
+    } catch (error) {
+      console.error('Error updating backfill setting:', error);
+    }
+  };
+
+  const handleSnooze = async () => {
+    try {
+      await snoozeReminder();
+      Alert.alert(t('reminderSnoozed'), t('reminderSnoozedMessage').replace('{minutes}', String(ReminderService.SNOOZE_MINUTES)));
+    } catch (error) {
+      console.error('Error snoozing reminder:', error);
+    }
+  };
+
+  const chooseTimeZone = () => {
+    const setTimeZone = async (value: string | null) => {
+      try {
+        await updateSettings({ timezone: value });
+      } catch (error) {
+        console.error('Error updating time zone:', error);
+        Alert.alert(t('error'), t('timezoneSaveError'));
+      }
+    };
+
+    Alert.alert(
+      t('timezone'),
+      t('timezoneDescription'),
+      [
+        { text: t('timezoneAutomatic'), onPress: () => setTimeZone(null) },
+        { text: t('timezoneFixed').replace('{zone}', deviceTimeZone), onPress: () => setTimeZone(deviceTimeZone) },
+        { text: t('cancel'), style: 'cancel' },
+      ]
+    );
+  };
+
+  const saveGoal = async (value: number) => {
+    try {
+      setSavingGoal(true);
+      if (!goalEditor) return;
+      await updateSettings({ [goalEditor.field]: value });
+      setEditingGoal(null);
+    } catch (error) {
+      console.error('Error updating goal:', error);
+      Alert.alert(t('error'), t('goalSaveError'));
+    } finally {
+      setSavingGoal(false);
+    }
+  };
+
   const shareApp = () => {
     setShowShareInfo(true);
   };
@@ -175,16 +302,26 @@ export default function SettingsScreen() {
           <SettingItem
             icon={Bell}
             title={t('dailyReminders')}
-            subtitle={t('receiveNotifications')}
+            subtitle={settings?.notifications && scheduledCount > 0
+              ? t('remindersScheduled').replace('{count}', String(scheduledCount))
+              : t('receiveNotifications')}
             rightElement={
               <Switch
-                value={settings.notifications}
+                value={!!settings?.notifications}
                 onValueChange={toggleNotifications}
                 thumbColor={theme.colors.primary}
                 trackColor={{ false: theme.colors.border, true: theme.colors.primary + '40' }}
               />
             }
           />
+          {settings?.notifications && permissionGranted && (
+            <SettingItem
+              icon={BellRing}
+              title={t('snoozeReminder')}
+              subtitle={t('snoozeReminderDescription').replace('{minutes}', String(ReminderService.SNOOZE_MINUTES))}
+              onPress={handleSnooze}
+            />
+          )}
         </Animated.View>
 
         <Animated.View entering={FadeInDown.delay(550)} style={styles.section}>
@@ -210,6 +347,14 @@ export default function SettingsScreen() {
               </Text>
             }
           />
+          <SettingItem
+            icon={Globe}
+            title={t('timezone')}
+            subtitle={settings?.timezone
+              ? t('timezoneFixed').replace('{zone}', timeZone)
+              : `${t('timezoneAutomatic')} (${timeZone})`}
+            onPress={chooseTimeZone}
+          />
         </Animated.View>
 
         <Animated.View entering={FadeInDown.delay(600)} style={styles.section}>
@@ -228,14 +373,51 @@ export default function SettingsScreen() {
           <SettingItem
             icon={Target}
             title={t('dailyGoal')}
-            subtitle={t('mandatoryDosage')}
-            onPress={() => Alert.alert(t('dailyGoal'), t('developmentFeature'))}
+            subtitle={t('dailyGoalValue').replace('{count}', String(dailyGoal))}
+            onPress={() => setEditingGoal('daily')}
           />
           <SettingItem
             icon={Target}
             title={t('weeklyGoal')}
-            subtitle={t('weeklyDosage')}
-            onPress={() => Alert.alert(t('weeklyGoal'), t('developmentFeature'))}
+            subtitle={t('weeklyGoalValue').replace('{count}', String(weeklyGoal))}
+            onPress={() => setEditingGoal('weekly')}
+          />
+          <SettingItem
+            icon={Pill}
+            title={t('dosesPerDay')}
+            subtitle={t('dosesPerDayValue').replace('{count}', String(dosesPerDay))}
+            onPress={() => setEditingGoal('doses')}
+          />
+          <SettingItem
+            icon={Snowflake}
+            title={t('streakFreezeDays')}
+            subtitle={t('streakFreezeValue').replace('{count}', String(freezeDays))}
+            onPress={() => setEditingGoal('freeze')}
+          />
+          <SettingItem
+            icon={History}
+            title={t('backfillWindow')}
+            subtitle={t('backfillWindowValue').replace('{count}', String(backfillWindow))}
+            onPress={() => setEditingGoal('backfill')}
+          />
+          <SettingItem
+            icon={CheckCheck}
+            title={t('countBackfilledDays')}
+            subtitle={t('countBackfilledDaysDescription')}
+            rightElement={
+              <Switch
+                value={settings?.count_backfilled_days !== false}
+                onValueChange={toggleCountBackfilled}
+                thumbColor={theme.colors.primary}
+                trackColor={{ false: theme.colors.border, true: theme.colors.primary + '40' }}
+              />
+            }
+          />
+          <SettingItem
+            icon={CalendarClock}
+            title={t('dosingSchedule')}
+            subtitle={t('dosingScheduleDescription')}
+            onPress={() => router.push('/schedule')}
           />
         </Animated.View>
 
@@ -297,7 +479,7 @@ export default function SettingsScreen() {
         visible={showPrivacyInfo}
         onClose={() => setShowPrivacyInfo(false)}
         title={t('privacyPolicyTitle')}
-        description={t('privacyPolicyDescription')}
+        description={t('privacyPolicyDescription').replace('{days}', String(SupabaseService.ACCOUNT_DELETION_GRACE_DAYS))}
       />
 
       {/* Share App Modal */}
@@ -321,6 +503,20 @@ export default function SettingsScreen() {
         onClose={() => setShowHelpSupport(false)}
       />
 
+      <GoalEditorModal
+        visible={goalEditor !== null}
+        title={goalEditor?.title || ''}
+        description={goalEditor?.description || ''}
+        value={goalEditor?.value ?? 0}
+        min={goalEditor?.min ?? 0}
+        max={goalEditor?.max ?? 0}
+        presets={goalEditor ? [...goalEditor.presets] : []}
+        unit={goalEditor?.unit}
+        saving={savingGoal}
+        onSave={saveGoal}
+        onClose={() => setEditingGoal(null)}
+      />
+
     </View>
   );
 }
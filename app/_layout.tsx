@@ -8,6 +8,8 @@ import { FirebaseAuthProvider } from '@/contexts/FirebaseAuthContext';
 import { FirebaseRecordsProvider } from '@/contexts/FirebaseRecordsContext';
 import { FirebaseStatsProvider } from '@/contexts/FirebaseStatsContext';
 import { FirebaseSettingsProvider } from '@/contexts/FirebaseSettingsContext';
+import { ScheduleProvider } from '@/contexts/ScheduleContext';
+import { ReminderProvider } from '@/contexts/ReminderContext';
 import { router } from 'expo-router';
 
 export default function RootLayout() {
@@ -33,19 +35,23 @@ export default function RootLayout() {
     <LanguageProvider>
       <ThemeProvider>
         <FirebaseAuthProvider>
-          <FirebaseRecordsProvider>
-            <FirebaseStatsProvider>
-              <FirebaseSettingsProvider>
-                <Stack screenOptions={{ headerShown: false }}>
-                  <Stack.Screen name="index" />
-                  <Stack.Screen name="auth" />
-                  <Stack.Screen name="(tabs)" />
-                  <Stack.Screen name="+not-found" />
-                </Stack>
-                <StatusBar style="auto" />
-              </FirebaseSettingsProvider>
-            </FirebaseStatsProvider>
-          </FirebaseRecordsProvider>
+          <FirebaseSettingsProvider>
+            <ScheduleProvider>
+              <FirebaseRecordsProvider>
+                <FirebaseStatsProvider>
+                  <ReminderProvider>
+                    <Stack screenOptions={{ headerShown: false }}>
+                      <Stack.Screen name="index" />
+                      <Stack.Screen name="auth" />
+                      <Stack.Screen name="(tabs)" />
+                      <Stack.Screen name="+not-found" />
+                    </Stack>
+                    <StatusBar style="auto" />
+                  </ReminderProvider>
+                </FirebaseStatsProvider>
+              </FirebaseRecordsProvider>
+            </ScheduleProvider>
+          </FirebaseSettingsProvider>
         </FirebaseAuthProvider>
       </ThemeProvider>
     </LanguageProvider>
@@ -5,6 +5,8 @@ export default function AuthLayout() {
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="login" />
       <Stack.Screen name="register" />
+      <Stack.Screen name="magic-link" />
+      <Stack.Screen name="reset-password" />
     </Stack>
   );
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import { Mail, Lock, Eye, EyeOff, LogIn, UserPlus, Droplets } from 'lucide-react
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
 import { ForgotPasswordModal } from '@/components/auth/ForgotPasswordModal';
+import { PasswordlessSignInModal } from '@/components/auth/PasswordlessSignInModal';
 import { router } from 'expo-router';
 import Animated, { FadeInDown, FadeInUp, FadeIn } from 'react-native-reanimated';
 
@@ -33,6 +34,7 @@ export default function LoginScreen() {
   const [errors, setErrors] = useState<{ email?: string; password?: string }>({});
   const [loginError, setLoginError] = useState<string>('');
   const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const [showPasswordless, setShowPasswordless] = useState(false);
 
   const validateForm = () => {
     const newErrors: { email?: string; password?: string } = {};
@@ -235,6 +237,18 @@ export default function LoginScreen() {
                 {t('forgotPassword')}
               </Text>
             </TouchableOpacity>
+
+            {/* Passwordless Link */}
+            <TouchableOpacity 
+              style={styles.passwordlessContainer}
+              onPress={() => setShowPasswordless(true)}
+              disabled={loading}
+            >
+              <Mail size={16} color="#e40f11" />
+              <Text style={styles.passwordlessText}>
+                {t('signInWithEmailCode')}
+              </Text>
+            </TouchableOpacity>
             {/* Register Link */}
             <View style={styles.registerContainer}>
               <Text style={[styles.registerText, { color: lightTheme.colors.textSecondary }]}>
@@ -272,6 +286,17 @@ export default function LoginScreen() {
         visible={showForgotPassword}
         onClose={() => setShowForgotPassword(false)}
       />
+
+      {/* Passwordless Sign-in Modal */}
+      <PasswordlessSignInModal
+        visible={showPasswordless}
+        initialEmail={email.trim()}
+        onClose={() => setShowPasswordless(false)}
+        onSignedIn={() => {
+          setShowPasswordless(false);
+          router.replace('/(tabs)');
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -407,6 +432,18 @@ const styles = StyleSheet.create({
     color: '#e40f11',
     textDecorationLine: 'underline',
   },
+  passwordlessContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+  },
+  passwordlessText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#e40f11',
+    marginLeft: 8,
+  },
   footerBrand: {
     alignItems: 'center',
     marginTop: 40,
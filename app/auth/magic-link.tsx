@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CircleAlert as AlertCircle } from 'lucide-react-native';
+import * as Linking from 'expo-linking';
+import { router } from 'expo-router';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { PasswordlessAuthService } from '@/services/PasswordlessAuthService';
+
+// Tema fixo para as telas de autenticação (sempre claro)
+const lightTheme = {
+  colors: {
+    background: '#ffffff',
+    primary: '#e40f11',
+    text: '#1e293b',
+    textSecondary: '#64748b',
+    error: '#e40f11',
+  }
+};
+
+export default function MagicLinkScreen() {
+  const { t } = useLanguage();
+  const url = Linking.useURL();
+  const [invalid, setInvalid] = useState(false);
+
+  // No aparelho o deep link pode chegar depois da primeira renderização
+  useEffect(() => {
+    if (Platform.OS !== 'web' && !url) return;
+
+    PasswordlessAuthService.consumeMagicLink(url)
+      .then(() => router.replace('/(tabs)'))
+      .catch(error => {
+        console.error('❌ [MagicLink] Invalid sign-in link:', error);
+        setInvalid(true);
+      });
+  }, [url]);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: lightTheme.colors.background }]}>
+      {invalid ? (
+        <Animated.View entering={FadeInDown.delay(200)} style={styles.content}>
+          <AlertCircle size={48} color={lightTheme.colors.error} />
+          <Text style={[styles.title, { color: lightTheme.colors.text }]}>
+            {t('magicLinkInvalid')}
+          </Text>
+          <Text style={[styles.subtitle, { color: lightTheme.colors.textSecondary }]}>
+            {t('magicLinkInvalidDescription')}
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: lightTheme.colors.primary }]}
+            onPress={() => router.replace('/auth/login')}
+          >
+            <Text style={styles.primaryButtonText}>
+              {t('backToLogin')}
+            </Text>
+          </TouchableOpacity>
+        </Animated.View>
+      ) : (
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color={lightTheme.colors.primary} />
+          <Text style={[styles.subtitle, styles.verifyingText, { color: lightTheme.colors.textSecondary }]}>
+            {t('signingInWithLink')}
+          </Text>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  content: {
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '800',
+    marginTop: 16,
+    marginBottom: 12,
+    textAlign: 'center',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 17,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  verifyingText: {
+    marginTop: 16,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 20,
+    borderRadius: 20,
+    marginTop: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.4,
+    shadowRadius: 16,
+    elevation: 8,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 19,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
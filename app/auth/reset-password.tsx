@@ -0,0 +1,355 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert, KeyboardAvoidingView, Platform, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Lock, Eye, EyeOff, KeyRound, CircleAlert as AlertCircle } from 'lucide-react-native';
+import * as Linking from 'expo-linking';
+import { router } from 'expo-router';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { PasswordRecoveryService } from '@/services/PasswordRecoveryService';
+
+// Tema fixo para as telas de autenticação (sempre claro)
+const lightTheme = {
+  colors: {
+    background: '#ffffff',
+    card: '#f8fafc',
+    primary: '#e40f11',
+    text: '#1e293b',
+    textSecondary: '#64748b',
+    border: '#e2e8f0',
+    error: '#e40f11',
+  }
+};
+
+const STRENGTH_COLORS = {
+  weak: '#e40f11',
+  medium: '#f59e0b',
+  strong: '#059669',
+};
+
+const STRENGTH_LABELS = {
+  weak: 'passwordStrengthWeak',
+  medium: 'passwordStrengthMedium',
+  strong: 'passwordStrengthStrong',
+};
+
+type ResetStep = 'verifying' | 'form' | 'invalid';
+
+export default function ResetPasswordScreen() {
+  const { t } = useLanguage();
+  const url = Linking.useURL();
+
+  const [step, setStep] = useState<ResetStep>('verifying');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // No aparelho o deep link pode chegar depois da primeira renderização; sem
+  // link nenhum vale a sessão atual, ou a tela mostra o link como inválido
+  useEffect(() => {
+    let cancelled = false;
+
+    const verify = async () => {
+      const link = url ?? (Platform.OS === 'web' ? null : await Linking.getInitialURL());
+      await PasswordRecoveryService.consumeRecoveryLink(link);
+    };
+
+    verify()
+      .then(() => !cancelled && setStep('form'))
+      .catch(error => {
+        console.error('❌ [ResetPassword] Invalid recovery link:', error);
+        if (!cancelled) setStep('invalid');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const validation = PasswordRecoveryService.validatePasswordStrength(password);
+
+  const handleUpdatePassword = async () => {
+    if (!password) {
+      setError(t('passwordRequired'));
+      return;
+    }
+    if (!validation.isValid) {
+      setError(t(validation.errors[0]));
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(t('passwordsDoNotMatch'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      await PasswordRecoveryService.updatePassword(password);
+
+      Alert.alert(t('passwordUpdated'), t('passwordUpdatedMessage'));
+      router.replace('/(tabs)');
+    } catch (error: any) {
+      console.error('❌ [ResetPassword] Error updating password:', error);
+      setError(t('passwordUpdateFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderVerifying = () => (
+    <View style={styles.centered}>
+      <ActivityIndicator size="large" color={lightTheme.colors.primary} />
+      <Text style={[styles.subtitle, styles.verifyingText, { color: lightTheme.colors.textSecondary }]}>
+        {t('verifyingResetLink')}
+      </Text>
+    </View>
+  );
+
+  const renderInvalid = () => (
+    <Animated.View entering={FadeInDown.delay(200)} style={styles.centered}>
+      <AlertCircle size={48} color={lightTheme.colors.error} />
+      <Text style={[styles.title, { color: lightTheme.colors.text }]}>
+        {t('resetLinkInvalid')}
+      </Text>
+      <Text style={[styles.subtitle, { color: lightTheme.colors.textSecondary }]}>
+        {t('resetLinkInvalidDescription')}
+      </Text>
+      <TouchableOpacity
+        style={[styles.primaryButton, styles.fullWidth, { backgroundColor: lightTheme.colors.primary }]}
+        onPress={() => router.replace('/auth/login')}
+      >
+        <Text style={styles.primaryButtonText}>
+          {t('backToLogin')}
+        </Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+
+  const renderPasswordInput = (value: string, onChange: (text: string) => void, placeholder: string) => (
+    <View style={[styles.inputWrapper, {
+      backgroundColor: lightTheme.colors.card,
+      borderColor: error ? lightTheme.colors.error : lightTheme.colors.border
+    }]}>
+      <Lock size={20} color={lightTheme.colors.primary} />
+      <TextInput
+        style={[styles.input, { color: lightTheme.colors.text }]}
+        placeholder={placeholder}
+        placeholderTextColor={lightTheme.colors.textSecondary}
+        value={value}
+        onChangeText={(text) => {
+          onChange(text);
+          setError('');
+        }}
+        secureTextEntry={!showPassword}
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!saving}
+      />
+      <TouchableOpacity onPress={() => setShowPassword(!showPassword)} style={styles.eyeButton}>
+        {showPassword ? (
+          <EyeOff size={20} color={lightTheme.colors.textSecondary} />
+        ) : (
+          <Eye size={20} color={lightTheme.colors.textSecondary} />
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderForm = () => (
+    <>
+      <Animated.View entering={FadeInUp.delay(200)} style={styles.header}>
+        <View style={[styles.iconCircle, { backgroundColor: lightTheme.colors.primary + '15' }]}>
+          <KeyRound size={32} color={lightTheme.colors.primary} />
+        </View>
+        <Text style={[styles.title, { color: lightTheme.colors.text }]}>
+          {t('resetPasswordTitle')}
+        </Text>
+        <Text style={[styles.subtitle, { color: lightTheme.colors.textSecondary }]}>
+          {t('createNewPassword')}
+        </Text>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(400)}>
+        <View style={styles.inputContainer}>
+          {renderPasswordInput(password, setPassword, t('newPassword'))}
+
+          {password.length > 0 && (
+            <View style={styles.strengthRow}>
+              <View style={[styles.strengthTrack, { backgroundColor: lightTheme.colors.border }]}>
+                <View style={[styles.strengthFill, {
+                  backgroundColor: STRENGTH_COLORS[validation.strength],
+                  width: validation.strength === 'strong' ? '100%' : validation.strength === 'medium' ? '66%' : '33%',
+                }]} />
+              </View>
+              <Text style={[styles.strengthLabel, { color: STRENGTH_COLORS[validation.strength] }]}>
+                {t(STRENGTH_LABELS[validation.strength])}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.inputContainer}>
+          {renderPasswordInput(confirmPassword, setConfirmPassword, t('confirmPassword'))}
+          {!!error && (
+            <Text style={[styles.errorText, { color: lightTheme.colors.error }]}>
+              {error}
+            </Text>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.primaryButton, { backgroundColor: lightTheme.colors.primary, opacity: saving ? 0.7 : 1 }]}
+          onPress={handleUpdatePassword}
+          disabled={saving}
+        >
+          <Text style={styles.primaryButtonText}>
+            {saving ? t('updatingPassword') : t('updatePassword')}
+          </Text>
+        </TouchableOpacity>
+      </Animated.View>
+    </>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: lightTheme.colors.background }]}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {step === 'verifying' && renderVerifying()}
+          {step === 'invalid' && renderInvalid()}
+          {step === 'form' && renderForm()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 40,
+  },
+  centered: {
+    alignItems: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '800',
+    marginTop: 16,
+    marginBottom: 12,
+    textAlign: 'center',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 17,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  verifyingText: {
+    marginTop: 16,
+  },
+  inputContainer: {
+    marginBottom: 24,
+  },
+  inputWrapper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 2.5,
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  input: {
+    flex: 1,
+    fontSize: 17,
+    paddingVertical: 18,
+    paddingHorizontal: 16,
+    fontWeight: '500',
+  },
+  eyeButton: {
+    padding: 12,
+  },
+  strengthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    marginHorizontal: 20,
+  },
+  strengthTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginRight: 12,
+  },
+  strengthFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  strengthLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 8,
+    marginLeft: 20,
+    fontWeight: '500',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 20,
+    borderRadius: 20,
+    marginTop: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.4,
+    shadowRadius: 16,
+    elevation: 8,
+  },
+  fullWidth: {
+    alignSelf: 'stretch',
+    marginTop: 32,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 19,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
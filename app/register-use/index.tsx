@@ -1,34 +1,42 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, KeyboardAvoidingView, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft, Clock, Droplets, FileText, Save } from 'lucide-react-native';
-import { router } from 'expo-router';
+import { ArrowLeft, Clock, Droplets, FileText, Save, Trash2 } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
-import { useFirebaseDailyRecords } from '@/hooks/useFirebaseData';
+import { useFirebaseRecords } from '@/contexts/FirebaseRecordsContext';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { DoseSchedule } from '@/utils/DoseSchedule';
+import { LocalDate } from '@/utils/LocalDate';
 import { Card } from '@/components/ui/Card';
 import { QuickDropsSelector } from '@/components/forms/QuickDropsSelector';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 
 export default function RegisterUseScreen() {
   const { theme } = useTheme();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const { user } = useFirebaseAuth();
-  const { createRecord, updateRecord, getRecordByDate } = useFirebaseDailyRecords();
+  const { selectIntakesByDate, logIntake, removeIntake, canLogDate } = useFirebaseRecords();
+  const { planFor } = useSchedule();
+  const params = useLocalSearchParams<{ date?: string }>();
+
+  // Dia a registrar: hoje ou um dia anterior aberto pelo calendário
+  const today = LocalDate.today();
+  const date = params.date && /^\d{4}-\d{2}-\d{2}$/.test(params.date) && params.date <= today ? params.date : today;
+  const isBackfill = date < today;
+  const dayIntakes = selectIntakesByDate(date);
+  const dayPlan = planFor(date);
+  const dosesPerDay = Math.max(1, dayPlan.doses.length);
+  const plannedDose = DoseSchedule.nextDose(dayPlan, dayIntakes.length);
+  const capsulesPerDose = plannedDose.capsules;
   
-  const [capsules, setCapsules] = useState('2');
-  const [time, setTime] = useState(
-    new Date().toLocaleTimeString('pt-BR', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    })
-  );
+  const [capsules, setCapsules] = useState(String(capsulesPerDose));
+  const [time, setTime] = useState(isBackfill && plannedDose.time ? plannedDose.time : LocalDate.timeOf());
   const [notes, setNotes] = useState('');
   const [loading, setLoading] = useState(false);
 
-  const today = new Date().toISOString().split('T')[0];
-
   const validateAndSave = async () => {
     if (!capsules.trim()) {
       Alert.alert(t('error'), t('enterValidCapsules'));
@@ -40,14 +48,19 @@ export default function RegisterUseScreen() {
       return;
     }
 
+    if (!canLogDate(date)) {
+      Alert.alert(t('error'), t('outsideBackfillWindow'));
+      return;
+    }
+
     const capsulesNumber = parseInt(capsules);
     if (isNaN(capsulesNumber) || capsulesNumber <= 0) {
       Alert.alert(t('error'), t('enterValidCapsules'));
       return;
     }
 
-    // Verificar se a dosagem está incorreta (não é 2 cápsulas)
-    if (capsulesNumber !== 2) {
+    // Verificar se a dosagem está diferente da prevista para cada dose
+    if (capsulesNumber !== capsulesPerDose) {
       Alert.alert(
         t('incorrectDosage'),
         t('dosageWarning').replace('{capsules}', capsulesNumber.toString()),
@@ -70,75 +83,26 @@ export default function RegisterUseScreen() {
         return;
       }
       
-      console.log(`💊 [${user?.id}] Saving record: ${capsulesNumber} capsules for ${today}`);
+      console.log(`💊 [${user?.id}] Saving record: ${capsulesNumber} capsules for ${date}`);
 
-      // Verificar se já existe um registro para hoje
-      const existingRecord = await getRecordByDate(today);
-
-      const recordData = {
-        date: today,
+      const summary = await logIntake(date, {
         capsules: capsulesNumber,
         time: time,
         notes: notes.trim(),
-        completed: true,
-      };
+      });
+      console.log(`✅ [${user?.id}] Dose ${summary.doses} of ${dosesPerDay} saved`);
 
-      if (existingRecord?.id) {
-        // Atualizar registro existente
-        console.log(`🔄 [${user?.id}] Updating existing record: ${existingRecord.id}`);
-        await updateRecord(existingRecord.id, recordData);
-        console.log(`✅ [${user?.id}] Record updated successfully`);
-        Alert.alert(
-          t('todayRecordUpdated'),
-          t('recordUpdatedSuccess'),
-          [{ 
-            text: t('ok'), 
-            onPress: () => {
-              // Navegar para Home após confirmar
-              router.replace('/(tabs)');
-            }
-          }]
-        );
-      } else {
-        // Criar novo registro
-        console.log(`🔄 [${user?.id}] Creating new record for ${today}`);
-        await createRecord(recordData);
-        console.log(`✅ [${user?.id}] Record created successfully`);
-        Alert.alert(
-          t('congratulations'),
-          t('recordSavedSuccess'),
-          [{ 
-            text: t('ok'), 
-            onPress: () => {
-              // Navegar para Home após confirmar
-              router.replace('/(tabs)');
-            }
-          }]
-        );
-      }
-      
-      // Validar se foi salvo corretamente
-      setTimeout(async () => {
-        try {
-          const savedRecord = await getRecordByDate(today);
-          if (savedRecord && savedRecord.capsules === capsulesNumber) {
-            console.log(`✅ [${user?.id}] Record validation successful - ${capsulesNumber} capsules saved`);
-          } else {
-            console.warn(`⚠️ [${user?.id}] Record validation failed - expected ${capsulesNumber} capsules`);
-          }
-        } catch (error) {
-          console.error(`❌ [${user?.id}] Record validation error:`, error);
-        }
-      }
-      )
       Alert.alert(
-        t('congratulations'),
-        t('recordSavedSuccess'),
+        summary.completed ? t('congratulations') : t('doseSaved'),
+        summary.completed
+          ? t('recordSavedSuccess')
+          : t('doseLogged').replace('{current}', String(summary.doses)).replace('{total}', String(dosesPerDay)),
         [{ 
           text: t('ok'), 
           onPress: () => {
-            // Navegar para Home após confirmar
-            router.replace('/(tabs)');
+            // Navegar para Home após confirmar; registros atrasados voltam ao calendário
+            if (isBackfill) router.back();
+            else router.replace('/(tabs)');
           }
         }]
       );
@@ -151,6 +115,18 @@ export default function RegisterUseScreen() {
     }
   };
 
+  const deleteIntake = async (intakeId: string) => {
+    try {
+      setLoading(true);
+      await removeIntake(intakeId);
+    } catch (error) {
+      console.error(`❌ [${user?.id}] Failed to remove dose:`, error);
+      Alert.alert(t('error'), t('couldNotRemoveDose'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <KeyboardAvoidingView 
@@ -170,8 +146,24 @@ export default function RegisterUseScreen() {
               {t('registerUse')}
             </Text>
             <Text style={[styles.headerSubtitle, { color: theme.colors.textSecondary }]}>
-              {t('registerDailyUse')}
+              {dosesPerDay > 1
+                ? t('doseOf')
+                    .replace('{current}', String(Math.min(dayIntakes.length + 1, dosesPerDay)))
+                    .replace('{total}', String(dosesPerDay))
+                : t('registerDailyUse')}
             </Text>
+            {isBackfill && (
+              <Text style={[styles.headerSubtitle, { color: theme.colors.warning }]}>
+                {t('loggingForDate').replace(
+                  '{date}',
+                  LocalDate.parse(date).toLocaleDateString(language === 'pt' ? 'pt-BR' : 'en-US', {
+                    day: 'numeric',
+                    month: 'long',
+                    timeZone: 'UTC',
+                  })
+                )}
+              </Text>
+            )}
           </View>
         </View>
 
@@ -180,6 +172,35 @@ export default function RegisterUseScreen() {
           showsVerticalScrollIndicator={false}
           keyboardShouldPersistTaps="handled"
         >
+          {/* Today's Doses */}
+          {dayIntakes.length > 0 && (
+            <Animated.View entering={FadeInDown.delay(300)}>
+              <Card style={{ marginHorizontal: 20, marginBottom: 20 }}>
+                <Text style={[styles.tipsTitle, { color: theme.colors.text }]}>
+                  {isBackfill ? t('dayDoses') : t('todayDoses')}
+                </Text>
+                {dayIntakes.map((intake, index) => (
+                  <View key={intake.id} style={[styles.intakeRow, { borderColor: theme.colors.border }]}>
+                    <Text style={[styles.intakeText, { color: theme.colors.text }]}>
+                      {t('doseOf')
+                        .replace('{current}', String(index + 1))
+                        .replace('{total}', String(Math.max(dosesPerDay, dayIntakes.length)))}
+                    </Text>
+                    <Text style={[styles.intakeDetails, { color: theme.colors.textSecondary }]}>
+                      {intake.capsules} {t('capsules')} {t('at')} {intake.time}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => intake.id && deleteIntake(intake.id)}
+                      disabled={loading}
+                    >
+                      <Trash2 size={18} color={theme.colors.error} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </Card>
+            </Animated.View>
+          )}
+
           {/* Capsules Input */}
           <Animated.View entering={FadeInDown.delay(400)}>
             <Card style={{ marginHorizontal: 20, marginBottom: 20 }}>
@@ -211,6 +232,7 @@ export default function RegisterUseScreen() {
               <QuickDropsSelector
                 selectedValue={capsules}
                 onSelect={setCapsules}
+                options={DoseSchedule.quickOptions(dayPlan)}
               />
             </Card>
           </Animated.View>
@@ -370,6 +392,21 @@ const styles = StyleSheet.create({
   inputSection: {
     marginBottom: 8,
   },
+  intakeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  intakeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    flex: 1,
+  },
+  intakeDetails: {
+    fontSize: 14,
+    marginRight: 12,
+  },
   inputHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,569 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, KeyboardAvoidingView, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, CalendarClock, Plus, Trash2, Save, RotateCcw } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { Card } from '@/components/ui/Card';
+import { SchedulePhase, ScheduledDose } from '@/types/database';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+const WEEKDAY_KEYS = ['sundayShort', 'mondayShort', 'tuesdayShort', 'wednesdayShort', 'thursdayShort', 'fridayShort', 'saturdayShort'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// null = dias regulares, número = substituição daquele dia da semana
+type DoseTarget = number | null;
+
+export default function ScheduleScreen() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { schedule, isCustom, saveSchedule, resetSchedule } = useSchedule();
+
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [phases, setPhases] = useState<SchedulePhase[]>([]);
+  const [targets, setTargets] = useState<DoseTarget[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!schedule) return;
+    setName(schedule.name);
+    setStartDate(schedule.start_date);
+    setPhases(schedule.phases.map(phase => ({ ...phase, doses: [...phase.doses] })));
+    setTargets(schedule.phases.map(() => null));
+  }, [schedule]);
+
+  const updatePhase = (index: number, updates: Partial<SchedulePhase>) => {
+    setPhases(prev => prev.map((phase, i) => (i === index ? { ...phase, ...updates } : phase)));
+  };
+
+  const getDoses = (phase: SchedulePhase, target: DoseTarget): ScheduledDose[] =>
+    target === null ? phase.doses : phase.weekday_doses?.[target] ?? phase.doses;
+
+  const setDoses = (index: number, target: DoseTarget, doses: ScheduledDose[]) => {
+    const phase = phases[index];
+    if (target === null) {
+      updatePhase(index, { doses });
+    } else {
+      updatePhase(index, { weekday_doses: { ...phase.weekday_doses, [target]: doses } });
+    }
+  };
+
+  const clearOverride = (index: number, target: number) => {
+    const { [target]: _removed, ...rest } = phases[index].weekday_doses || {};
+    updatePhase(index, { weekday_doses: rest });
+  };
+
+  const addPhase = () => {
+    const last = phases[phases.length - 1];
+    setPhases(prev => [...prev, { duration_days: null, doses: last ? [...last.doses] : [{ time: '09:00', capsules: 2 }] }]);
+    setTargets(prev => [...prev, null]);
+  };
+
+  const removePhase = (index: number) => {
+    setPhases(prev => prev.filter((_, i) => i !== index));
+    setTargets(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined => {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+  };
+
+  const validate = (): string | null => {
+    if (!DATE_PATTERN.test(startDate)) return t('scheduleInvalidStartDate');
+
+    for (let i = 0; i < phases.length; i++) {
+      const phase = phases[i];
+      const isLast = i === phases.length - 1;
+      if (!isLast && !phase.duration_days) return t('scheduleInvalidDuration');
+
+      const allDoses = [phase.doses, ...Object.values(phase.weekday_doses || {})];
+      for (const doses of allDoses) {
+        for (const dose of doses) {
+          if (!TIME_PATTERN.test(dose.time)) return t('scheduleInvalidTime');
+          if (!dose.capsules || dose.capsules <= 0) return t('enterValidCapsules');
+        }
+      }
+    }
+
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validate();
+    if (validationError) {
+      Alert.alert(t('error'), validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveSchedule({ name: name.trim(), start_date: startDate, phases });
+      Alert.alert(t('scheduleSaved'), t('scheduleSavedMessage'), [
+        { text: t('ok'), onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error('❌ [Schedule] Error saving schedule:', error);
+      Alert.alert(t('error'), t('scheduleSaveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert(t('scheduleReset'), t('scheduleResetMessage'), [
+      { text: t('cancel'), style: 'cancel' },
+      {
+        text: t('scheduleReset'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await resetSchedule();
+          } catch (error) {
+            Alert.alert(t('error'), t('scheduleSaveError'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.background,
+      borderColor: theme.colors.border,
+      color: theme.colors.text,
+    },
+  ];
+
+  const renderPhase = (phase: SchedulePhase, index: number) => {
+    const target = targets[index] ?? null;
+    const doses = getDoses(phase, target);
+    const hasOverride = target !== null && !!phase.weekday_doses?.[target];
+
+    return (
+      <Animated.View key={index} entering={FadeInDown.delay(400 + index * 100)}>
+        <Card style={{ marginHorizontal: 20, marginBottom: 20 }}>
+          <View style={styles.phaseHeader}>
+            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>
+              {t('schedulePhase').replace('{number}', String(index + 1))}
+            </Text>
+            {phases.length > 1 && (
+              <TouchableOpacity onPress={() => removePhase(index)}>
+                <Trash2 size={20} color={theme.colors.error} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <TextInput
+            style={[inputStyle, styles.fieldSpacing]}
+            value={phase.name || ''}
+            onChangeText={(value) => updatePhase(index, { name: value })}
+            placeholder={t('schedulePhaseName')}
+            placeholderTextColor={theme.colors.textSecondary}
+          />
+
+          <View style={styles.fieldRow}>
+            <View style={styles.fieldColumn}>
+              <Text style={[styles.fieldLabel, { color: theme.colors.textSecondary }]}>
+                {t('scheduleDurationDays')}
+              </Text>
+              <TextInput
+                style={inputStyle}
+                value={phase.duration_days ? String(phase.duration_days) : ''}
+                onChangeText={(value) => updatePhase(index, { duration_days: parseOptionalNumber(value) ?? null })}
+                placeholder={index === phases.length - 1 ? '∞' : '7'}
+                placeholderTextColor={theme.colors.textSecondary}
+                keyboardType="numeric"
+                maxLength={4}
+              />
+            </View>
+            <View style={styles.fieldColumn}>
+              <Text style={[styles.fieldLabel, { color: theme.colors.textSecondary }]}>
+                {t('scheduleDaysOn')}
+              </Text>
+              <TextInput
+                style={inputStyle}
+                value={phase.cycle_on_days ? String(phase.cycle_on_days) : ''}
+                onChangeText={(value) => updatePhase(index, { cycle_on_days: parseOptionalNumber(value) })}
+                placeholder="5"
+                placeholderTextColor={theme.colors.textSecondary}
+                keyboardType="numeric"
+                maxLength={3}
+              />
+            </View>
+            <View style={styles.fieldColumn}>
+              <Text style={[styles.fieldLabel, { color: theme.colors.textSecondary }]}>
+                {t('scheduleDaysOff')}
+              </Text>
+              <TextInput
+                style={inputStyle}
+                value={phase.cycle_off_days ? String(phase.cycle_off_days) : ''}
+                onChangeText={(value) => updatePhase(index, { cycle_off_days: parseOptionalNumber(value) })}
+                placeholder="2"
+                placeholderTextColor={theme.colors.textSecondary}
+                keyboardType="numeric"
+                maxLength={3}
+              />
+            </View>
+          </View>
+
+          {/* Weekday selector */}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.weekdayRow}>
+            {[null, 0, 1, 2, 3, 4, 5, 6].map((weekday) => {
+              const isSelected = target === weekday;
+              const isOverridden = weekday !== null && !!phase.weekday_doses?.[weekday];
+              return (
+                <TouchableOpacity
+                  key={String(weekday)}
+                  style={[
+                    styles.weekdayChip,
+                    {
+                      backgroundColor: isSelected ? theme.colors.primary : theme.colors.background,
+                      borderColor: isOverridden ? theme.colors.warning : isSelected ? theme.colors.primary : theme.colors.border,
+                    },
+                  ]}
+                  onPress={() => setTargets(prev => prev.map((value, i) => (i === index ? weekday : value)))}
+                >
+                  <Text style={[styles.weekdayText, { color: isSelected ? '#ffffff' : theme.colors.text }]}>
+                    {weekday === null ? t('scheduleEveryDay') : t(WEEKDAY_KEYS[weekday])}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {target !== null && !hasOverride ? (
+            <TouchableOpacity
+              style={[styles.secondaryButton, { borderColor: theme.colors.border }]}
+              onPress={() => setDoses(index, target, [...phase.doses])}
+            >
+              <Text style={[styles.secondaryButtonText, { color: theme.colors.primary }]}>
+                {t('scheduleCustomizeDay')}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              {doses.length === 0 && (
+                <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+                  {t('restDay')}
+                </Text>
+              )}
+              {doses.map((dose, doseIndex) => (
+                <View key={doseIndex} style={styles.doseRow}>
+                  <TextInput
+                    style={[inputStyle, styles.doseInput]}
+                    value={dose.time}
+                    onChangeText={(value) => setDoses(index, target, doses.map((d, i) => (i === doseIndex ? { ...d, time: value } : d)))}
+                    placeholder="09:00"
+                    placeholderTextColor={theme.colors.textSecondary}
+                    maxLength={5}
+                  />
+                  <TextInput
+                    style={[inputStyle, styles.doseInput]}
+                    value={dose.capsules ? String(dose.capsules) : ''}
+                    onChangeText={(value) => setDoses(index, target, doses.map((d, i) => (i === doseIndex ? { ...d, capsules: parseOptionalNumber(value) || 0 } : d)))}
+                    placeholder={t('capsules')}
+                    placeholderTextColor={theme.colors.textSecondary}
+                    keyboardType="numeric"
+                    maxLength={2}
+                  />
+                  <TouchableOpacity onPress={() => setDoses(index, target, doses.filter((_, i) => i !== doseIndex))}>
+                    <Trash2 size={18} color={theme.colors.error} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <View style={styles.fieldRow}>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, styles.fieldColumn, { borderColor: theme.colors.border }]}
+                  onPress={() => setDoses(index, target, [...doses, { time: '21:00', capsules: 1 }])}
+                >
+                  <Plus size={16} color={theme.colors.primary} />
+                  <Text style={[styles.secondaryButtonText, { color: theme.colors.primary }]}>
+                    {t('scheduleAddDose')}
+                  </Text>
+                </TouchableOpacity>
+                {hasOverride && (
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, styles.fieldColumn, { borderColor: theme.colors.border }]}
+                    onPress={() => clearOverride(index, target as number)}
+                  >
+                    <Text style={[styles.secondaryButtonText, { color: theme.colors.textSecondary }]}>
+                      {t('scheduleUseRegularDays')}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </>
+          )}
+        </Card>
+      </Animated.View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: theme.colors.surface }]}>
+          <TouchableOpacity
+            style={[styles.backButton, { backgroundColor: theme.colors.card }]}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <View style={styles.headerContent}>
+            <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+              {t('dosingSchedule')}
+            </Text>
+            <Text style={[styles.headerSubtitle, { color: theme.colors.textSecondary }]}>
+              {isCustom ? t('dosingScheduleSubtitle') : t('dosingScheduleDefault')}
+            </Text>
+          </View>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Animated.View entering={FadeInDown.delay(300)}>
+            <Card style={{ marginHorizontal: 20, marginBottom: 20 }}>
+              <View style={styles.phaseHeader}>
+                <CalendarClock size={24} color={theme.colors.primary} />
+                <Text style={[styles.sectionLabel, styles.sectionLabelIcon, { color: theme.colors.text }]}>
+                  {t('scheduleRegimen')}
+                </Text>
+              </View>
+              <TextInput
+                style={[inputStyle, styles.fieldSpacing]}
+                value={name}
+                onChangeText={setName}
+                placeholder={t('scheduleName')}
+                placeholderTextColor={theme.colors.textSecondary}
+              />
+              <Text style={[styles.fieldLabel, { color: theme.colors.textSecondary }]}>
+                {t('scheduleStartDate')}
+              </Text>
+              <TextInput
+                style={inputStyle}
+                value={startDate}
+                onChangeText={setStartDate}
+                placeholder="2025-01-01"
+                placeholderTextColor={theme.colors.textSecondary}
+                maxLength={10}
+              />
+            </Card>
+          </Animated.View>
+
+          {phases.map(renderPhase)}
+
+          <TouchableOpacity
+            style={[styles.secondaryButton, styles.addPhaseButton, { borderColor: theme.colors.border }]}
+            onPress={addPhase}
+          >
+            <Plus size={16} color={theme.colors.primary} />
+            <Text style={[styles.secondaryButtonText, { color: theme.colors.primary }]}>
+              {t('scheduleAddPhase')}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              {
+                backgroundColor: theme.colors.primary,
+                opacity: saving ? 0.7 : 1,
+              },
+            ]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <Save size={20} color="#ffffff" />
+            <Text style={styles.saveButtonText}>
+              {saving ? t('saving') : t('save')}
+            </Text>
+          </TouchableOpacity>
+
+          {isCustom && (
+            <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+              <RotateCcw size={16} color={theme.colors.textSecondary} />
+              <Text style={[styles.resetButtonText, { color: theme.colors.textSecondary }]}>
+                {t('scheduleReset')}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.bottomSpacing} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    lineHeight: 18,
+  },
+  scrollView: {
+    flex: 1,
+    paddingTop: 20,
+  },
+  phaseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    flex: 1,
+  },
+  sectionLabelIcon: {
+    marginLeft: 12,
+  },
+  fieldSpacing: {
+    marginBottom: 12,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  fieldColumn: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  weekdayRow: {
+    marginBottom: 12,
+  },
+  weekdayChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 2,
+    marginRight: 8,
+  },
+  weekdayText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  doseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  doseInput: {
+    flex: 1,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 2,
+    gap: 6,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  addPhaseButton: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: 20,
+    paddingVertical: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '700',
+    marginLeft: 12,
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    gap: 6,
+  },
+  resetButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+});
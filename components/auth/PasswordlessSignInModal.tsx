@@ -0,0 +1,454 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TextInput } from 'react-native';
+import { Mail, X, ArrowLeft, KeyRound } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
+import { PasswordlessAuthService } from '@/services/PasswordlessAuthService';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown
+} from 'react-native-reanimated';
+
+interface PasswordlessSignInModalProps {
+  visible: boolean;
+  initialEmail?: string;
+  onClose: () => void;
+  onSignedIn: () => void;
+}
+
+type ModalStep = 'email' | 'code';
+
+export const PasswordlessSignInModal: React.FC<PasswordlessSignInModalProps> = ({
+  visible,
+  initialEmail = '',
+  onClose,
+  onSignedIn,
+}) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { sendSignInCode, verifySignInCode } = useFirebaseAuth();
+  const [email, setEmail] = useState(initialEmail);
+  const [code, setCode] = useState('');
+  const [currentStep, setCurrentStep] = useState<ModalStep>('email');
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState('');
+  const [resendIn, setResendIn] = useState(0);
+
+  useEffect(() => {
+    if (visible) setEmail(initialEmail);
+  }, [visible]);
+
+  // Contagem regressiva do reenvio enquanto o passo do código está aberto
+  useEffect(() => {
+    if (!visible || currentStep !== 'code') return;
+
+    const tick = () => setResendIn(PasswordlessAuthService.secondsUntilResend(email));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [visible, currentStep, email]);
+
+  const resetModal = () => {
+    setCode('');
+    setCurrentStep('email');
+    setSending(false);
+    setVerifying(false);
+    setError('');
+  };
+
+  const handleClose = () => {
+    resetModal();
+    onClose();
+  };
+
+  const handleSendEmail = async () => {
+    if (!email.trim()) {
+      setError(t('emailRequired'));
+      return;
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      setError(t('emailInvalid'));
+      return;
+    }
+
+    // Voltou ao email dentro do intervalo: o código enviado antes ainda vale
+    if (PasswordlessAuthService.secondsUntilResend(email) > 0) {
+      setCurrentStep('code');
+      return;
+    }
+
+    try {
+      setSending(true);
+      setError('');
+      await sendSignInCode(email.trim());
+      setCode('');
+      setCurrentStep('code');
+    } catch (error: any) {
+      setError(t(PasswordlessAuthService.errorKey(error)));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleVerifyCode = async (value: string = code) => {
+    if (value.length !== PasswordlessAuthService.CODE_LENGTH) {
+      setError(t('signInCodeLength').replace('{count}', String(PasswordlessAuthService.CODE_LENGTH)));
+      return;
+    }
+
+    try {
+      setVerifying(true);
+      setError('');
+      await verifySignInCode(email.trim(), value);
+      resetModal();
+      onSignedIn();
+    } catch (error: any) {
+      setError(t(PasswordlessAuthService.errorKey(error)));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleCodeChange = (text: string) => {
+    const digits = text.replace(/\D/g, '').slice(0, PasswordlessAuthService.CODE_LENGTH);
+    setCode(digits);
+    if (error) setError('');
+
+    // Código colado ou digitado por completo entra direto
+    if (digits.length === PasswordlessAuthService.CODE_LENGTH && !verifying) {
+      handleVerifyCode(digits);
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      setSending(true);
+      setError('');
+      await sendSignInCode(email.trim());
+      setCode('');
+      setResendIn(PasswordlessAuthService.secondsUntilResend(email));
+    } catch (error: any) {
+      setError(t(PasswordlessAuthService.errorKey(error)));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderHeader = (icon: React.ReactNode, title: string) => (
+    <View style={styles.modalHeader}>
+      <View style={styles.titleSection}>
+        {icon}
+        <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+          {title}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.closeButton, { backgroundColor: theme.colors.background }]}
+        onPress={handleClose}
+      >
+        <X size={20} color={theme.colors.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderError = () => !!error && (
+    <Animated.View entering={FadeIn.duration(200)} style={styles.errorContainer}>
+      <Text style={[styles.errorText, { color: theme.colors.error }]}>
+        {error}
+      </Text>
+    </Animated.View>
+  );
+
+  const renderEmailStep = () => (
+    <Animated.View entering={FadeIn.duration(300)} style={styles.stepContainer}>
+      {renderHeader(<Mail size={24} color={theme.colors.primary} />, t('passwordlessTitle'))}
+
+      <Text style={[styles.description, { color: theme.colors.textSecondary }]}>
+        {t('passwordlessDescription')}
+      </Text>
+
+      <View style={styles.inputContainer}>
+        <View style={[styles.inputWrapper, {
+          backgroundColor: theme.colors.card,
+          borderColor: error ? theme.colors.error : theme.colors.border,
+        }]}>
+          <Mail size={20} color={theme.colors.primary} />
+          <TextInput
+            style={[styles.input, { color: theme.colors.text }]}
+            placeholder={t('enterYourEmail')}
+            placeholderTextColor={theme.colors.textSecondary}
+            value={email}
+            onChangeText={(text) => {
+              setEmail(text);
+              if (error) setError('');
+            }}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!sending}
+            autoFocus
+          />
+        </View>
+        {renderError()}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, { backgroundColor: theme.colors.primary, opacity: sending ? 0.7 : 1 }]}
+        onPress={handleSendEmail}
+        disabled={sending}
+      >
+        <Text style={styles.primaryButtonText}>
+          {sending ? t('sending') : t('sendSignInEmail')}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.backContainer} onPress={handleClose} disabled={sending}>
+        <ArrowLeft size={16} color={theme.colors.textSecondary} />
+        <Text style={[styles.backText, { color: theme.colors.textSecondary }]}>
+          {t('signInWithPassword')}
+        </Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+
+  const renderCodeStep = () => (
+    <Animated.View entering={FadeIn.duration(300)} style={styles.stepContainer}>
+      {renderHeader(<KeyRound size={24} color={theme.colors.primary} />, t('enterSignInCode'))}
+
+      <Text style={[styles.description, { color: theme.colors.textSecondary }]}>
+        {t('signInCodeSent').replace('{email}', email.trim())}
+      </Text>
+
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={[styles.codeInput, {
+            color: theme.colors.text,
+            backgroundColor: theme.colors.card,
+            borderColor: error ? theme.colors.error : theme.colors.border,
+          }]}
+          value={code}
+          onChangeText={handleCodeChange}
+          placeholder={'0'.repeat(PasswordlessAuthService.CODE_LENGTH)}
+          placeholderTextColor={theme.colors.border}
+          keyboardType="number-pad"
+          textContentType="oneTimeCode"
+          autoComplete="one-time-code"
+          maxLength={PasswordlessAuthService.CODE_LENGTH}
+          editable={!verifying}
+          autoFocus
+        />
+        {renderError()}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, { backgroundColor: theme.colors.primary, opacity: verifying ? 0.7 : 1 }]}
+        onPress={() => handleVerifyCode()}
+        disabled={verifying}
+      >
+        <Text style={styles.primaryButtonText}>
+          {verifying ? t('verifyingCode') : t('signIn')}
+        </Text>
+      </TouchableOpacity>
+
+      <View style={styles.linksRow}>
+        <TouchableOpacity
+          style={styles.backContainer}
+          onPress={() => {
+            setCurrentStep('email');
+            setError('');
+          }}
+          disabled={verifying}
+        >
+          <ArrowLeft size={16} color={theme.colors.textSecondary} />
+          <Text style={[styles.backText, { color: theme.colors.textSecondary }]}>
+            {t('useAnotherEmail')}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.backContainer}
+          onPress={handleResend}
+          disabled={resendIn > 0 || sending || verifying}
+        >
+          <Text style={[styles.backText, { color: resendIn > 0 ? theme.colors.textSecondary : theme.colors.primary }]}>
+            {resendIn > 0
+              ? t('resendCodeIn').replace('{seconds}', String(resendIn))
+              : sending ? t('sending') : t('resendEmail')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>
+        {t('magicLinkHint')}
+      </Text>
+    </Animated.View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="none"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalContainer}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={styles.overlay}
+          onTouchEnd={handleClose}
+        />
+
+        <Animated.View
+          entering={SlideInDown.springify().damping(15)}
+          exiting={SlideOutDown.duration(200)}
+          style={[styles.modalContent, { backgroundColor: theme.colors.card }]}
+        >
+          {currentStep === 'email' ? renderEmailStep() : renderCodeStep()}
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+    zIndex: 1000,
+  },
+  stepContainer: {
+    padding: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  titleSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginLeft: 12,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  inputContainer: {
+    marginBottom: 24,
+  },
+  inputWrapper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 16,
+    paddingHorizontal: 12,
+    fontWeight: '500',
+  },
+  codeInput: {
+    borderWidth: 2,
+    borderRadius: 16,
+    paddingVertical: 16,
+    fontSize: 28,
+    fontWeight: '700',
+    letterSpacing: 12,
+    textAlign: 'center',
+  },
+  errorContainer: {
+    marginTop: 8,
+    paddingHorizontal: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  primaryButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  linksRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  backContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+  },
+  backText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -4,6 +4,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { Calendar, CircleCheck, Circle, Zap, Clock } from 'lucide-react-native';
 import { Card } from '@/components/ui/Card';
+import { LocalDate } from '@/utils/LocalDate';
 import Animated, { 
   useSharedValue, 
   useAnimatedStyle, 
@@ -17,6 +18,8 @@ interface DailyCheckCardProps {
   canCheckIn: boolean;
   capsules?: number;
   time?: string;
+  dosesTaken?: number;
+  dosesPerDay?: number;
   streak: number;
   loading?: boolean;
 }
@@ -27,6 +30,8 @@ export const DailyCheckCard: React.FC<DailyCheckCardProps> = ({
   canCheckIn,
   capsules,
   time,
+  dosesTaken = 0,
+  dosesPerDay = 1,
   streak,
   loading = false,
 }) => {
@@ -51,11 +56,7 @@ export const DailyCheckCard: React.FC<DailyCheckCardProps> = ({
 
     if (isCompleted) {
       console.log(`🔒 [DailyCheckCard] Already completed, showing alert`);
-      const now = new Date();
-      const tomorrow = new Date(now);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(0, 0, 0, 0);
-      const timeUntilMidnight = tomorrow.getTime() - now.getTime();
+      const timeUntilMidnight = LocalDate.msUntilMidnight();
       const hoursUntilMidnight = Math.ceil(timeUntilMidnight / (1000 * 60 * 60));
       
       Alert.alert(
@@ -99,6 +100,11 @@ export const DailyCheckCard: React.FC<DailyCheckCardProps> = ({
         return t('alreadyCompletedToday');
       case 'available':
       default:
+        if (dosesPerDay > 1) {
+          return t('logDoseOf')
+            .replace('{current}', String(dosesTaken + 1))
+            .replace('{total}', String(dosesPerDay));
+        }
         return t('markAsCompleted');
     }
   };
@@ -113,15 +119,16 @@ export const DailyCheckCard: React.FC<DailyCheckCardProps> = ({
         const completedTime = time || '--:--';
         return `${capsules || 2} ${t('capsules')} ${t('at')} ${completedTime}`;
       case 'blocked':
-        const now = new Date();
-        const midnight = new Date(now);
-        midnight.setDate(midnight.getDate() + 1);
-        midnight.setHours(0, 0, 0, 0);
-        const timeLeft = midnight.getTime() - now.getTime();
+        const timeLeft = LocalDate.msUntilMidnight();
         const hoursLeft = Math.ceil(timeLeft / (1000 * 60 * 60));
         return `Next check-in in ${hoursLeft}h (at midnight)`;
       case 'available':
       default:
+        if (dosesTaken > 0) {
+          return t('dosesTakenToday')
+            .replace('{taken}', String(dosesTaken))
+            .replace('{total}', String(dosesPerDay));
+        }
         return t('tapToRegister');
     }
   };
@@ -2,17 +2,19 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useFirebaseRecords } from '@/contexts/FirebaseRecordsContext';
+import { useDailyReset } from '@/hooks/useDailyReset';
 import { Card } from '@/components/ui/Card';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Target, TrendingUp, Calendar, Award } from 'lucide-react-native';
 import Animated, { BounceIn } from 'react-native-reanimated';
+import { LocalDate } from '@/utils/LocalDate';
 
 interface ProgressCardProps {
   progress: number;
   completedDays: number;
   totalDays: number;
   title?: string;
-  records?: any[];
 }
 
 export const ProgressCard: React.FC<ProgressCardProps> = ({
@@ -20,35 +22,30 @@ export const ProgressCard: React.FC<ProgressCardProps> = ({
   completedDays,
   totalDays,
   title,
-  records = [],
 }) => {
   const { theme } = useTheme();
   const { t } = useLanguage();
+  const { records, selectByMonth } = useFirebaseRecords();
+  // Muda à meia-noite e com o fuso, para a virada do mês trocar o mês exibido
+  const { currentDate } = useDailyReset();
   const cardTitle = title || t('monthlyProgress');
 
   // Recalcular progresso baseado nos records atuais em tempo real
   const actualProgress = React.useMemo(() => {
-    // Calcular progresso do mês atual apenas
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = now.getMonth();
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    const totalDaysInMonth = lastDay.getDate();
+    // Calcular progresso do mês atual apenas (mês do fuso do usuário)
+    const { year, month } = LocalDate.monthOf(currentDate);
+    const totalDaysInMonth = LocalDate.daysInMonth(year, month);
     
-    const currentMonthRecords = records.filter((r: any) => {
-      const recordDate = new Date(r.date);
-      return recordDate >= firstDay && recordDate <= lastDay;
-    });
+    const currentMonthRecords = selectByMonth(year, month);
     
-    const actualCompletedDays = currentMonthRecords.filter((r: any) => r.completed).length;
+    const actualCompletedDays = currentMonthRecords.filter(r => r.completed).length;
     const actualProgress = (actualCompletedDays / totalDaysInMonth) * 100;
     
     return {
       progress: actualProgress,
       completedDays: actualCompletedDays,
     };
-  }, [records, progress, JSON.stringify(records)]);
+  }, [records, progress, currentDate]);
 
   const getProgressColor = () => {
     const currentProgress = actualProgress.progress || progress;
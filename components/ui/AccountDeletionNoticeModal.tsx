@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Pressable, ActivityIndicator } from 'react-native';
+import { X, Trash2 } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { AccountDeletion } from '@/types/database';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown
+} from 'react-native-reanimated';
+
+interface AccountDeletionNoticeModalProps {
+  deletion: AccountDeletion | null;
+  onKeepAccount: () => Promise<void>;
+  onSignOut: () => void;
+}
+
+export const AccountDeletionNoticeModal: React.FC<AccountDeletionNoticeModalProps> = ({
+  deletion,
+  onKeepAccount,
+  onSignOut,
+}) => {
+  const { theme } = useTheme();
+  const { t, language } = useLanguage();
+  const [cancelling, setCancelling] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [hidden, setHidden] = useState(false);
+
+  if (!deletion || hidden) return null;
+
+  const purgeDate = new Date(deletion.purge_after).toLocaleDateString(language === 'pt' ? 'pt-BR' : 'en-US', {
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric',
+  });
+
+  const handleKeepAccount = async () => {
+    setCancelling(true);
+    setFailed(false);
+    try {
+      await onKeepAccount();
+    } catch (error) {
+      console.error('❌ [AccountDeletionNoticeModal] Could not cancel deletion:', error);
+      setFailed(true);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  // Fechar mantém o agendamento; o aviso volta na próxima abertura do app
+  const handleClose = () => {
+    if (!cancelling) setHidden(true);
+  };
+
+  return (
+    <Modal
+      visible
+      transparent
+      animationType="none"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalContainer}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={styles.overlay}
+        >
+          <Pressable style={styles.overlayPressable} onPress={handleClose} />
+        </Animated.View>
+
+        <Animated.View
+          entering={SlideInDown.springify().damping(15)}
+          exiting={SlideOutDown.duration(200)}
+          style={[styles.modalContent, { backgroundColor: theme.colors.card }]}
+        >
+          {/* Header */}
+          <View style={styles.modalHeader}>
+            <View style={styles.titleSection}>
+              <Trash2 size={24} color={theme.colors.error} />
+              <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+                {t('deleteAccountScheduled')}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: theme.colors.background }]}
+              onPress={handleClose}
+              disabled={cancelling}
+            >
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: theme.colors.border }]} />
+
+          {/* Content */}
+          <View style={styles.modalBody}>
+            <Text style={[styles.modalDescription, { color: theme.colors.text }]}>
+              {t('deleteAccountPendingDescription').replace('{date}', purgeDate)}
+            </Text>
+            {failed && (
+              <Text style={[styles.errorText, { color: theme.colors.error }]}>
+                {t('cancelDeletionFailed')}
+              </Text>
+            )}
+          </View>
+
+          {/* Footer */}
+          <View style={styles.modalFooter}>
+            <View style={styles.compactButtonContainer}>
+              <TouchableOpacity
+                style={[styles.compactSecondaryButton, {
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border
+                }]}
+                onPress={onSignOut}
+                disabled={cancelling}
+              >
+                <Text style={[styles.compactSecondaryButtonText, { color: theme.colors.text }]}>
+                  {t('logout')}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.compactPrimaryButton, { backgroundColor: theme.colors.primary, opacity: cancelling ? 0.7 : 1 }]}
+                onPress={handleKeepAccount}
+                disabled={cancelling}
+              >
+                {cancelling ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.compactPrimaryButtonText}>
+                    {failed ? t('tryAgain') : t('keepMyAccount')}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+    zIndex: 1000,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 24,
+    paddingBottom: 16,
+  },
+  titleSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginLeft: 12,
+    flexShrink: 1,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  divider: {
+    height: 1,
+    marginHorizontal: 24,
+  },
+  modalBody: {
+    padding: 24,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  modalFooter: {
+    padding: 24,
+    paddingTop: 16,
+  },
+  compactButtonContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  compactPrimaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  compactPrimaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  compactSecondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  compactSecondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Pressable, TextInput, ActivityIndicator } from 'react-native';
+import { X, Mail, Lock } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { PasswordRecoveryService } from '@/services/PasswordRecoveryService';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown
+} from 'react-native-reanimated';
+
+export type AccountSecurityMode = 'email' | 'password';
+
+interface AccountSecurityModalProps {
+  visible: boolean;
+  mode: AccountSecurityMode;
+  currentEmail: string;
+  // Recebe a senha atual e o novo email ou a nova senha; erros ficam no modal
+  onSubmit: (currentPassword: string, value: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const AccountSecurityModal: React.FC<AccountSecurityModalProps> = ({
+  visible,
+  mode,
+  currentEmail,
+  onSubmit,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const [value, setValue] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setValue('');
+      setConfirmation('');
+      setCurrentPassword('');
+      setError('');
+    }
+  }, [visible]);
+
+  const isEmail = mode === 'email';
+
+  const validate = (): string | null => {
+    if (isEmail) {
+      if (!value.trim()) return 'emailRequired';
+      if (!EMAIL_PATTERN.test(value.trim())) return 'emailInvalid';
+      if (value.trim().toLowerCase() === currentEmail.toLowerCase()) return 'newEmailSameAsCurrent';
+    } else {
+      if (!value) return 'passwordRequired';
+      const validation = PasswordRecoveryService.validatePasswordStrength(value);
+      if (!validation.isValid) return validation.errors[0];
+      if (value !== confirmation) return 'passwordsDoNotMatch';
+    }
+    if (!currentPassword) return 'currentPasswordRequired';
+    return null;
+  };
+
+  // Chave de tradução para o erro devolvido pelo Supabase
+  const errorKey = (error: any): string => {
+    const message = error?.message?.toLowerCase() || '';
+
+    if (message.includes('invalid login credentials')) return 'currentPasswordWrong';
+    if (message.includes('already been registered') || message.includes('already registered')) return 'emailAlreadyExists';
+    if (message.includes('should be different')) return 'newPasswordSameAsCurrent';
+    if (error?.status === 429 || message.includes('rate limit')) return 'tooManyRequests';
+    if (message.includes('network') || message.includes('fetch')) return 'networkError';
+    return isEmail ? 'emailChangeFailed' : 'passwordUpdateFailed';
+  };
+
+  const handleSubmit = async () => {
+    const invalid = validate();
+    if (invalid) {
+      setError(t(invalid));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      await onSubmit(currentPassword, isEmail ? value.trim() : value);
+    } catch (error) {
+      console.error('❌ [AccountSecurityModal] Update failed:', error);
+      setError(t(errorKey(error)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderInput = (
+    text: string,
+    onChange: (text: string) => void,
+    placeholder: string,
+    secure: boolean,
+    autoFocus = false
+  ) => (
+    <TextInput
+      style={[styles.input, { color: theme.colors.text, borderColor: theme.colors.border, backgroundColor: theme.colors.background }]}
+      value={text}
+      onChangeText={(next) => {
+        onChange(next);
+        setError('');
+      }}
+      placeholder={placeholder}
+      placeholderTextColor={theme.colors.textSecondary}
+      secureTextEntry={secure}
+      keyboardType={secure ? 'default' : 'email-address'}
+      autoCapitalize="none"
+      autoCorrect={false}
+      autoFocus={autoFocus}
+      editable={!saving}
+    />
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="none"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={styles.overlay}
+        >
+          <Pressable style={styles.overlayPressable} onPress={saving ? undefined : onClose} />
+        </Animated.View>
+
+        <Animated.View
+          entering={SlideInDown.springify().damping(15)}
+          exiting={SlideOutDown.duration(200)}
+          style={[styles.modalContent, { backgroundColor: theme.colors.card }]}
+        >
+          {/* Header */}
+          <View style={styles.modalHeader}>
+            <View style={styles.titleSection}>
+              {isEmail
+                ? <Mail size={24} color={theme.colors.primary} />
+                : <Lock size={24} color={theme.colors.primary} />}
+              <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+                {isEmail ? t('changeEmail') : t('changePassword')}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: theme.colors.background }]}
+              onPress={onClose}
+              disabled={saving}
+            >
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: theme.colors.border }]} />
+
+          {/* Content */}
+          <View style={styles.modalBody}>
+            <Text style={[styles.modalDescription, { color: theme.colors.textSecondary }]}>
+              {isEmail
+                ? t('changeEmailDescription').replace('{email}', currentEmail)
+                : t('changePasswordDescription')}
+            </Text>
+
+            {isEmail ? (
+              renderInput(value, setValue, t('newEmail'), false, true)
+            ) : (
+              <>
+                {renderInput(value, setValue, t('newPassword'), true, true)}
+                {renderInput(confirmation, setConfirmation, t('confirmPassword'), true)}
+              </>
+            )}
+            {renderInput(currentPassword, setCurrentPassword, t('currentPassword'), true)}
+
+            {!!error && (
+              <Text style={[styles.errorText, { color: theme.colors.error }]}>
+                {error}
+              </Text>
+            )}
+          </View>
+
+          {/* Footer */}
+          <View style={styles.modalFooter}>
+            <View style={styles.compactButtonContainer}>
+              <TouchableOpacity
+                style={[styles.compactSecondaryButton, {
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border
+                }]}
+                onPress={onClose}
+                disabled={saving}
+              >
+                <Text style={[styles.compactSecondaryButtonText, { color: theme.colors.text }]}>
+                  {t('cancel')}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.compactPrimaryButton, { backgroundColor: theme.colors.primary, opacity: saving ? 0.7 : 1 }]}
+                onPress={handleSubmit}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.compactPrimaryButtonText}>
+                    {isEmail ? t('sendConfirmation') : t('updatePassword')}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+    zIndex: 1000,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 24,
+    paddingBottom: 16,
+  },
+  titleSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginLeft: 12,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  divider: {
+    height: 1,
+    marginHorizontal: 24,
+  },
+  modalBody: {
+    padding: 24,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  input: {
+    borderWidth: 2,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  modalFooter: {
+    padding: 24,
+    paddingTop: 16,
+  },
+  compactButtonContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  compactPrimaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  compactPrimaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  compactSecondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  compactSecondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,287 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Pressable } from 'react-native';
+import { X, GitMerge } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { DailyRecordConflict, ConflictChoice } from '@/utils/RecordMerger';
+import { DailyRecord } from '@/types/database';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown
+} from 'react-native-reanimated';
+
+interface ConflictResolutionModalProps {
+  conflict: DailyRecordConflict | null;
+  onResolve: (conflictId: string, choice: ConflictChoice) => void;
+}
+
+export const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({
+  conflict,
+  onResolve,
+}) => {
+  const { theme } = useTheme();
+  const { t, language } = useLanguage();
+
+  if (!conflict) return null;
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString + 'T00:00:00');
+    return date.toLocaleDateString(language === 'pt' ? 'pt-BR' : 'en-US', {
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric',
+    });
+  };
+
+  const renderVersion = (label: string, record: Partial<DailyRecord>) => (
+    <View style={[styles.versionCard, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}>
+      <Text style={[styles.versionLabel, { color: theme.colors.textSecondary }]}>
+        {label}
+      </Text>
+      <Text style={[styles.versionValue, { color: theme.colors.text }]}>
+        {t('conflictCapsules').replace('{count}', String(record.capsules ?? 0))}
+      </Text>
+      {!!record.time && (
+        <Text style={[styles.versionDetail, { color: theme.colors.textSecondary }]}>
+          {record.time}
+        </Text>
+      )}
+      {!!record.notes && (
+        <Text style={[styles.versionDetail, { color: theme.colors.textSecondary }]} numberOfLines={3}>
+          {record.notes}
+        </Text>
+      )}
+    </View>
+  );
+
+  const handleDismiss = () => onResolve(conflict.id, 'merged');
+
+  return (
+    <Modal
+      visible={!!conflict}
+      transparent
+      animationType="none"
+      onRequestClose={handleDismiss}
+    >
+      <View style={styles.modalContainer}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={styles.overlay}
+        >
+          <Pressable style={styles.overlayPressable} onPress={handleDismiss} />
+        </Animated.View>
+
+        <Animated.View
+          entering={SlideInDown.springify().damping(15)}
+          exiting={SlideOutDown.duration(200)}
+          style={[styles.modalContent, { backgroundColor: theme.colors.card }]}
+        >
+          {/* Header */}
+          <View style={styles.modalHeader}>
+            <View style={styles.titleSection}>
+              <GitMerge size={24} color={theme.colors.primary} />
+              <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+                {t('conflictTitle')}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: theme.colors.background }]}
+              onPress={handleDismiss}
+            >
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: theme.colors.border }]} />
+
+          {/* Content */}
+          <View style={styles.modalBody}>
+            <Text style={[styles.modalDescription, { color: theme.colors.text }]}>
+              {t('conflictDescription').replace('{date}', formatDate(conflict.date))}
+            </Text>
+
+            <View style={styles.versionsRow}>
+              {renderVersion(t('conflictThisDevice'), conflict.local)}
+              {renderVersion(t('conflictOtherDevice'), conflict.remote)}
+            </View>
+          </View>
+
+          {/* Footer */}
+          <View style={styles.modalFooter}>
+            <View style={styles.compactButtonContainer}>
+              <TouchableOpacity
+                style={[styles.compactPrimaryButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => onResolve(conflict.id, 'mine')}
+              >
+                <Text style={styles.compactPrimaryButtonText}>
+                  {t('conflictKeepMine')}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.compactSecondaryButton, {
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border
+                }]}
+                onPress={() => onResolve(conflict.id, 'theirs')}
+              >
+                <Text style={[styles.compactSecondaryButtonText, { color: theme.colors.text }]}>
+                  {t('conflictKeepOther')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity style={styles.linkButton} onPress={handleDismiss}>
+              <Text style={[styles.linkButtonText, { color: theme.colors.textSecondary }]}>
+                {t('conflictKeepMerged').replace('{count}', String(conflict.merged.capsules))}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+    zIndex: 1000,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 24,
+    paddingBottom: 16,
+  },
+  titleSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginLeft: 12,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  divider: {
+    height: 1,
+    marginHorizontal: 24,
+  },
+  modalBody: {
+    padding: 24,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 16,
+    lineHeight: 24,
+    marginBottom: 16,
+  },
+  versionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  versionCard: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  versionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 6,
+  },
+  versionValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  versionDetail: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  modalFooter: {
+    padding: 24,
+    paddingTop: 16,
+  },
+  compactButtonContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  compactPrimaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  compactPrimaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  compactSecondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  compactSecondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  linkButton: {
+    paddingTop: 16,
+    alignItems: 'center',
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
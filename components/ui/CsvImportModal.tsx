@@ -0,0 +1,505 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Pressable, ScrollView, Alert } from 'react-native';
+import { X, FileInput } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { DataManager } from '@/utils/DataManager';
+import {
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvField,
+  CsvImport,
+  CsvImportPlan,
+  CsvIssueCode,
+  CsvTable,
+} from '@/utils/CsvImport';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown
+} from 'react-native-reanimated';
+
+interface CsvImportModalProps {
+  visible: boolean;
+  table: CsvTable | null;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+const PREVIEW_ISSUES_LIMIT = 8;
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  date: 'csvFieldDate',
+  capsules: 'csvFieldCapsules',
+  time: 'csvFieldTime',
+  notes: 'csvFieldNotes',
+  completed: 'csvFieldCompleted',
+};
+
+const DATE_FORMAT_LABELS: Record<CsvDateFormat, string> = {
+  iso: 'csvFormatIso',
+  dmy: 'csvFormatDmy',
+  mdy: 'csvFormatMdy',
+};
+
+const ISSUE_LABELS: Record<CsvIssueCode, string> = {
+  invalidDate: 'csvIssueInvalidDate',
+  futureDate: 'csvIssueFutureDate',
+  duplicateDate: 'csvIssueDuplicateDate',
+  invalidCapsules: 'csvIssueInvalidCapsules',
+  invalidTime: 'csvIssueInvalidTime',
+  invalidCompleted: 'csvIssueInvalidCompleted',
+};
+
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({
+  visible,
+  table,
+  onClose,
+  onImported,
+}) => {
+  const { theme } = useTheme();
+  const { t, language } = useLanguage();
+  const { user } = useFirebaseAuth();
+  const { planFor } = useSchedule();
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('iso');
+  const [ambiguousDates, setAmbiguousDates] = useState(false);
+  const [plan, setPlan] = useState<CsvImportPlan | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !table) return;
+
+    const suggested = CsvImport.suggestMapping(table.headers);
+    const detection = CsvImport.detectDateFormat(
+      suggested.date === null ? [] : table.rows.map(row => row[suggested.date!] || ''),
+      language
+    );
+    setMapping(suggested);
+    setDateFormat(detection.format);
+    setAmbiguousDates(detection.ambiguous);
+    setPlan(null);
+  }, [visible, table]);
+
+  const selectColumn = (field: CsvField, column: number | null) => {
+    if (!mapping || !table) return;
+
+    setMapping({ ...mapping, [field]: column });
+    if (field === 'date' && column !== null) {
+      const detection = CsvImport.detectDateFormat(table.rows.map(row => row[column] || ''), language);
+      setDateFormat(detection.format);
+      setAmbiguousDates(detection.ambiguous);
+    }
+  };
+
+  const checkFile = async () => {
+    if (!user || !table || !mapping) return;
+
+    setBusy(true);
+    try {
+      setPlan(await DataManager.previewCsvImport(user.id, table, mapping, dateFormat, planFor));
+    } catch (error) {
+      Alert.alert(t('error'), t('csvImportFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!user || !plan) return;
+
+    setBusy(true);
+    try {
+      const written = await DataManager.importCsvRecords(user.id, plan);
+      onImported(written);
+    } catch (error) {
+      Alert.alert(t('error'), t('csvImportFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const columnLabel = (column: number) => table?.headers[column] || t('csvColumnFallback').replace('{n}', String(column + 1));
+
+  const Chip = ({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) => (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.colors.primary : theme.colors.background,
+          borderColor: selected ? theme.colors.primary : theme.colors.border,
+        },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? '#ffffff' : theme.colors.text }]} numberOfLines={1}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const CountRow = ({ label, value, color }: { label: string; value: number; color?: string }) => (
+    <View style={styles.countRow}>
+      <Text style={[styles.countLabel, { color: theme.colors.textSecondary }]}>{label}</Text>
+      <Text style={[styles.countValue, { color: color || theme.colors.text }]}>{value}</Text>
+    </View>
+  );
+
+  const renderMapping = () => mapping && table && (
+    <>
+      <Text style={[styles.modalDescription, { color: theme.colors.textSecondary }]}>
+        {t('csvImportDescription')}
+      </Text>
+
+      {CSV_FIELDS.map(field => {
+        const column = mapping[field];
+        const sample = column === null ? '' : table.rows.find(row => row[column]?.trim())?.[column]?.trim();
+
+        return (
+          <View key={field} style={styles.fieldBlock}>
+            <Text style={[styles.fieldLabel, { color: theme.colors.text }]}>{t(FIELD_LABELS[field])}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipsScroll}>
+              {field !== 'date' && (
+                <Chip label={t('csvColumnNone')} selected={column === null} onPress={() => selectColumn(field, null)} />
+              )}
+              {table.headers.map((_, index) => (
+                <Chip key={index} label={columnLabel(index)} selected={column === index} onPress={() => selectColumn(field, index)} />
+              ))}
+            </ScrollView>
+            {sample ? (
+              <Text style={[styles.hint, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                {t('csvSample').replace('{value}', sample)}
+              </Text>
+            ) : null}
+          </View>
+        );
+      })}
+
+      <View style={styles.fieldBlock}>
+        <Text style={[styles.fieldLabel, { color: theme.colors.text }]}>{t('csvDateFormat')}</Text>
+        <View style={styles.chipsRow}>
+          {(Object.keys(DATE_FORMAT_LABELS) as CsvDateFormat[]).map(format => (
+            <Chip
+              key={format}
+              label={t(DATE_FORMAT_LABELS[format])}
+              selected={dateFormat === format}
+              onPress={() => {
+                setDateFormat(format);
+                setAmbiguousDates(false);
+              }}
+            />
+          ))}
+        </View>
+        {ambiguousDates && (
+          <Text style={[styles.hint, { color: theme.colors.warning }]}>{t('csvDateAmbiguous')}</Text>
+        )}
+      </View>
+
+      {mapping.capsules === null && (
+        <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>{t('csvNoCapsulesColumn')}</Text>
+      )}
+    </>
+  );
+
+  const renderPlan = () => plan && (
+    <>
+      <Text style={[styles.modalDescription, { color: theme.colors.textSecondary }]}>
+        {t('csvPreviewDescription')}
+      </Text>
+
+      <CountRow label={t('csvPreviewRows')} value={plan.totalRows} />
+      <CountRow label={t('csvPreviewAdded')} value={plan.added.length} color={theme.colors.success} />
+      <CountRow label={t('csvPreviewUpdated')} value={plan.updated.length} color={theme.colors.warning} />
+      <CountRow label={t('csvPreviewUnchanged')} value={plan.unchanged} />
+      {plan.skipped.length > 0 && (
+        <CountRow label={t('csvPreviewSkipped')} value={plan.skipped.length} />
+      )}
+      <CountRow
+        label={t('csvPreviewIssues')}
+        value={plan.issues.length}
+        color={plan.issues.length > 0 ? theme.colors.error : undefined}
+      />
+
+      {plan.issues.length > 0 && (
+        <View style={[styles.issuesBox, { backgroundColor: theme.colors.background }]}>
+          {plan.issues.slice(0, PREVIEW_ISSUES_LIMIT).map(issue => (
+            <Text key={`${issue.row}-${issue.code}`} style={[styles.issueText, { color: theme.colors.textSecondary }]}>
+              {t('csvIssueRow')
+                .replace('{row}', String(issue.row))
+                .replace('{problem}', t(ISSUE_LABELS[issue.code]))
+                .replace('{value}', issue.value)}
+            </Text>
+          ))}
+          {plan.issues.length > PREVIEW_ISSUES_LIMIT && (
+            <Text style={[styles.issueText, { color: theme.colors.textSecondary }]}>
+              {t('importMoreDates').replace('{count}', String(plan.issues.length - PREVIEW_ISSUES_LIMIT))}
+            </Text>
+          )}
+        </View>
+      )}
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="none"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={styles.overlay}
+        >
+          <Pressable style={styles.overlayPressable} onPress={onClose} />
+        </Animated.View>
+
+        <Animated.View
+          entering={SlideInDown.springify().damping(15)}
+          exiting={SlideOutDown.duration(200)}
+          style={[styles.modalContent, { backgroundColor: theme.colors.card }]}
+        >
+          {/* Header */}
+          <View style={styles.modalHeader}>
+            <View style={styles.titleSection}>
+              <FileInput size={24} color={theme.colors.primary} />
+              <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+                {t('csvImportTitle')}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: theme.colors.background }]}
+              onPress={onClose}
+            >
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: theme.colors.border }]} />
+
+          {/* Content */}
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            {plan ? renderPlan() : renderMapping()}
+          </ScrollView>
+
+          {/* Footer */}
+          <View style={styles.modalFooter}>
+            <View style={styles.compactButtonContainer}>
+              <TouchableOpacity
+                style={[styles.compactSecondaryButton, {
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border
+                }]}
+                onPress={plan ? () => setPlan(null) : onClose}
+                disabled={busy}
+              >
+                <Text style={[styles.compactSecondaryButtonText, { color: theme.colors.text }]}>
+                  {plan ? t('back') : t('cancel')}
+                </Text>
+              </TouchableOpacity>
+
+              {plan ? (
+                <TouchableOpacity
+                  style={[styles.compactPrimaryButton, {
+                    backgroundColor: theme.colors.success,
+                    opacity: plan.records.length > 0 && !busy ? 1 : 0.6,
+                  }]}
+                  onPress={confirmImport}
+                  disabled={plan.records.length === 0 || busy}
+                >
+                  <Text style={styles.compactPrimaryButtonText}>
+                    {busy ? t('processing') : t('csvImportConfirm').replace('{count}', String(plan.records.length))}
+                  </Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.compactPrimaryButton, {
+                    backgroundColor: theme.colors.primary,
+                    opacity: busy ? 0.6 : 1,
+                  }]}
+                  onPress={checkFile}
+                  disabled={busy}
+                >
+                  <Text style={styles.compactPrimaryButtonText}>
+                    {busy ? t('processing') : t('csvCheckFile')}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+    zIndex: 1000,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 24,
+    paddingBottom: 16,
+  },
+  titleSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginLeft: 12,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  divider: {
+    height: 1,
+    marginHorizontal: 24,
+  },
+  modalBody: {
+    flexGrow: 0,
+  },
+  modalBodyContent: {
+    padding: 24,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  fieldBlock: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chipsScroll: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 2,
+    maxWidth: 180,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: 6,
+  },
+  countRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  countLabel: {
+    fontSize: 14,
+  },
+  countValue: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  issuesBox: {
+    borderRadius: 10,
+    padding: 12,
+    marginTop: 12,
+    gap: 4,
+  },
+  issueText: {
+    fontSize: 12,
+    lineHeight: 18,
+  },
+  modalFooter: {
+    padding: 24,
+    paddingTop: 16,
+  },
+  compactButtonContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  compactPrimaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  compactPrimaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  compactSecondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  compactSecondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
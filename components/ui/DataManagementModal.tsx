@@ -1,9 +1,21 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, ScrollView } from 'react-native';
-import { Download, Upload, Trash2, Shield, Database, X } from 'lucide-react-native';
+import { Download, Upload, Trash2, Shield, Database, X, GitMerge, RefreshCw, FileSpreadsheet, FileInput, History, RotateCcw } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { DataManager } from '@/utils/DataManager';
+import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
+import { useFirebaseRecords } from '@/contexts/FirebaseRecordsContext';
+import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { SupabaseService } from '@/services/SupabaseService';
+import { SnapshotFrequency, SnapshotInfo, SnapshotService, SnapshotSettings } from '@/services/SnapshotService';
+import { DataManager, DateRange, ImportMode, ImportPreview, LocalStorageCategory, UsageReport } from '@/utils/DataManager';
+import { PassphraseModal } from '@/components/ui/PassphraseModal';
+import { DateRangeModal } from '@/components/ui/DateRangeModal';
+import { CsvImportModal } from '@/components/ui/CsvImportModal';
+import { BackupFile, BackupReport } from '@/types/backup';
+import { CsvTable } from '@/utils/CsvImport';
+import { IntegrityIssue, IntegrityIssueKind, IntegrityReport } from '@/utils/IntegrityChecker';
 import Animated, { FadeIn, FadeOut, SlideInDown, SlideOutDown } from 'react-native-reanimated';
 
 interface DataManagementModalProps {
@@ -16,35 +28,174 @@ export const DataManagementModal: React.FC<DataManagementModalProps> = ({
   onClose,
 }) => {
   const { theme } = useTheme();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
+  const { user, setUserProfile } = useFirebaseAuth();
+  const { records, refreshRecords } = useFirebaseRecords();
+  const { refreshSettings } = useFirebaseSettings();
+  const { planFor } = useSchedule();
   const [loading, setLoading] = useState(false);
-  const [storageStats, setStorageStats] = useState<any>(null);
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<BackupFile | null>(null);
+  const [importReport, setImportReport] = useState<BackupReport | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<'export' | 'import' | null>(null);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [encryptedContent, setEncryptedContent] = useState<string | null>(null);
+  const [showCsvRange, setShowCsvRange] = useState(false);
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [snapshotSettings, setSnapshotSettings] = useState<SnapshotSettings>(SnapshotService.DEFAULT_SETTINGS);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+
+  const PREVIEW_DATES_LIMIT = 8;
+
+  const INTEGRITY_TEXTS: Record<IntegrityIssueKind, { problem: string; fix: string }> = {
+    invalidDate: { problem: 'integrityInvalidDate', fix: 'integrityFixInvalidDate' },
+    duplicateDate: { problem: 'integrityDuplicateDate', fix: 'integrityFixDuplicateDate' },
+    futureDate: { problem: 'integrityFutureDate', fix: 'integrityFixDelete' },
+    negativeCapsules: { problem: 'integrityNegativeCapsules', fix: 'integrityFixCapsules' },
+    absurdCapsules: { problem: 'integrityAbsurdCapsules', fix: 'integrityFixCapsules' },
+    malformedTime: { problem: 'integrityMalformedTime', fix: 'integrityFixTime' },
+    completedMismatch: { problem: 'integrityCompletedMismatch', fix: 'integrityFixCompleted' },
+    orphanedImage: { problem: 'integrityOrphanedImage', fix: 'integrityFixImage' },
+  };
 
   React.useEffect(() => {
     if (visible) {
-      loadStorageStats();
+      loadUsage();
+      loadSnapshots();
+    } else {
+      cancelImport();
+      setIntegrityReport(null);
     }
   }, [visible]);
 
-  const loadStorageStats = async () => {
+  const loadUsage = async () => {
+    if (!user) return;
+
     try {
-      const stats = await DataManager.getStorageStats();
-      setStorageStats(stats);
+      setUsage(await DataManager.getUsageReport(user.id));
     } catch (error) {
-      console.error('Error loading storage stats:', error);
+      console.error('Error loading usage report:', error);
+    }
+  };
+
+  const handleClearCaches = () => {
+    Alert.alert(
+      t('clearCachesTitle'),
+      t('clearCachesMessage'),
+      [
+        { text: t('cancel'), style: 'cancel' },
+        {
+          text: t('clearCachesConfirm'),
+          onPress: async () => {
+            try {
+              setLoading(true);
+              const freed = await DataManager.clearLocalCaches();
+              await loadUsage();
+              Alert.alert(t('clearCachesTitle'), t('clearCachesDone').replace('{size}', formatBytes(freed)));
+            } catch (error) {
+              Alert.alert(t('error'), t('clearCachesFailed'));
+            } finally {
+              setLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const loadSnapshots = async () => {
+    if (!user || !SnapshotService.isSupported()) return;
+
+    try {
+      const [settings, list] = await Promise.all([SnapshotService.getSettings(), SnapshotService.list(user.id)]);
+      setSnapshotSettings(settings);
+      setSnapshots(list);
+    } catch (error) {
+      console.error('Error loading snapshots:', error);
+    }
+  };
+
+  const updateSnapshotSettings = async (changes: Partial<SnapshotSettings>) => {
+    if (!user) return;
+
+    const settings = { ...snapshotSettings, ...changes };
+    setSnapshotSettings(settings);
+    await SnapshotService.saveSettings(user.id, settings);
+    setSnapshots(await SnapshotService.list(user.id));
+  };
+
+  const createSnapshot = async () => {
+    try {
+      if (!user) throw new Error('No authenticated user');
+      setLoading(true);
+
+      await SnapshotService.create(user.id);
+      setSnapshots(await SnapshotService.list(user.id));
+    } catch (error) {
+      Alert.alert(t('error'), t('snapshotCreateFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreSnapshot = async (snapshot: SnapshotInfo) => {
+    try {
+      setLoading(true);
+      await loadBackup(await SnapshotService.read(snapshot));
+    } catch (error) {
+      cancelImport();
+      Alert.alert(t('error'), t('snapshotRestoreFailed'));
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleExportData = async () => {
+  const deleteSnapshot = (snapshot: SnapshotInfo) => {
+    Alert.alert(
+      t('snapshotDeleteTitle'),
+      t('snapshotDeleteMessage'),
+      [
+        { text: t('cancel'), style: 'cancel' },
+        {
+          text: t('delete'),
+          style: 'destructive',
+          onPress: async () => {
+            if (!user) return;
+            await SnapshotService.remove(snapshot);
+            setSnapshots(await SnapshotService.list(user.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const handleExportData = () => {
+    Alert.alert(
+      t('exportBackupTitle'),
+      t('exportBackupMessage'),
+      [
+        { text: t('cancel'), style: 'cancel' },
+        { text: t('exportPlain'), onPress: () => exportBackup() },
+        { text: t('exportEncrypted'), onPress: () => openPassphrasePrompt('export') },
+      ]
+    );
+  };
+
+  const exportBackup = async (passphrase?: string) => {
     try {
+      if (!user) throw new Error('No authenticated user');
       setLoading(true);
-      await DataManager.shareBackup();
+      await DataManager.shareBackup(user.id, passphrase);
+      setPassphrasePrompt(null);
       Alert.alert(
         'Success',
         'Backup file created and shared successfully!',
         [{ text: 'OK' }]
       );
     } catch (error) {
+      setPassphrasePrompt(null);
       Alert.alert(
         'Error',
         'Failed to create backup. Please try again.',
@@ -55,39 +206,202 @@ export const DataManagementModal: React.FC<DataManagementModalProps> = ({
     }
   };
 
+  const exportCsv = async (range: DateRange) => {
+    try {
+      if (!user) throw new Error('No authenticated user');
+      setLoading(true);
+
+      const exported = await DataManager.shareRecordsCsv(user.id, range, {
+        date: t('csvDate'),
+        time: t('csvTime'),
+        capsules: t('csvCapsules'),
+        completed: t('csvCompleted'),
+        notes: t('csvNotes'),
+        yes: t('yes'),
+        no: t('no'),
+      }, language);
+
+      setShowCsvRange(false);
+      if (exported === 0) {
+        Alert.alert(t('exportCsv'), t('csvNoRecords'));
+      }
+    } catch (error) {
+      Alert.alert(t('error'), t('csvExportFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImportCsv = async () => {
+    try {
+      setLoading(true);
+
+      const table = await DataManager.selectCsvFile();
+      if (!table) return;
+
+      if (table.rows.length === 0) {
+        Alert.alert(t('csvImportTitle'), t('csvEmptyFile'));
+        return;
+      }
+      setCsvTable(table);
+    } catch (error) {
+      Alert.alert(t('error'), t('csvReadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const finishCsvImport = async (count: number) => {
+    setCsvTable(null);
+    await refreshRecords();
+    await loadUsage();
+    Alert.alert(t('csvImportTitle'), t('csvImportDone').replace('{count}', String(count)));
+  };
+
   const handleImportData = async () => {
+    try {
+      if (!user) throw new Error('No authenticated user');
+      setLoading(true);
+
+      const content = await DataManager.selectBackupFile();
+      if (!content) return;
+
+      // Backups cifrados esperam a senha antes de serem lidos
+      if (DataManager.isEncryptedBackup(content)) {
+        setEncryptedContent(content);
+        openPassphrasePrompt('import');
+        return;
+      }
+
+      await loadBackup(content);
+    } catch (error) {
+      cancelImport();
+      Alert.alert(
+        'Error',
+        'Failed to import data. Please check the file format.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadBackup = async (content: string, passphrase?: string) => {
+    if (!user) return;
+
+    const parsed = await DataManager.parseBackup(content, passphrase);
+    if (!parsed.data) {
+      Alert.alert(
+        t('importRejectedTitle'),
+        `${t('importRejectedMessage')}\n\n${parsed.report.errors.map(error => `• ${error}`).join('\n')}`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    setPendingImport(parsed.data);
+    setImportReport(parsed.report);
+    setImportPreview(await DataManager.previewImport(user.id, parsed.data, 'merge'));
+  };
+
+  const unlockBackup = async (passphrase: string) => {
+    if (!encryptedContent) return;
+
+    try {
+      setLoading(true);
+      await loadBackup(encryptedContent, passphrase);
+      setEncryptedContent(null);
+      setPassphrasePrompt(null);
+    } catch (error) {
+      setPassphraseError(t('wrongPassphrase'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openPassphrasePrompt = (purpose: 'export' | 'import') => {
+    setPassphraseError(null);
+    setPassphrasePrompt(purpose);
+  };
+
+  const closePassphrasePrompt = () => {
+    setPassphrasePrompt(null);
+    setEncryptedContent(null);
+  };
+
+  const changeImportMode = async (mode: ImportMode) => {
+    if (!user || !pendingImport || importPreview?.mode === mode) return;
+
+    try {
+      setLoading(true);
+      setImportPreview(await DataManager.previewImport(user.id, pendingImport, mode));
+    } catch (error) {
+      console.error('Error previewing import:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cancelImport = () => {
+    setPendingImport(null);
+    setImportReport(null);
+    setImportPreview(null);
+  };
+
+  const applyImport = async () => {
+    if (!user || !pendingImport || !importPreview) return;
+
+    try {
+      setLoading(true);
+      const result = await DataManager.importUserData(user.id, pendingImport, importPreview.mode);
+
+      // Recarrega o que a importação alterou na nuvem
+      await Promise.all([refreshRecords(), refreshSettings()]);
+      setUserProfile(await SupabaseService.getUserProfile(user.id));
+
+      cancelImport();
+      Alert.alert(
+        t('success'),
+        t('importSuccess')
+          .replace('{added}', String(result.records.added.length))
+          .replace('{updated}', String(result.records.updated.length))
+          .replace('{removed}', String(result.records.removed.length)),
+        [{ text: 'OK', onPress: onClose }]
+      );
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        'Failed to import data. Please check the file format.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmImport = () => {
+    if (importPreview?.mode !== 'replace') {
+      applyImport();
+      return;
+    }
+
     Alert.alert(
-      'Import Data',
-      'This will replace all current data. Are you sure?',
+      t('importModeReplace'),
+      t('importReplaceConfirm').replace('{count}', String(importPreview.records.removed.length)),
       [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Import',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              setLoading(true);
-              await DataManager.selectAndImportBackup();
-              Alert.alert(
-                'Success',
-                'Data imported successfully! Please restart the app.',
-                [{ text: 'OK', onPress: onClose }]
-              );
-            } catch (error) {
-              Alert.alert(
-                'Error',
-                'Failed to import data. Please check the file format.',
-                [{ text: 'OK' }]
-              );
-            } finally {
-              setLoading(false);
-            }
-          },
-        },
+        { text: t('cancel'), style: 'cancel' },
+        { text: t('confirmImport'), style: 'destructive', onPress: applyImport },
       ]
     );
   };
 
+  const formatDateList = (dates: string[]) => {
+    const shown = dates.slice(0, PREVIEW_DATES_LIMIT).join(', ');
+    return dates.length > PREVIEW_DATES_LIMIT
+      ? `${shown} ${t('importMoreDates').replace('{count}', String(dates.length - PREVIEW_DATES_LIMIT))}`
+      : shown;
+  };
+
   const handleClearAllData = async () => {
     Alert.alert(
       'Clear All Data',
@@ -123,24 +437,46 @@ export const DataManagementModal: React.FC<DataManagementModalProps> = ({
 
   const handleValidateData = async () => {
     try {
+      if (!user) throw new Error('No authenticated user');
       setLoading(true);
-      const isValid = await DataManager.validateDataIntegrity();
-      Alert.alert(
-        'Data Validation',
-        isValid ? 'All data is valid and intact!' : 'Some data corruption detected. Consider creating a backup.',
-        [{ text: 'OK' }]
-      );
+      setIntegrityReport(await DataManager.validateDataIntegrity(user.id, planFor));
     } catch (error) {
-      Alert.alert(
-        'Error',
-        'Failed to validate data.',
-        [{ text: 'OK' }]
-      );
+      Alert.alert(t('error'), t('integrityScanFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const repairIssues = async (issues: IntegrityIssue[]) => {
+    try {
+      if (!user) throw new Error('No authenticated user');
+      setLoading(true);
+
+      const repaired = await DataManager.repairIntegrityIssues(user.id, issues);
+      await refreshRecords();
+      setIntegrityReport(await DataManager.validateDataIntegrity(user.id, planFor));
+
+      if (repaired < issues.length) {
+        Alert.alert(t('error'), t('integrityRepairIncomplete'));
+      }
+    } catch (error) {
+      Alert.alert(t('error'), t('integrityScanFailed'));
     } finally {
       setLoading(false);
     }
   };
 
+  const confirmRepairAll = (issues: IntegrityIssue[]) => {
+    Alert.alert(
+      t('integrityFixAll'),
+      t('integrityFixAllMessage').replace('{count}', String(issues.length)),
+      [
+        { text: t('cancel'), style: 'cancel' },
+        { text: t('integrityFixAll'), style: 'destructive', onPress: () => repairIssues(issues) },
+      ]
+    );
+  };
+
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -184,6 +520,452 @@ export const DataManagementModal: React.FC<DataManagementModalProps> = ({
     </TouchableOpacity>
   );
 
+  const renderUsage = (report: UsageReport) => {
+    const categoryLabels: Record<LocalStorageCategory, string> = {
+      pending: t('usagePending'),
+      preferences: t('usagePreferences'),
+      session: t('usageSession'),
+      legacy: t('usageLegacy'),
+      other: t('usageOther'),
+    };
+    const UsageRow = ({ label, value }: { label: string; value: string }) => (
+      <View style={styles.statsRow}>
+        <Text style={[styles.statsLabel, { color: theme.colors.textSecondary }]}>{label}</Text>
+        <Text style={[styles.statsValue, { color: theme.colors.primary }]}>{value}</Text>
+      </View>
+    );
+
+    return (
+      <View style={[styles.statsCard, { backgroundColor: theme.colors.background }]}>
+        <Text style={[styles.statsTitle, { color: theme.colors.text }]}>
+          {t('usageDevice')}
+        </Text>
+        <UsageRow label={t('usageTotal')} value={formatBytes(report.local.totalBytes)} />
+        {report.local.storage.map(item => (
+          <UsageRow key={item.category} label={categoryLabels[item.category]} value={formatBytes(item.bytes)} />
+        ))}
+        <UsageRow label={t('usageSnapshots').replace('{count}', String(report.local.snapshotFiles))} value={formatBytes(report.local.snapshotBytes)} />
+        <UsageRow label={t('usageCaches').replace('{count}', String(report.local.cacheFiles))} value={formatBytes(report.local.cacheBytes)} />
+
+        <TouchableOpacity
+          style={[styles.snapshotButton, {
+            backgroundColor: theme.colors.card,
+            borderWidth: 2,
+            borderColor: theme.colors.border,
+            opacity: loading || report.local.cacheFiles === 0 ? 0.6 : 1,
+          }]}
+          onPress={handleClearCaches}
+          disabled={loading || report.local.cacheFiles === 0}
+        >
+          <Text style={[styles.previewButtonText, { color: theme.colors.text }]}>{t('clearCachesTitle')}</Text>
+        </TouchableOpacity>
+
+        <Text style={[styles.statsTitle, { color: theme.colors.text, marginTop: 20 }]}>
+          {t('usageCloud')}
+        </Text>
+        {report.cloud ? (
+          <>
+            {report.cloud.recordsPerYear.map(year => (
+              <UsageRow
+                key={year.year}
+                label={year.year}
+                value={t('usageYear')
+                  .replace('{records}', String(year.records))
+                  .replace('{doses}', String(year.doses))}
+              />
+            ))}
+            <UsageRow
+              label={t('usageRecordsTotal')}
+              value={t('usageYear')
+                .replace('{records}', String(report.cloud.totalRecords))
+                .replace('{doses}', String(report.cloud.totalDoses))}
+            />
+            <UsageRow
+              label={t('usageProfileImages').replace('{count}', String(report.cloud.profileImageCount))}
+              value={formatBytes(report.cloud.profileImageBytes)}
+            />
+          </>
+        ) : (
+          <Text style={[styles.infoText, { color: theme.colors.textSecondary }]}>
+            {t('usageCloudUnavailable')}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderOverview = () => (
+    <>
+      {/* Storage Stats */}
+      {usage && renderUsage(usage)}
+
+      {/* Data Options */}
+      <View style={styles.optionsContainer}>
+        <DataOption
+          icon={Download}
+          title="Export Data"
+          subtitle="Create backup file and share"
+          onPress={handleExportData}
+          color={theme.colors.success}
+          disabled={loading}
+        />
+
+        <DataOption
+          icon={FileSpreadsheet}
+          title={t('exportCsv')}
+          subtitle={t('exportCsvDescription')}
+          onPress={() => setShowCsvRange(true)}
+          color={theme.colors.primary}
+          disabled={loading}
+        />
+
+        <DataOption
+          icon={FileInput}
+          title={t('csvImportTitle')}
+          subtitle={t('csvImportSubtitle')}
+          onPress={handleImportCsv}
+          color={theme.colors.primary}
+          disabled={loading}
+        />
+
+        <DataOption
+          icon={Upload}
+          title="Import Data"
+          subtitle="Restore from backup file"
+          onPress={handleImportData}
+          color={theme.colors.warning}
+          disabled={loading}
+        />
+
+        <DataOption
+          icon={Shield}
+          title={t('integrityTitle')}
+          subtitle={t('integritySubtitle')}
+          onPress={handleValidateData}
+          color="#8B5CF6"
+          disabled={loading}
+        />
+
+        <DataOption
+          icon={Trash2}
+          title="Clear All Data"
+          subtitle="Permanently delete everything"
+          onPress={handleClearAllData}
+          color={theme.colors.error}
+          disabled={loading}
+        />
+      </View>
+
+      {/* Automatic backups */}
+      {SnapshotService.isSupported() && renderSnapshots()}
+
+      {/* Info Section */}
+      <View style={[styles.infoSection, { backgroundColor: theme.colors.background }]}>
+        <Text style={[styles.infoTitle, { color: theme.colors.text }]}>
+          {t('cloudBackupTitle')}
+        </Text>
+        <Text style={[styles.infoText, { color: theme.colors.textSecondary }]}>
+          {t('cloudBackupDescription')}
+        </Text>
+      </View>
+    </>
+  );
+
+  const renderSnapshots = () => {
+    const frequencies: { value: SnapshotFrequency; label: string }[] = [
+      { value: 'off', label: t('snapshotFrequencyOff') },
+      { value: 'daily', label: t('snapshotFrequencyDaily') },
+      { value: 'weekly', label: t('snapshotFrequencyWeekly') },
+    ];
+    const locale = language === 'pt' ? 'pt-BR' : 'en-US';
+
+    const Chip = ({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) => (
+      <TouchableOpacity
+        style={[
+          styles.snapshotChip,
+          {
+            backgroundColor: selected ? theme.colors.primary : theme.colors.card,
+            borderColor: selected ? theme.colors.primary : theme.colors.border,
+          },
+        ]}
+        onPress={onPress}
+        disabled={loading}
+      >
+        <Text style={[styles.snapshotChipText, { color: selected ? '#ffffff' : theme.colors.text }]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+
+    return (
+      <View style={[styles.statsCard, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.snapshotHeader}>
+          <History size={20} color={theme.colors.primary} />
+          <Text style={[styles.snapshotTitle, { color: theme.colors.text }]}>
+            {t('snapshotsTitle')}
+          </Text>
+        </View>
+        <Text style={[styles.infoText, { color: theme.colors.textSecondary }]}>
+          {t('snapshotsDescription')}
+        </Text>
+
+        <Text style={[styles.snapshotLabel, { color: theme.colors.textSecondary }]}>{t('snapshotFrequency')}</Text>
+        <View style={styles.snapshotChips}>
+          {frequencies.map(option => (
+            <Chip
+              key={option.value}
+              label={option.label}
+              selected={snapshotSettings.frequency === option.value}
+              onPress={() => updateSnapshotSettings({ frequency: option.value })}
+            />
+          ))}
+        </View>
+
+        <Text style={[styles.snapshotLabel, { color: theme.colors.textSecondary }]}>{t('snapshotRetention')}</Text>
+        <View style={styles.snapshotChips}>
+          {SnapshotService.RETENTION_OPTIONS.map(count => (
+            <Chip
+              key={count}
+              label={String(count)}
+              selected={snapshotSettings.retention === count}
+              onPress={() => updateSnapshotSettings({ retention: count })}
+            />
+          ))}
+        </View>
+
+        {snapshots.length === 0 ? (
+          <Text style={[styles.previewDates, { color: theme.colors.textSecondary }]}>
+            {t('snapshotsEmpty')}
+          </Text>
+        ) : (
+          snapshots.map(snapshot => (
+            <View key={snapshot.fileName} style={[styles.snapshotRow, { borderTopColor: theme.colors.border }]}>
+              <View style={styles.snapshotInfo}>
+                <Text style={[styles.statsValue, { color: theme.colors.text }]}>
+                  {new Date(snapshot.createdAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })}
+                </Text>
+                <Text style={[styles.statsLabel, { color: theme.colors.textSecondary }]}>
+                  {formatBytes(snapshot.size)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.snapshotAction, { backgroundColor: theme.colors.warning + '20' }]}
+                onPress={() => restoreSnapshot(snapshot)}
+                disabled={loading}
+              >
+                <RotateCcw size={18} color={theme.colors.warning} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.snapshotAction, { backgroundColor: theme.colors.error + '20' }]}
+                onPress={() => deleteSnapshot(snapshot)}
+                disabled={loading}
+              >
+                <Trash2 size={18} color={theme.colors.error} />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+
+        <TouchableOpacity
+          style={[styles.snapshotButton, { backgroundColor: theme.colors.primary, opacity: loading ? 0.6 : 1 }]}
+          onPress={createSnapshot}
+          disabled={loading}
+        >
+          <Text style={styles.snapshotButtonText}>{t('snapshotCreateNow')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderIntegrityReport = (report: IntegrityReport) => (
+    <>
+      <View style={[styles.statsCard, { backgroundColor: theme.colors.background }]}>
+        <Text style={[styles.statsTitle, { color: theme.colors.text }]}>
+          {t('integrityTitle')}
+        </Text>
+        <Text style={[styles.infoText, { color: report.issues.length > 0 ? theme.colors.warning : theme.colors.success }]}>
+          {(report.issues.length > 0 ? t('integrityIssuesFound') : t('integrityNoIssues'))
+            .replace('{count}', String(report.issues.length))
+            .replace('{records}', String(report.checkedRecords))
+            .replace('{images}', String(report.checkedImages))}
+        </Text>
+
+        {report.issues.map(issue => (
+          <View key={issue.id} style={[styles.snapshotRow, { borderTopColor: theme.colors.border }]}>
+            <View style={styles.snapshotInfo}>
+              <Text style={[styles.statsValue, { color: theme.colors.text }]}>
+                {t(INTEGRITY_TEXTS[issue.kind].problem)
+                  .replace('{date}', issue.date || '')
+                  .replace('{value}', issue.value)}
+              </Text>
+              <Text style={[styles.statsLabel, { color: theme.colors.textSecondary }]}>
+                {t(INTEGRITY_TEXTS[issue.kind].fix)}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.integrityFixButton, { backgroundColor: theme.colors.primary + '20' }]}
+              onPress={() => repairIssues([issue])}
+              disabled={loading}
+            >
+              <Text style={[styles.integrityFixText, { color: theme.colors.primary }]}>
+                {t('integrityFix')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.previewButtons}>
+        <TouchableOpacity
+          style={[styles.previewSecondaryButton, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}
+          onPress={() => setIntegrityReport(null)}
+          disabled={loading}
+        >
+          <Text style={[styles.previewButtonText, { color: theme.colors.text }]}>
+            {t('back')}
+          </Text>
+        </TouchableOpacity>
+        {report.issues.length > 0 && (
+          <TouchableOpacity
+            style={[styles.previewPrimaryButton, { backgroundColor: theme.colors.primary, opacity: loading ? 0.6 : 1 }]}
+            onPress={() => confirmRepairAll(report.issues)}
+            disabled={loading}
+          >
+            <Text style={[styles.previewButtonText, { color: '#ffffff' }]}>
+              {t('integrityFixAll')}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </>
+  );
+
+  const renderImportPreview = (preview: ImportPreview) => {
+    const modes: { mode: ImportMode; icon: any; title: string; description: string }[] = [
+      { mode: 'merge', icon: GitMerge, title: t('importModeMerge'), description: t('importModeMergeDescription') },
+      { mode: 'replace', icon: RefreshCw, title: t('importModeReplace'), description: t('importModeReplaceDescription') },
+    ];
+    const rows = [
+      { label: t('importNewDays'), value: preview.records.added.length, color: theme.colors.success },
+      { label: t('importUpdatedDays'), value: preview.records.updated.length, color: theme.colors.warning },
+      { label: t('importRemovedDays'), value: preview.records.removed.length, color: theme.colors.error },
+      { label: t('importNewDoses'), value: preview.intakes.added, color: theme.colors.success },
+      { label: t('importRemovedDoses'), value: preview.intakes.removed, color: theme.colors.error },
+      { label: t('importProfileChanges'), value: preview.profileFields.length, color: theme.colors.primary },
+      { label: t('importSettingsChanges'), value: preview.settingsFields.length, color: theme.colors.primary },
+    ];
+    const hasChanges = rows.some(row => row.value > 0);
+
+    return (
+      <>
+        <View style={[styles.statsCard, { backgroundColor: theme.colors.background }]}>
+          <Text style={[styles.statsTitle, { color: theme.colors.text }]}>
+            {t('importPreviewTitle')}
+          </Text>
+          {preview.exportDate && (
+            <Text style={[styles.infoText, { color: theme.colors.textSecondary, marginBottom: 12 }]}>
+              {t('importBackupFrom').replace('{date}', new Date(preview.exportDate).toLocaleString())}
+            </Text>
+          )}
+          {importReport && importReport.steps.length > 0 && (
+            <View style={[styles.upgradeNotice, { backgroundColor: theme.colors.warning + '20' }]}>
+              <Text style={[styles.upgradeTitle, { color: theme.colors.text }]}>
+                {t('importUpgraded')
+                  .replace('{from}', importReport.fromVersion)
+                  .replace('{to}', importReport.toVersion)}
+              </Text>
+              {importReport.steps.flatMap(step => step.changes).map(change => (
+                <Text key={change} style={[styles.previewDates, { color: theme.colors.textSecondary }]}>
+                  • {change}
+                </Text>
+              ))}
+            </View>
+          )}
+          {rows.map(row => (
+            <View key={row.label} style={styles.statsRow}>
+              <Text style={[styles.statsLabel, { color: theme.colors.textSecondary }]}>
+                {row.label}
+              </Text>
+              <Text style={[styles.statsValue, { color: row.value > 0 ? row.color : theme.colors.textSecondary }]}>
+                {row.value}
+              </Text>
+            </View>
+          ))}
+          {!hasChanges && (
+            <Text style={[styles.infoText, { color: theme.colors.textSecondary }]}>
+              {t('importNothingToChange')}
+            </Text>
+          )}
+          {[
+            { label: t('importNewDays'), dates: preview.records.added },
+            { label: t('importUpdatedDays'), dates: preview.records.updated },
+            { label: t('importRemovedDays'), dates: preview.records.removed },
+          ].filter(group => group.dates.length > 0).map(group => (
+            <Text key={group.label} style={[styles.previewDates, { color: theme.colors.textSecondary }]}>
+              {group.label}: {formatDateList(group.dates)}
+            </Text>
+          ))}
+        </View>
+
+        <View style={styles.optionsContainer}>
+          {modes.map(option => {
+            const isSelected = preview.mode === option.mode;
+            return (
+              <TouchableOpacity
+                key={option.mode}
+                style={[
+                  styles.dataOption,
+                  {
+                    backgroundColor: theme.colors.card,
+                    borderWidth: 2,
+                    borderColor: isSelected ? theme.colors.primary : theme.colors.border,
+                  },
+                ]}
+                onPress={() => changeImportMode(option.mode)}
+                disabled={loading}
+              >
+                <View style={styles.dataOptionLeft}>
+                  <View style={[styles.dataOptionIcon, { backgroundColor: theme.colors.primary + '20' }]}>
+                    <option.icon size={24} color={theme.colors.primary} />
+                  </View>
+                  <View style={styles.dataOptionText}>
+                    <Text style={[styles.dataOptionTitle, { color: theme.colors.text }]}>
+                      {option.title}
+                    </Text>
+                    <Text style={[styles.dataOptionSubtitle, { color: theme.colors.textSecondary }]}>
+                      {option.description}
+                    </Text>
+                  </View>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.previewButtons}>
+          <TouchableOpacity
+            style={[styles.previewSecondaryButton, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}
+            onPress={cancelImport}
+            disabled={loading}
+          >
+            <Text style={[styles.previewButtonText, { color: theme.colors.text }]}>
+              {t('cancel')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.previewPrimaryButton, { backgroundColor: theme.colors.primary, opacity: loading || !hasChanges ? 0.6 : 1 }]}
+            onPress={confirmImport}
+            disabled={loading || !hasChanges}
+          >
+            <Text style={[styles.previewButtonText, { color: '#ffffff' }]}>
+              {t('confirmImport')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
   return (
     <Modal
       visible={visible}
@@ -221,81 +1003,11 @@ export const DataManagementModal: React.FC<DataManagementModalProps> = ({
           </View>
 
           <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
-            
-            {/* Storage Stats */}
-            {storageStats && (
-              <View style={[styles.statsCard, { backgroundColor: theme.colors.background }]}>
-                <Text style={[styles.statsTitle, { color: theme.colors.text }]}>
-                  Storage Usage
-                </Text>
-                <View style={styles.statsRow}>
-                  <Text style={[styles.statsLabel, { color: theme.colors.textSecondary }]}>
-                    Total Size:
-                  </Text>
-                  <Text style={[styles.statsValue, { color: theme.colors.primary }]}>
-                    {formatBytes(storageStats.totalSize)}
-                  </Text>
-                </View>
-                <View style={styles.statsRow}>
-                  <Text style={[styles.statsLabel, { color: theme.colors.textSecondary }]}>
-                    Items Stored:
-                  </Text>
-                  <Text style={[styles.statsValue, { color: theme.colors.primary }]}>
-                    {storageStats.itemCount}
-                  </Text>
-                </View>
-              </View>
-            )}
-
-            {/* Data Options */}
-            <View style={styles.optionsContainer}>
-              <DataOption
-                icon={Download}
-                title="Export Data"
-                subtitle="Create backup file and share"
-                onPress={handleExportData}
-                color={theme.colors.success}
-                disabled={loading}
-              />
-
-              <DataOption
-                icon={Upload}
-                title="Import Data"
-                subtitle="Restore from backup file"
-                onPress={handleImportData}
-                color={theme.colors.warning}
-                disabled={loading}
-              />
-
-              <DataOption
-                icon={Shield}
-                title="Validate Data"
-                subtitle="Check data integrity"
-                onPress={handleValidateData}
-                color="#8B5CF6"
-                disabled={loading}
-              />
-
-              <DataOption
-                icon={Trash2}
-                title="Clear All Data"
-                subtitle="Permanently delete everything"
-                onPress={handleClearAllData}
-                color={theme.colors.error}
-                disabled={loading}
-              />
-            </View>
-
-            {/* Info Section */}
-            <View style={[styles.infoSection, { backgroundColor: theme.colors.background }]}>
-              <Text style={[styles.infoTitle, { color: theme.colors.text }]}>
-                📱 Local Storage
-              </Text>
-              <Text style={[styles.infoText, { color: theme.colors.textSecondary }]}>
-                All your data is stored locally on your device for maximum privacy and security. 
-                Use the export feature to create backups that you can save to cloud storage or share between devices.
-              </Text>
-            </View>
+            {importPreview
+              ? renderImportPreview(importPreview)
+              : integrityReport
+                ? renderIntegrityReport(integrityReport)
+                : renderOverview()}
 
             {loading && (
               <View style={styles.loadingContainer}>
@@ -307,6 +1019,36 @@ export const DataManagementModal: React.FC<DataManagementModalProps> = ({
           </ScrollView>
         </Animated.View>
       </View>
+
+      <PassphraseModal
+        visible={passphrasePrompt !== null}
+        title={passphrasePrompt === 'export' ? t('encryptBackupTitle') : t('unlockBackupTitle')}
+        description={passphrasePrompt === 'export' ? t('encryptBackupDescription') : t('unlockBackupDescription')}
+        submitLabel={passphrasePrompt === 'export' ? t('exportEncrypted') : t('unlockBackup')}
+        requireConfirmation={passphrasePrompt === 'export'}
+        error={passphraseError}
+        busy={loading}
+        onSubmit={(passphrase) => passphrasePrompt === 'export' ? exportBackup(passphrase) : unlockBackup(passphrase)}
+        onClose={closePassphrasePrompt}
+      />
+
+      <DateRangeModal
+        visible={showCsvRange}
+        title={t('exportCsv')}
+        description={t('exportCsvRangeDescription')}
+        submitLabel={t('exportCsvShare')}
+        earliestDate={records.length > 0 ? records.reduce((earliest, record) => record.date < earliest ? record.date : earliest, records[0].date) : null}
+        busy={loading}
+        onSubmit={exportCsv}
+        onClose={() => setShowCsvRange(false)}
+      />
+
+      <CsvImportModal
+        visible={csvTable !== null}
+        table={csvTable}
+        onClose={() => setCsvTable(null)}
+        onImported={finishCsvImport}
+      />
     </Modal>
   );
 };
@@ -423,6 +1165,77 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 18,
   },
+  snapshotHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  snapshotTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  snapshotLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  snapshotChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 4,
+  },
+  snapshotChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 2,
+  },
+  snapshotChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  snapshotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingTop: 12,
+    marginTop: 12,
+    borderTopWidth: 1,
+  },
+  snapshotInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  snapshotAction: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  snapshotButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    marginTop: 16,
+  },
+  snapshotButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  integrityFixButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  integrityFixText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   infoSection: {
     padding: 16,
     borderRadius: 12,
@@ -437,6 +1250,42 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  previewDates: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 8,
+  },
+  upgradeNotice: {
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 12,
+  },
+  upgradeTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  previewButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 24,
+  },
+  previewPrimaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  previewSecondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 2,
+  },
+  previewButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   loadingContainer: {
     alignItems: 'center',
     paddingVertical: 16,
@@ -0,0 +1,348 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Pressable, TextInput } from 'react-native';
+import { X, CalendarRange } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { DateRange } from '@/utils/DataManager';
+import { LocalDate } from '@/utils/LocalDate';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown
+} from 'react-native-reanimated';
+
+interface DateRangeModalProps {
+  visible: boolean;
+  title: string;
+  description: string;
+  submitLabel: string;
+  earliestDate?: string | null;
+  busy?: boolean;
+  onSubmit: (range: DateRange) => void;
+  onClose: () => void;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DateRangeModal: React.FC<DateRangeModalProps> = ({
+  visible,
+  title,
+  description,
+  submitLabel,
+  earliestDate,
+  busy = false,
+  onSubmit,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const today = LocalDate.today();
+  const [start, setStart] = useState(LocalDate.addDays(today, -29));
+  const [end, setEnd] = useState(today);
+
+  const presets: { label: string; range: DateRange }[] = [
+    { label: t('rangeLast30Days'), range: { start: LocalDate.addDays(today, -29), end: today } },
+    { label: t('rangeLast90Days'), range: { start: LocalDate.addDays(today, -89), end: today } },
+    { label: t('rangeThisYear'), range: { start: `${today.slice(0, 4)}-01-01`, end: today } },
+    ...(earliestDate ? [{ label: t('rangeAllTime'), range: { start: earliestDate, end: today } }] : []),
+  ];
+
+  useEffect(() => {
+    if (visible) {
+      setStart(LocalDate.addDays(LocalDate.today(), -29));
+      setEnd(LocalDate.today());
+    }
+  }, [visible]);
+
+  const isDate = (value: string) => DATE_PATTERN.test(value) && LocalDate.addDays(value, 0) === value;
+  const isValid = isDate(start) && isDate(end) && start <= end;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="none"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={styles.overlay}
+        >
+          <Pressable style={styles.overlayPressable} onPress={onClose} />
+        </Animated.View>
+
+        <Animated.View
+          entering={SlideInDown.springify().damping(15)}
+          exiting={SlideOutDown.duration(200)}
+          style={[styles.modalContent, { backgroundColor: theme.colors.card }]}
+        >
+          {/* Header */}
+          <View style={styles.modalHeader}>
+            <View style={styles.titleSection}>
+              <CalendarRange size={24} color={theme.colors.primary} />
+              <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+                {title}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: theme.colors.background }]}
+              onPress={onClose}
+            >
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: theme.colors.border }]} />
+
+          {/* Content */}
+          <View style={styles.modalBody}>
+            <Text style={[styles.modalDescription, { color: theme.colors.textSecondary }]}>
+              {description}
+            </Text>
+
+            <View style={styles.presetsRow}>
+              {presets.map((preset) => {
+                const isSelected = preset.range.start === start && preset.range.end === end;
+                return (
+                  <TouchableOpacity
+                    key={preset.label}
+                    style={[
+                      styles.presetChip,
+                      {
+                        backgroundColor: isSelected ? theme.colors.primary : theme.colors.background,
+                        borderColor: isSelected ? theme.colors.primary : theme.colors.border,
+                      },
+                    ]}
+                    onPress={() => {
+                      setStart(preset.range.start);
+                      setEnd(preset.range.end);
+                    }}
+                  >
+                    <Text style={[styles.presetText, { color: isSelected ? '#ffffff' : theme.colors.text }]}>
+                      {preset.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.dateRow}>
+              {[
+                { label: t('rangeStart'), value: start, onChange: setStart },
+                { label: t('rangeEnd'), value: end, onChange: setEnd },
+              ].map(field => (
+                <View key={field.label} style={styles.dateField}>
+                  <Text style={[styles.dateLabel, { color: theme.colors.textSecondary }]}>
+                    {field.label}
+                  </Text>
+                  <TextInput
+                    style={[
+                      styles.input,
+                      {
+                        color: theme.colors.text,
+                        backgroundColor: theme.colors.background,
+                        borderColor: isDate(field.value) ? theme.colors.border : theme.colors.error,
+                      },
+                    ]}
+                    value={field.value}
+                    onChangeText={field.onChange}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={theme.colors.textSecondary}
+                    maxLength={10}
+                    autoCorrect={false}
+                  />
+                </View>
+              ))}
+            </View>
+
+            {!isValid && (
+              <Text style={[styles.errorText, { color: theme.colors.error }]}>
+                {t('invalidDateRange')}
+              </Text>
+            )}
+          </View>
+
+          {/* Footer */}
+          <View style={styles.modalFooter}>
+            <View style={styles.compactButtonContainer}>
+              <TouchableOpacity
+                style={[styles.compactSecondaryButton, {
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border
+                }]}
+                onPress={onClose}
+              >
+                <Text style={[styles.compactSecondaryButtonText, { color: theme.colors.text }]}>
+                  {t('cancel')}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.compactPrimaryButton, {
+                  backgroundColor: theme.colors.primary,
+                  opacity: isValid && !busy ? 1 : 0.6,
+                }]}
+                onPress={() => onSubmit({ start, end })}
+                disabled={!isValid || busy}
+              >
+                <Text style={styles.compactPrimaryButtonText}>
+                  {busy ? t('processing') : submitLabel}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+    zIndex: 1000,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 24,
+    paddingBottom: 16,
+  },
+  titleSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginLeft: 12,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  divider: {
+    height: 1,
+    marginHorizontal: 24,
+  },
+  modalBody: {
+    padding: 24,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  presetsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  presetChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 2,
+  },
+  presetText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  dateField: {
+    flex: 1,
+  },
+  dateLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 2,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  errorText: {
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  modalFooter: {
+    padding: 24,
+    paddingTop: 16,
+  },
+  compactButtonContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  compactPrimaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  compactPrimaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  compactSecondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  compactSecondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
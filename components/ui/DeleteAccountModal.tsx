@@ -0,0 +1,467 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Pressable, TextInput, ActivityIndicator } from 'react-native';
+import { X, Trash2, Download, CircleCheck as CheckCircle } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { SupabaseService } from '@/services/SupabaseService';
+import { AccountDeletion } from '@/types/database';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown
+} from 'react-native-reanimated';
+
+type DeleteAccountStep = 'export' | 'confirm' | 'scheduled';
+
+interface DeleteAccountModalProps {
+  visible: boolean;
+  onExport: () => Promise<void>;
+  onConfirm: (currentPassword: string) => Promise<AccountDeletion>;
+  // Chamado ao fechar depois do agendamento; a sessão é encerrada
+  onFinish: () => void;
+  onClose: () => void;
+}
+
+export const DeleteAccountModal: React.FC<DeleteAccountModalProps> = ({
+  visible,
+  onExport,
+  onConfirm,
+  onFinish,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { t, language } = useLanguage();
+  const [step, setStep] = useState<DeleteAccountStep>('export');
+  const [exporting, setExporting] = useState(false);
+  const [exported, setExported] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [error, setError] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [deletion, setDeletion] = useState<AccountDeletion | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setStep('export');
+      setExported(false);
+      setCurrentPassword('');
+      setError('');
+      setDeletion(null);
+    }
+  }, [visible]);
+
+  const busy = exporting || deleting;
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(language === 'pt' ? 'pt-BR' : 'en-US', {
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric',
+    });
+
+  // Chave de tradução para o erro devolvido pelo Supabase
+  const errorKey = (error: any): string => {
+    const message = error?.message?.toLowerCase() || '';
+
+    if (message.includes('invalid login credentials')) return 'currentPasswordWrong';
+    if (error?.status === 429 || message.includes('rate limit')) return 'tooManyRequests';
+    if (message.includes('network') || message.includes('fetch')) return 'networkError';
+    return 'deleteAccountFailed';
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      setError('');
+      await onExport();
+      setExported(true);
+    } catch (error) {
+      console.error('❌ [DeleteAccountModal] Export failed:', error);
+      setError(t('deleteAccountExportFailed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!currentPassword) {
+      setError(t('currentPasswordRequired'));
+      return;
+    }
+
+    try {
+      setDeleting(true);
+      setError('');
+      setDeletion(await onConfirm(currentPassword));
+      setStep('scheduled');
+    } catch (error) {
+      console.error('❌ [DeleteAccountModal] Deletion request failed:', error);
+      setError(t(errorKey(error)));
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (busy) return;
+    if (step === 'scheduled') {
+      onFinish();
+    } else {
+      onClose();
+    }
+  };
+
+  const renderLine = (text: string) => (
+    <View key={text} style={styles.summaryLine}>
+      <View style={[styles.bullet, { backgroundColor: theme.colors.error }]} />
+      <Text style={[styles.summaryText, { color: theme.colors.text }]}>
+        {text}
+      </Text>
+    </View>
+  );
+
+  const gracePeriod = t('deleteAccountGracePeriod').replace('{days}', String(SupabaseService.ACCOUNT_DELETION_GRACE_DAYS));
+
+  const renderExport = () => (
+    <>
+      <Text style={[styles.modalDescription, { color: theme.colors.text }]}>
+        {t('deleteAccountDescription')}
+      </Text>
+
+      <View style={[styles.summaryCard, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}>
+        {renderLine(t('deleteAccountRecords'))}
+        {renderLine(t('deleteAccountProfile'))}
+        {renderLine(t('deleteAccountPhotos'))}
+        {renderLine(t('deleteAccountLogin'))}
+      </View>
+
+      <Text style={[styles.modalHint, { color: theme.colors.textSecondary }]}>
+        {gracePeriod} {t('deleteAccountExportHint')}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.exportButton, { borderColor: exported ? theme.colors.success : theme.colors.primary }]}
+        onPress={handleExport}
+        disabled={busy}
+      >
+        {exporting ? (
+          <ActivityIndicator size="small" color={theme.colors.primary} />
+        ) : exported ? (
+          <CheckCircle size={18} color={theme.colors.success} />
+        ) : (
+          <Download size={18} color={theme.colors.primary} />
+        )}
+        <Text style={[styles.exportButtonText, { color: exported ? theme.colors.success : theme.colors.primary }]}>
+          {exported ? t('deleteAccountExported') : t('deleteAccountExport')}
+        </Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderConfirm = () => (
+    <>
+      <Text style={[styles.modalDescription, { color: theme.colors.text }]}>
+        {t('deleteAccountConfirmDescription')}
+      </Text>
+
+      <TextInput
+        style={[styles.input, { color: theme.colors.text, borderColor: theme.colors.border, backgroundColor: theme.colors.background }]}
+        value={currentPassword}
+        onChangeText={(text) => {
+          setCurrentPassword(text);
+          setError('');
+        }}
+        placeholder={t('currentPassword')}
+        placeholderTextColor={theme.colors.textSecondary}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus
+        editable={!deleting}
+      />
+    </>
+  );
+
+  const renderScheduled = (result: AccountDeletion) => (
+    <>
+      <Text style={[styles.modalDescription, { color: theme.colors.text }]}>
+        {t('deleteAccountScheduledDescription').replace('{date}', formatDate(result.purge_after))}
+      </Text>
+      <Text style={[styles.modalHint, { color: theme.colors.textSecondary }]}>
+        {gracePeriod}
+      </Text>
+    </>
+  );
+
+  const renderFooter = () => {
+    if (step === 'scheduled') {
+      return (
+        <TouchableOpacity
+          style={[styles.compactPrimaryButton, { backgroundColor: theme.colors.primary }]}
+          onPress={onFinish}
+        >
+          <Text style={styles.compactPrimaryButtonText}>
+            {t('ok')}
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+
+    const isExport = step === 'export';
+    return (
+      <View style={styles.compactButtonContainer}>
+        <TouchableOpacity
+          style={[styles.compactSecondaryButton, {
+            backgroundColor: theme.colors.background,
+            borderColor: theme.colors.border
+          }]}
+          onPress={isExport ? onClose : () => setStep('export')}
+          disabled={busy}
+        >
+          <Text style={[styles.compactSecondaryButtonText, { color: theme.colors.text }]}>
+            {isExport ? t('cancel') : t('back')}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.compactPrimaryButton, { backgroundColor: theme.colors.error, opacity: busy ? 0.7 : 1 }]}
+          onPress={isExport ? () => setStep('confirm') : handleConfirm}
+          disabled={busy}
+        >
+          {deleting ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Text style={styles.compactPrimaryButtonText}>
+              {isExport ? t('continue') : t('deleteMyAccount')}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="none"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalContainer}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={styles.overlay}
+        >
+          <Pressable style={styles.overlayPressable} onPress={handleClose} />
+        </Animated.View>
+
+        <Animated.View
+          entering={SlideInDown.springify().damping(15)}
+          exiting={SlideOutDown.duration(200)}
+          style={[styles.modalContent, { backgroundColor: theme.colors.card }]}
+        >
+          {/* Header */}
+          <View style={styles.modalHeader}>
+            <View style={styles.titleSection}>
+              {step === 'scheduled'
+                ? <CheckCircle size={24} color={theme.colors.success} />
+                : <Trash2 size={24} color={theme.colors.error} />}
+              <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+                {step === 'scheduled' ? t('deleteAccountScheduled') : t('deleteAccount')}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: theme.colors.background }]}
+              onPress={handleClose}
+              disabled={busy}
+            >
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: theme.colors.border }]} />
+
+          {/* Content */}
+          <View style={styles.modalBody}>
+            {step === 'export' && renderExport()}
+            {step === 'confirm' && renderConfirm()}
+            {step === 'scheduled' && deletion && renderScheduled(deletion)}
+
+            {!!error && (
+              <Text style={[styles.errorText, { color: theme.colors.error }]}>
+                {error}
+              </Text>
+            )}
+          </View>
+
+          {/* Footer */}
+          <View style={styles.modalFooter}>
+            {renderFooter()}
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+    zIndex: 1000,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 24,
+    paddingBottom: 16,
+  },
+  titleSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginLeft: 12,
+    flexShrink: 1,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  divider: {
+    height: 1,
+    marginHorizontal: 24,
+  },
+  modalBody: {
+    padding: 24,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 16,
+    lineHeight: 24,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 8,
+  },
+  summaryLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bullet: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginRight: 10,
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  modalHint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 12,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 2,
+    marginTop: 16,
+    gap: 8,
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 2,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  modalFooter: {
+    padding: 24,
+    paddingTop: 16,
+  },
+  compactButtonContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  compactPrimaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  compactPrimaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  compactSecondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  compactSecondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,359 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Pressable, TextInput } from 'react-native';
+import { X, Target, Minus, Plus } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown
+} from 'react-native-reanimated';
+
+interface GoalEditorModalProps {
+  visible: boolean;
+  title: string;
+  description: string;
+  value: number;
+  min: number;
+  max: number;
+  presets?: number[];
+  unit?: string;
+  saving?: boolean;
+  onSave: (value: number) => void;
+  onClose: () => void;
+}
+
+export const GoalEditorModal: React.FC<GoalEditorModalProps> = ({
+  visible,
+  title,
+  description,
+  value,
+  min,
+  max,
+  presets = [],
+  unit,
+  saving = false,
+  onSave,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    if (visible) setDraft(String(value));
+  }, [visible, value]);
+
+  const parsed = parseInt(draft, 10);
+  const isValid = !isNaN(parsed) && parsed >= min && parsed <= max;
+
+  const adjust = (delta: number) => {
+    const current = isNaN(parsed) ? value : parsed;
+    setDraft(String(Math.min(max, Math.max(min, current + delta))));
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="none"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={styles.overlay}
+        >
+          <Pressable style={styles.overlayPressable} onPress={onClose} />
+        </Animated.View>
+
+        <Animated.View
+          entering={SlideInDown.springify().damping(15)}
+          exiting={SlideOutDown.duration(200)}
+          style={[styles.modalContent, { backgroundColor: theme.colors.card }]}
+        >
+          {/* Header */}
+          <View style={styles.modalHeader}>
+            <View style={styles.titleSection}>
+              <Target size={24} color={theme.colors.primary} />
+              <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+                {title}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: theme.colors.background }]}
+              onPress={onClose}
+            >
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: theme.colors.border }]} />
+
+          {/* Content */}
+          <View style={styles.modalBody}>
+            <Text style={[styles.modalDescription, { color: theme.colors.textSecondary }]}>
+              {description}
+            </Text>
+
+            <View style={styles.stepperRow}>
+              <TouchableOpacity
+                style={[styles.stepperButton, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}
+                onPress={() => adjust(-1)}
+              >
+                <Minus size={20} color={theme.colors.text} />
+              </TouchableOpacity>
+              <View style={styles.stepperValue}>
+                <TextInput
+                  style={[
+                    styles.valueInput,
+                    {
+                      color: theme.colors.text,
+                      borderColor: isValid ? theme.colors.border : theme.colors.error,
+                    },
+                  ]}
+                  value={draft}
+                  onChangeText={setDraft}
+                  keyboardType="numeric"
+                  maxLength={3}
+                  selectTextOnFocus
+                />
+                <Text style={[styles.unitText, { color: theme.colors.textSecondary }]}>
+                  {unit || t('capsules')}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.stepperButton, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}
+                onPress={() => adjust(1)}
+              >
+                <Plus size={20} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            {presets.length > 0 && (
+              <View style={styles.presetsRow}>
+                {presets.map((preset) => {
+                  const isSelected = parsed === preset;
+                  return (
+                    <TouchableOpacity
+                      key={preset}
+                      style={[
+                        styles.presetChip,
+                        {
+                          backgroundColor: isSelected ? theme.colors.primary : theme.colors.background,
+                          borderColor: isSelected ? theme.colors.primary : theme.colors.border,
+                        },
+                      ]}
+                      onPress={() => setDraft(String(preset))}
+                    >
+                      <Text style={[styles.presetText, { color: isSelected ? '#ffffff' : theme.colors.text }]}>
+                        {preset}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            {!isValid && (
+              <Text style={[styles.errorText, { color: theme.colors.error }]}>
+                {t('goalOutOfRange').replace('{min}', String(min)).replace('{max}', String(max))}
+              </Text>
+            )}
+          </View>
+
+          {/* Footer */}
+          <View style={styles.modalFooter}>
+            <View style={styles.compactButtonContainer}>
+              <TouchableOpacity
+                style={[styles.compactSecondaryButton, {
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border
+                }]}
+                onPress={onClose}
+              >
+                <Text style={[styles.compactSecondaryButtonText, { color: theme.colors.text }]}>
+                  {t('cancel')}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.compactPrimaryButton, {
+                  backgroundColor: theme.colors.primary,
+                  opacity: isValid && !saving ? 1 : 0.6,
+                }]}
+                onPress={() => onSave(parsed)}
+                disabled={!isValid || saving}
+              >
+                <Text style={styles.compactPrimaryButtonText}>
+                  {saving ? t('saving') : t('save')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+    zIndex: 1000,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 24,
+    paddingBottom: 16,
+  },
+  titleSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginLeft: 12,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  divider: {
+    height: 1,
+    marginHorizontal: 24,
+  },
+  modalBody: {
+    padding: 24,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    marginBottom: 16,
+  },
+  stepperButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    alignItems: 'center',
+  },
+  valueInput: {
+    minWidth: 80,
+    borderBottomWidth: 2,
+    fontSize: 32,
+    fontWeight: '700',
+    textAlign: 'center',
+    paddingVertical: 4,
+  },
+  unitText: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  presetsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  presetChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 2,
+  },
+  presetText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  modalFooter: {
+    padding: 24,
+    paddingTop: 16,
+  },
+  compactButtonContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  compactPrimaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  compactPrimaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  compactSecondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  compactSecondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
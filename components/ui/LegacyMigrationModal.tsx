@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Pressable, ActivityIndicator } from 'react-native';
+import { X, CloudUpload, CircleCheck as CheckCircle } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { LegacyDataSummary, LegacyMigrationReport } from '@/services/LegacyMigration';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  SlideInDown,
+  SlideOutDown
+} from 'react-native-reanimated';
+
+interface LegacyMigrationModalProps {
+  summary: LegacyDataSummary | null;
+  onMigrate: () => Promise<LegacyMigrationReport>;
+  onSkip: () => Promise<void>;
+}
+
+export const LegacyMigrationModal: React.FC<LegacyMigrationModalProps> = ({
+  summary,
+  onMigrate,
+  onSkip,
+}) => {
+  const { theme } = useTheme();
+  const { t, language } = useLanguage();
+  const [migrating, setMigrating] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [report, setReport] = useState<LegacyMigrationReport | null>(null);
+  const [hidden, setHidden] = useState(false);
+
+  // O resumo some do contexto quando a migração termina; o relatório continua aberto
+  if ((!summary || hidden) && !report) return null;
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString + 'T00:00:00');
+    return date.toLocaleDateString(language === 'pt' ? 'pt-BR' : 'en-US', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const handleMigrate = async () => {
+    setMigrating(true);
+    setFailed(false);
+    try {
+      setReport(await onMigrate());
+    } catch (error) {
+      console.error('❌ [LegacyMigrationModal] Migration failed:', error);
+      setFailed(true);
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  // Fechar só adia a pergunta para a próxima abertura do app
+  const handleClose = () => {
+    if (migrating) return;
+    setReport(null);
+    setHidden(true);
+  };
+
+  const renderLine = (text: string) => (
+    <View key={text} style={styles.summaryLine}>
+      <View style={[styles.bullet, { backgroundColor: theme.colors.primary }]} />
+      <Text style={[styles.summaryText, { color: theme.colors.text }]}>
+        {text}
+      </Text>
+    </View>
+  );
+
+  const renderSummary = (data: LegacyDataSummary) => (
+    <>
+      <Text style={[styles.modalDescription, { color: theme.colors.text }]}>
+        {data.email
+          ? t('legacyMigrationDescriptionEmail').replace('{email}', data.email)
+          : t('legacyMigrationDescription')}
+      </Text>
+
+      <View style={[styles.summaryCard, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}>
+        {data.records > 0 && renderLine(
+          t('legacyMigrationRecords')
+            .replace('{count}', String(data.records))
+            .replace('{first}', formatDate(data.firstDate!))
+            .replace('{last}', formatDate(data.lastDate!))
+        )}
+        {data.hasProfile && renderLine(t('legacyMigrationProfile'))}
+        {data.hasSettings && renderLine(t('legacyMigrationSettings'))}
+      </View>
+
+      <Text style={[styles.modalHint, { color: theme.colors.textSecondary }]}>
+        {failed ? t('legacyMigrationFailed') : t('legacyMigrationHint')}
+      </Text>
+    </>
+  );
+
+  const renderReport = (result: LegacyMigrationReport) => (
+    <>
+      <Text style={[styles.modalDescription, { color: theme.colors.text }]}>
+        {t('legacyMigrationDoneDescription')}
+      </Text>
+
+      <View style={[styles.summaryCard, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}>
+        {renderLine(t('legacyMigrationMigrated').replace('{count}', String(result.migratedDates.length)))}
+        {result.skippedDates.length > 0 && renderLine(
+          t('legacyMigrationSkipped').replace('{count}', String(result.skippedDates.length))
+        )}
+        {result.invalidRecords > 0 && renderLine(
+          t('legacyMigrationInvalid').replace('{count}', String(result.invalidRecords))
+        )}
+        {result.profileFields.length > 0 && renderLine(
+          t('legacyMigrationProfileFields').replace('{count}', String(result.profileFields.length))
+        )}
+        {result.settingsFields.length > 0 && renderLine(
+          t('legacyMigrationSettingsFields').replace('{count}', String(result.settingsFields.length))
+        )}
+      </View>
+    </>
+  );
+
+  return (
+    <Modal
+      visible
+      transparent
+      animationType="none"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalContainer}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(150)}
+          style={styles.overlay}
+        >
+          <Pressable style={styles.overlayPressable} onPress={handleClose} />
+        </Animated.View>
+
+        <Animated.View
+          entering={SlideInDown.springify().damping(15)}
+          exiting={SlideOutDown.duration(200)}
+          style={[styles.modalContent, { backgroundColor: theme.colors.card }]}
+        >
+          {/* Header */}
+          <View style={styles.modalHeader}>
+            <View style={styles.titleSection}>
+              {report
+                ? <CheckCircle size={24} color={theme.colors.success} />
+                : <CloudUpload size={24} color={theme.colors.primary} />}
+              <Text style={[styles.modalTitle, { color: theme.colors.text }]}>
+                {report ? t('legacyMigrationDoneTitle') : t('legacyMigrationTitle')}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: theme.colors.background }]}
+              onPress={handleClose}
+              disabled={migrating}
+            >
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: theme.colors.border }]} />
+
+          {/* Content */}
+          <View style={styles.modalBody}>
+            {report ? renderReport(report) : summary && renderSummary(summary)}
+          </View>
+
+          {/* Footer */}
+          <View style={styles.modalFooter}>
+            {report ? (
+              <TouchableOpacity
+                style={[styles.compactPrimaryButton, { backgroundColor: theme.colors.primary }]}
+                onPress={handleClose}
+              >
+                <Text style={styles.compactPrimaryButtonText}>
+                  {t('ok')}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.compactButtonContainer}>
+                <TouchableOpacity
+                  style={[styles.compactSecondaryButton, {
+                    backgroundColor: theme.colors.background,
+                    borderColor: theme.colors.border
+                  }]}
+                  onPress={onSkip}
+                  disabled={migrating}
+                >
+                  <Text style={[styles.compactSecondaryButtonText, { color: theme.colors.text }]}>
+                    {t('legacyMigrationSkip')}
+                  </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={[styles.compactPrimaryButton, { backgroundColor: theme.colors.primary, opacity: migrating ? 0.7 : 1 }]}
+                  onPress={handleMigrate}
+                  disabled={migrating}
+                >
+                  {migrating ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <Text style={styles.compactPrimaryButtonText}>
+                      {failed ? t('tryAgain') : t('legacyMigrationConfirm')}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+    zIndex: 1000,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 24,
+    paddingBottom: 16,
+  },
+  titleSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginLeft: 12,
+    flexShrink: 1,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  divider: {
+    height: 1,
+    marginHorizontal: 24,
+  },
+  modalBody: {
+    padding: 24,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  modalDescription: {
+    fontSize: 16,
+    lineHeight: 24,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 8,
+  },
+  summaryLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bullet: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginRight: 10,
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  modalHint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 12,
+  },
+  modalFooter: {
+    padding: 24,
+    paddingTop: 16,
+  },
+  compactButtonContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  compactPrimaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  compactPrimaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  compactSecondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  compactSecondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
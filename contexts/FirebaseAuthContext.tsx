@@ -3,7 +3,10 @@ import { router } from 'expo-router';
 import { supabase } from '@/config/supabase';
 import { SupabaseService } from '@/services/SupabaseService';
 import { AuthService, AuthUser } from '@/services/authService';
-import { UserProfile } from '@/types/database';
+import { PasswordlessAuthService } from '@/services/PasswordlessAuthService';
+import { PasswordRecoveryService } from '@/services/PasswordRecoveryService';
+import { LegacyMigration, LegacyDataSummary, LegacyMigrationReport } from '@/services/LegacyMigration';
+import { AccountDeletion, UserProfile } from '@/types/database';
 
 interface AuthContextData {
   user: any | null;
@@ -11,10 +14,21 @@ interface AuthContextData {
   isAuthenticated: boolean;
   loading: boolean;
   error: string | null;
+  legacyData: LegacyDataSummary | null;
+  migrateLegacyData: () => Promise<LegacyMigrationReport>;
+  skipLegacyMigration: () => Promise<void>;
   login: (email: string, password: string) => Promise<boolean>;
+  sendSignInCode: (email: string) => Promise<void>;
+  verifySignInCode: (email: string, code: string) => Promise<boolean>;
   register: (userData: { name: string; email: string; password: string }) => Promise<boolean>;
   logout: () => Promise<void>;
   updateUserProfile: (updates: Partial<UserProfile>) => Promise<void>;
+  pendingEmail: string | null;
+  changeEmail: (currentPassword: string, newEmail: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  accountDeletion: AccountDeletion | null;
+  requestAccountDeletion: (currentPassword: string) => Promise<AccountDeletion>;
+  cancelAccountDeletion: () => Promise<void>;
   setUser: (user: any | null) => void;
   setUserProfile: (profile: UserProfile | null) => void;
   setIsAuthenticated: (authenticated: boolean) => void;
@@ -28,6 +42,8 @@ export const FirebaseAuthProvider: React.FC<{ children: React.ReactNode }> = ({
   const [loading, setLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [legacyData, setLegacyData] = useState<LegacyDataSummary | null>(null);
+  const [accountDeletion, setAccountDeletion] = useState<AccountDeletion | null>(null);
 
   useEffect(() => {
     // Listen to auth state changes
@@ -56,9 +72,26 @@ export const FirebaseAuthProvider: React.FC<{ children: React.ReactNode }> = ({
           const profile = await SupabaseService.getUserProfile(session.user.id);
           setUserProfile(profile);
           console.log(`✅ [Auth] Profile loaded:`, profile ? 'Success' : 'Not found');
+
+          // Troca de email confirmada (talvez em outro aparelho): as tabelas acompanham a conta
+          if (profile && session.user.email && profile.email !== session.user.email) {
+            try {
+              await SupabaseService.syncAccountEmail(session.user.id, session.user.email);
+              setUserProfile({ ...profile, email: session.user.email });
+            } catch (error) {
+              console.warn(`⚠️ [Auth] Could not sync account email:`, error);
+            }
+          }
           
-          // Check if migration is needed
-          await checkAndMigrateLocalData(session.user.id);
+          // Dados da versão antiga ainda não migrados para esta conta
+          setLegacyData(await LegacyMigration.detect(session.user.id));
+
+          // Exclusão agendada: entrar durante o prazo permite desistir
+          try {
+            setAccountDeletion(await SupabaseService.getAccountDeletion(session.user.id));
+          } catch (error) {
+            console.warn(`⚠️ [Auth] Could not check account deletion:`, error);
+          }
         } else {
           console.log(`🚪 [Auth] User logged out`);
           
@@ -67,6 +100,8 @@ export const FirebaseAuthProvider: React.FC<{ children: React.ReactNode }> = ({
           setUserProfile(null);
           setIsAuthenticated(false);
           setError(null);
+          setLegacyData(null);
+          setAccountDeletion(null);
           
           // Clear any remaining local data
           try {
@@ -120,37 +155,24 @@ export const FirebaseAuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
-  const checkAndMigrateLocalData = async (userId: string) => {
-    try {
-      console.log(`🔄 [${userId}] Checking migration status...`);
-      const migrationFlag = await AuthService.getUser();
-      
-      if (!migrationFlag) {
-        console.log(`📦 [${userId}] Starting data migration...`);
-        try {
-          await migrateLocalDataToSupabase(userId);
-          console.log(`✅ [${userId}] Migration completed successfully`);
-        } catch (error) {
-          console.error('Migration failed, but continuing:', error);
-          console.error(`❌ [${userId}] Migration failed:`, error);
-        }
-      } else {
-        console.log(`✅ [${userId}] Migration already completed`);
-      }
-    } catch (error) {
-      console.error('Error checking migration:', error);
-      console.error(`❌ [${userId}] Migration check failed:`, error);
+  const migrateLegacyData = async (): Promise<LegacyMigrationReport> => {
+    if (!user) throw new Error('No authenticated user');
+
+    const report = await LegacyMigration.migrate(user.id);
+    setLegacyData(null);
+
+    // O perfil pode ter recebido campos do app antigo
+    if (report.profileFields.length > 0) {
+      setUserProfile(await SupabaseService.getUserProfile(user.id));
     }
+    return report;
   };
 
-  const migrateLocalDataToSupabase = async (userId: string) => {
-    try {
-      console.log(`📦 [${userId}] Collecting local data for migration...`);
-      console.log(`ℹ️ [${userId}] Migration skipped - using new auth system`);
-    } catch (error) {
-      console.error('❌ Error migrating local data:', error);
-      console.error(`❌ [${userId}] Migration failed:`, error);
-    }
+  const skipLegacyMigration = async () => {
+    if (!user) return;
+
+    await LegacyMigration.skip(user.id);
+    setLegacyData(null);
   };
 
   const login = async (email: string, password: string): Promise<boolean> => {
@@ -171,6 +193,35 @@ export const FirebaseAuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  const sendSignInCode = async (email: string) => {
+    try {
+      setError(null);
+      console.log(`✉️ Requesting sign-in code for: ${email}`);
+      await PasswordlessAuthService.sendSignInEmail(email);
+    } catch (error: any) {
+      console.error(`❌ Sign-in code request failed for: ${email}`, error.message);
+      setError('Could not send the sign-in email. Please try again.');
+      throw error;
+    }
+  };
+
+  const verifySignInCode = async (email: string, code: string): Promise<boolean> => {
+    try {
+      setLoading(true);
+      setError(null);
+      console.log(`🔐 Verifying sign-in code for: ${email}`);
+      await PasswordlessAuthService.verifyCode(email, code);
+      console.log(`✅ Code login successful for: ${email}`);
+      return true;
+    } catch (error: any) {
+      console.error(`❌ Code login failed for: ${email}`, error.message);
+      setError('Invalid or expired code.');
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const register = async (userData: { name: string; email: string; password: string }): Promise<boolean> => {
     try {
       setLoading(true);
@@ -248,6 +299,37 @@ export const FirebaseAuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  const changeEmail = async (currentPassword: string, newEmail: string) => {
+    if (!user) throw new Error('No authenticated user');
+
+    await SupabaseService.reauthenticate(user.email, currentPassword);
+    const updated = await SupabaseService.requestEmailChange(newEmail.trim(), PasswordlessAuthService.callbackUrl());
+    if (updated) setUser(updated);
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!user) throw new Error('No authenticated user');
+
+    await SupabaseService.reauthenticate(user.email, currentPassword);
+    await PasswordRecoveryService.updatePassword(newPassword);
+  };
+
+  const requestAccountDeletion = async (currentPassword: string): Promise<AccountDeletion> => {
+    if (!user) throw new Error('No authenticated user');
+
+    await SupabaseService.reauthenticate(user.email, currentPassword);
+    const deletion = await SupabaseService.requestAccountDeletion(user.id);
+    setAccountDeletion(deletion);
+    return deletion;
+  };
+
+  const cancelAccountDeletion = async () => {
+    if (!user) return;
+
+    await SupabaseService.cancelAccountDeletion(user.id);
+    setAccountDeletion(null);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -256,10 +338,21 @@ export const FirebaseAuthProvider: React.FC<{ children: React.ReactNode }> = ({
         isAuthenticated,
         loading,
         error,
+        legacyData,
+        migrateLegacyData,
+        skipLegacyMigration,
         login,
+        sendSignInCode,
+        verifySignInCode,
         register,
         logout,
         updateUserProfile,
+        pendingEmail: user?.new_email || null,
+        changeEmail,
+        changePassword,
+        accountDeletion,
+        requestAccountDeletion,
+        cancelAccountDeletion,
         setUser,
         setUserProfile,
         setIsAuthenticated,
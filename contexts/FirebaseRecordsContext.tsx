@@ -1,32 +1,96 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { SupabaseService } from '@/services/SupabaseService';
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef } from 'react';
+import { SupabaseService, RealtimeSubscription } from '@/services/SupabaseService';
+import { RecordsOutbox, OutboxState } from '@/services/RecordsOutbox';
+import { RecordMerger, DailyRecordConflict, ConflictChoice } from '@/utils/RecordMerger';
+import { RecordStore, DailyRecordStore } from '@/utils/RecordStore';
+import { DoseIntakes, DaySummary } from '@/utils/DoseIntakes';
 import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
-import { DailyRecord } from '@/types/database';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
+import { DailyRecord, DoseIntake } from '@/types/database';
+import { LocalDate } from '@/utils/LocalDate';
+
+const DEFAULT_BACKFILL_WINDOW_DAYS = 7;
+
+export interface DoseInput {
+  capsules: number;
+  time: string;
+  notes?: string;
+}
+
+export type SyncStatus = 'synced' | 'syncing' | 'pending' | 'error';
 
 interface FirebaseRecordsContextData {
   records: DailyRecord[];
+  intakes: DoseIntake[];
   loading: boolean;
   error: string | null;
-  syncStatus: 'synced' | 'syncing' | 'error';
+  syncStatus: SyncStatus;
+  pendingCount: number;
+  rejectedCount: number;
+  conflicts: DailyRecordConflict[];
   createRecord: (recordData: Omit<DailyRecord, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<void>;
   updateRecord: (recordId: string, updates: Partial<DailyRecord>) => Promise<void>;
   deleteRecord: (recordId: string) => Promise<void>;
   getRecordByDate: (date: string) => Promise<DailyRecord | null>;
+  selectByDate: (date: string) => DailyRecord | null;
+  selectByMonth: (year: number, month: number) => DailyRecord[];
+  selectByRange: (startDate: string, endDate: string) => DailyRecord[];
+  selectIntakesByDate: (date: string) => DoseIntake[];
+  backfillWindowDays: number;
+  canLogDate: (date: string) => boolean;
+  logIntake: (date: string, dose: DoseInput) => Promise<DaySummary>;
+  removeIntake: (intakeId: string) => Promise<void>;
   refreshRecords: () => Promise<void>;
+  retrySync: () => Promise<void>;
+  dismissRejected: () => Promise<void>;
+  resolveConflict: (conflictId: string, choice: ConflictChoice) => Promise<void>;
 }
 
 const FirebaseRecordsContext = createContext<FirebaseRecordsContextData>({} as FirebaseRecordsContextData);
 
+const getSyncStatus = (outbox: OutboxState | null): SyncStatus => {
+  if (!outbox) return 'synced';
+  if (outbox.status === 'flushing') return 'syncing';
+  if (outbox.status === 'error') return 'error';
+  if (outbox.operations.length > 0) return 'pending';
+  return 'synced';
+};
+
 export const FirebaseRecordsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useFirebaseAuth();
-  const [records, setRecords] = useState<DailyRecord[]>([]);
+  const { planFor } = useSchedule();
+  const { settings } = useFirebaseSettings();
+  const [serverStore, setServerStore] = useState<DailyRecordStore>(RecordStore.empty());
+  const [serverIntakes, setServerIntakes] = useState<DoseIntake[]>([]);
+  const [outbox, setOutbox] = useState<OutboxState | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [syncStatus, setSyncStatus] = useState<'synced' | 'syncing' | 'error'>('synced');
+  const pendingCountRef = useRef(0);
+  const subscriptionRef = useRef<RealtimeSubscription | null>(null);
+
+  const serverRecords = useMemo(() => RecordStore.toList(serverStore), [serverStore]);
+
+  // Registros do servidor com as alterações offline aplicadas por cima
+  const records = useMemo(
+    () => RecordsOutbox.applyPending(serverRecords, outbox?.operations || []),
+    [serverRecords, outbox]
+  );
+  const recordStore = useMemo(() => RecordStore.fromRecords(records), [records]);
+  const intakes = useMemo(
+    () => RecordsOutbox.applyPendingIntakes(serverIntakes, outbox?.operations || []),
+    [serverIntakes, outbox]
+  );
+  const syncStatus = getSyncStatus(outbox);
+  const pendingCount = outbox?.operations.length || 0;
+  const rejectedCount = outbox?.rejected.length || 0;
+  const conflicts = outbox?.conflicts || [];
 
   useEffect(() => {
     if (!user) {
-      setRecords([]);
+      setServerStore(RecordStore.empty());
+      setServerIntakes([]);
+      setOutbox(null);
       setLoading(false);
       return;
     }
@@ -35,31 +99,45 @@ export const FirebaseRecordsProvider: React.FC<{ children: React.ReactNode }> =
     setLoading(true);
     
     // Subscribe to real-time updates
-    const subscription = SupabaseService.subscribeToDailyRecords(user.id, (newRecords) => {
-      console.log(`📊 [RecordsContext] Records updated: ${newRecords.length} records`);
+    const subscription = SupabaseService.subscribeToDailyRecords(user.id, (store) => {
+      console.log(`📊 [RecordsContext] Records updated: ${store.dates.length} records`);
       
-      if (newRecords.length > 0) {
-        console.log(`📊 [RecordsContext] Sample record:`, {
-          date: newRecords[0].date,
-          completed: newRecords[0].completed,
-          capsules: newRecords[0].capsules,
-          id: newRecords[0].id
-        });
-      }
-      
-      setRecords(newRecords);
+      setServerStore(store);
       setLoading(false);
       setError(null);
-      setSyncStatus('synced');
-      
-      setTimeout(() => {
-        console.log(`✅ [RecordsContext] Records propagated to components - Total: ${newRecords.length}`);
-      }, 100);
+    }, () => {
+      // Os registros já carregados continuam na tela
+      setLoading(false);
+      setError('Failed to load records');
+    });
+    subscriptionRef.current = subscription;
+
+    const intakesSubscription = SupabaseService.subscribeToDoseIntakes(user.id, setServerIntakes);
+
+    // Subscribe to the offline write queue
+    const unsubscribeOutbox = RecordsOutbox.subscribe(user.id, (state) => {
+      const previousCount = pendingCountRef.current;
+      pendingCountRef.current = state.operations.length;
+      setOutbox(state);
+
+      // Queue drained: make sure server state reflects the replayed writes
+      if (previousCount > 0 && state.operations.length === 0) {
+        subscription.reconcile().catch(error => {
+          console.warn('⚠️ [RecordsContext] Reconcile after sync failed:', error);
+        });
+        intakesSubscription.reconcile().catch(error => {
+          console.warn('⚠️ [RecordsContext] Intakes reconcile after sync failed:', error);
+        });
+      }
     });
 
     return () => {
       console.log(`🔥 [RecordsContext] Cleaning up listener for user ${user.id}`);
-      subscription?.unsubscribe();
+      subscription.unsubscribe();
+      subscriptionRef.current = null;
+      intakesSubscription.unsubscribe();
+      unsubscribeOutbox();
+      pendingCountRef.current = 0;
     };
   }, [user]);
 
@@ -67,62 +145,200 @@ export const FirebaseRecordsProvider: React.FC<{ children: React.ReactNode }> =
     if (!user) throw new Error('No authenticated user');
     
     try {
-      setSyncStatus('syncing');
       console.log(`📝 [RecordsContext] Creating record for ${recordData.date}`);
       
-      await SupabaseService.createDailyRecord({
-        ...recordData,
-        user_id: user.id,
+      await RecordsOutbox.enqueue({
+        type: 'create',
+        userId: user.id,
+        recordId: RecordsOutbox.createLocalId(),
+        date: recordData.date,
+        payload: recordData,
       });
       
-      console.log(`✅ [RecordsContext] Record created successfully for ${recordData.date}`);
+      console.log(`✅ [RecordsContext] Record queued for ${recordData.date}`);
     } catch (error) {
-      setSyncStatus('error');
       console.error('❌ [RecordsContext] Error creating record:', error);
       throw error;
     }
   };
 
   const updateRecord = async (recordId: string, updates: Partial<DailyRecord>) => {
+    if (!user) throw new Error('No authenticated user');
+
     try {
-      setSyncStatus('syncing');
       console.log(`📝 [RecordsContext] Updating record ${recordId}`);
       
-      await SupabaseService.updateDailyRecord(recordId, updates);
+      const current = records.find(r => r.id === recordId);
+      await RecordsOutbox.enqueue({
+        type: 'update',
+        userId: user.id,
+        recordId,
+        date: updates.date || current?.date,
+        payload: updates,
+        baseUpdatedAt: current?.updated_at,
+      });
       
-      console.log(`✅ [RecordsContext] Record updated successfully: ${recordId}`);
-      setSyncStatus('synced');
+      console.log(`✅ [RecordsContext] Record update queued: ${recordId}`);
     } catch (error) {
-      setSyncStatus('error');
       console.error('❌ [RecordsContext] Error updating record:', error);
       throw error;
     }
   };
 
   const deleteRecord = async (recordId: string) => {
+    if (!user) throw new Error('No authenticated user');
+
     try {
-      setSyncStatus('syncing');
       console.log(`🗑️ [RecordsContext] Deleting record ${recordId}`);
       
-      await SupabaseService.deleteDailyRecord(recordId);
+      // As tomadas do dia saem junto com o registro
+      const record = records.find(r => r.id === recordId);
+      const dayIntakes = record ? selectIntakesByDate(record.date) : [];
+      for (const intake of dayIntakes) {
+        await RecordsOutbox.enqueue({
+          type: 'delete',
+          entity: 'intake',
+          userId: user.id,
+          recordId: intake.id!,
+          date: intake.date,
+        });
+      }
+
+      await RecordsOutbox.enqueue({
+        type: 'delete',
+        userId: user.id,
+        recordId,
+      });
       
-      console.log(`✅ [RecordsContext] Record deleted successfully`);
-      setSyncStatus('synced');
+      console.log(`✅ [RecordsContext] Record deletion queued`);
     } catch (error) {
-      setSyncStatus('error');
       console.error('❌ [RecordsContext] Error deleting record:', error);
       throw error;
     }
   };
 
+  // Seletores síncronos sobre o store compartilhado
+  const selectByDate = (date: string) => RecordStore.selectByDate(recordStore, date);
+
+  const selectByMonth = (year: number, month: number) => RecordStore.selectByMonth(recordStore, year, month);
+
+  const selectByRange = (startDate: string, endDate: string) =>
+    RecordStore.selectByRange(recordStore, startDate, endDate);
+
+  const selectIntakesByDate = (date: string) => DoseIntakes.forDate(intakes, date);
+
+  // Grava o total do dia a partir das tomadas registradas
+  const saveDaySummary = async (date: string, dayIntakes: DoseIntake[], notes?: string) => {
+    const summary = DoseIntakes.summarize(dayIntakes, planFor(date));
+    const existing = selectByDate(date);
+
+    if (dayIntakes.length === 0) {
+      if (existing?.id) {
+        await RecordsOutbox.enqueue({ type: 'delete', userId: user!.id, recordId: existing.id });
+      }
+      return summary;
+    }
+
+    const recordData = {
+      date,
+      capsules: summary.capsules,
+      time: summary.time,
+      notes: RecordMerger.mergeNotes(existing?.notes, notes),
+      completed: summary.completed,
+      // Registrado ou alterado depois que o dia terminou
+      edited_late: !!existing?.edited_late || date < LocalDate.today(),
+    };
+
+    if (existing?.id) {
+      await updateRecord(existing.id, recordData);
+    } else {
+      await createRecord(recordData);
+    }
+    return summary;
+  };
+
+  const backfillWindowDays = settings?.backfill_window_days ?? DEFAULT_BACKFILL_WINDOW_DAYS;
+
+  /**
+   * Dias que ainda aceitam registro: hoje e a janela de dias anteriores
+   */
+  const canLogDate = (date: string) => {
+    const daysAgo = LocalDate.daysBetween(date, LocalDate.today());
+    return daysAgo >= 0 && daysAgo <= backfillWindowDays;
+  };
+
+  const logIntake = async (date: string, dose: DoseInput): Promise<DaySummary> => {
+    if (!user) throw new Error('No authenticated user');
+    if (!canLogDate(date)) throw new Error('Date is outside the backfill window');
+
+    try {
+      console.log(`💊 [RecordsContext] Logging ${dose.capsules} capsules for ${date}`);
+
+      const intake = {
+        user_id: user.id,
+        date,
+        capsules: dose.capsules,
+        time: dose.time,
+        taken_at: new Date().toISOString(),
+        notes: dose.notes || '',
+      };
+      const queued = await RecordsOutbox.enqueue({
+        type: 'create',
+        entity: 'intake',
+        userId: user.id,
+        recordId: RecordsOutbox.createLocalId(),
+        date,
+        intake,
+      });
+
+      const dayIntakes = [
+        ...selectIntakesByDate(date),
+        { ...intake, id: queued.recordId, created_at: queued.createdAt, updated_at: queued.createdAt },
+      ];
+      const summary = await saveDaySummary(date, dayIntakes, dose.notes);
+
+      console.log(`✅ [RecordsContext] Dose ${summary.doses} queued for ${date} (${summary.capsules} capsules)`);
+      return summary;
+    } catch (error) {
+      console.error('❌ [RecordsContext] Error logging intake:', error);
+      throw error;
+    }
+  };
+
+  const removeIntake = async (intakeId: string) => {
+    if (!user) throw new Error('No authenticated user');
+
+    const intake = intakes.find(i => i.id === intakeId);
+    if (!intake) return;
+    if (!canLogDate(intake.date)) throw new Error('Date is outside the backfill window');
+
+    try {
+      console.log(`🗑️ [RecordsContext] Removing intake ${intakeId}`);
+
+      await RecordsOutbox.enqueue({
+        type: 'delete',
+        entity: 'intake',
+        userId: user.id,
+        recordId: intakeId,
+        date: intake.date,
+      });
+
+      const remaining = selectIntakesByDate(intake.date).filter(i => i.id !== intakeId);
+      await saveDaySummary(intake.date, remaining);
+    } catch (error) {
+      console.error('❌ [RecordsContext] Error removing intake:', error);
+      throw error;
+    }
+  };
+
   const getRecordByDate = async (date: string): Promise<DailyRecord | null> => {
     if (!user) return null;
     
     try {
       console.log(`🔍 [RecordsContext] Searching record for ${date}`);
       
-      // First try to find in loaded records
-      const existingRecord = records.find(r => r.date === date);
+      // First try to find in loaded records (including pending offline writes)
+      const existingRecord = selectByDate(date);
       if (existingRecord) {
         console.log(`✅ [RecordsContext] Record found locally for ${date}`);
         return existingRecord;
@@ -149,34 +365,80 @@ export const FirebaseRecordsProvider: React.FC<{ children: React.ReactNode }> =
       setLoading(true);
       console.log(`🔄 [RecordsContext] Manually refreshing records`);
       
-      const freshRecords = await SupabaseService.getDailyRecords(user.id);
-      
-      setRecords(freshRecords);
+      await subscriptionRef.current?.reconcile();
       setError(null);
-      setSyncStatus('synced');
       
-      console.log(`✅ [RecordsContext] Records refreshed: ${freshRecords.length} records`);
+      console.log(`✅ [RecordsContext] Records refreshed`);
     } catch (error) {
       setError('Failed to refresh records');
-      setSyncStatus('error');
       console.error('❌ [RecordsContext] Error refreshing records:', error);
     } finally {
       setLoading(false);
     }
   };
 
+  const retrySync = async () => {
+    if (!user) return;
+
+    console.log(`🔄 [RecordsContext] Manual sync retry requested`);
+    await RecordsOutbox.flush(user.id);
+  };
+
+  // O usuário já viu que algumas alterações foram recusadas pelo servidor
+  const dismissRejected = async () => {
+    if (!user) return;
+
+    await RecordsOutbox.dismissRejected(user.id);
+  };
+
+  const resolveConflict = async (conflictId: string, choice: ConflictChoice) => {
+    if (!user) return;
+
+    const conflict = conflicts.find(c => c.id === conflictId);
+    if (!conflict) return;
+
+    console.log(`🔀 [RecordsContext] Resolving conflict for ${conflict.date} with "${choice}"`);
+    const resolution = RecordMerger.resolve(conflict, choice);
+    if (resolution && conflict.remote.id) {
+      await RecordsOutbox.enqueue({
+        type: 'update',
+        userId: user.id,
+        recordId: conflict.remote.id,
+        date: conflict.date,
+        payload: resolution,
+        baseUpdatedAt: conflict.merged.updated_at,
+      });
+    }
+    await RecordsOutbox.dismissConflict(user.id, conflictId);
+  };
+
   return (
     <FirebaseRecordsContext.Provider
       value={{
         records,
+        intakes,
         loading,
         error,
         syncStatus,
+        pendingCount,
+        rejectedCount,
+        conflicts,
         createRecord,
         updateRecord,
         deleteRecord,
         getRecordByDate,
+        selectByDate,
+        selectByMonth,
+        selectByRange,
+        selectIntakesByDate,
+        backfillWindowDays,
+        canLogDate,
+        logIntake,
+        removeIntake,
         refreshRecords,
+        retrySync,
+        dismissRejected,
+        resolveConflict,
       }}
     >
       {children}
@@ -190,4 +452,4 @@ export const useFirebaseRecords = () => {
     throw new Error('useFirebaseRecords must be used within a FirebaseRecordsProvider');
   }
   return context;
-};
\ No newline at end of file
+};
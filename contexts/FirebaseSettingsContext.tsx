@@ -1,12 +1,21 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SupabaseService } from '@/services/SupabaseService';
 import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
 import { UserSettings } from '@/types/database';
+import { LocalDate } from '@/utils/LocalDate';
+
+const TRAVEL_DISMISSED_KEY = 'timezone_travel_dismissed';
 
 interface FirebaseSettingsContextData {
   settings: UserSettings | null;
   loading: boolean;
   error: string | null;
+  timeZone: string;
+  deviceTimeZone: string;
+  travelTimeZone: string | null;
+  dismissTravelTimeZone: () => Promise<void>;
   updateSettings: (updates: Partial<UserSettings>) => Promise<void>;
   refreshSettings: () => Promise<void>;
 }
@@ -16,12 +25,33 @@ const FirebaseSettingsContext = createContext<FirebaseSettingsContextData>({} as
 export const FirebaseSettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useFirebaseAuth();
   const [settings, setSettings] = useState<UserSettings | null>(null);
+  // Última versão gravada, para que atualizações seguidas não partam de um render antigo
+  const settingsRef = useRef<UserSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [deviceTimeZone, setDeviceTimeZone] = useState(LocalDate.deviceTimeZone());
+  const [dismissedTravelZone, setDismissedTravelZone] = useState<string | null>(null);
+
+  // O fuso do aparelho muda quando o usuário viaja; confere ao voltar para o app
+  useEffect(() => {
+    AsyncStorage.getItem(TRAVEL_DISMISSED_KEY).then(setDismissedTravelZone);
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') setDeviceTimeZone(LocalDate.deviceTimeZone());
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Fuso usado para os limites do dia em todo o app
+  const applySettings = (next: UserSettings | null) => {
+    LocalDate.setTimeZone(next?.timezone);
+    settingsRef.current = next;
+    setSettings(next);
+  };
 
   useEffect(() => {
     if (!user) {
-      setSettings(null);
+      applySettings(null);
       setLoading(false);
       return;
     }
@@ -38,7 +68,7 @@ export const FirebaseSettingsProvider: React.FC<{ children: React.ReactNode }> =
       console.log(`⚙️ [SettingsContext] Fetching settings from Supabase`);
       
       const userSettings = await SupabaseService.getUserSettings(user.id);
-      setSettings(userSettings);
+      applySettings(userSettings);
       setError(null);
       
       console.log(`✅ [SettingsContext] Settings loaded successfully`);
@@ -57,7 +87,8 @@ export const FirebaseSettingsProvider: React.FC<{ children: React.ReactNode }> =
       console.log(`⚙️ [SettingsContext] Updating settings:`, updates);
       
       await SupabaseService.updateUserSettings(user.id, updates);
-      setSettings(prev => prev ? { ...prev, ...updates } : null);
+      const current = settingsRef.current;
+      applySettings(current ? { ...current, ...updates } : null);
       
       console.log(`✅ [SettingsContext] Settings updated successfully`);
     } catch (error) {
@@ -66,6 +97,18 @@ export const FirebaseSettingsProvider: React.FC<{ children: React.ReactNode }> =
     }
   };
 
+  const dismissTravelTimeZone = async () => {
+    setDismissedTravelZone(deviceTimeZone);
+    await AsyncStorage.setItem(TRAVEL_DISMISSED_KEY, deviceTimeZone);
+  };
+
+  // Fuso fixo diferente do aparelho: provavelmente o usuário está viajando
+  const travelTimeZone = settings?.timezone &&
+    settings.timezone !== deviceTimeZone &&
+    dismissedTravelZone !== deviceTimeZone
+      ? deviceTimeZone
+      : null;
+
   const refreshSettings = async () => {
     console.log(`🔄 [SettingsContext] Manual settings refresh requested`);
     await loadSettings();
@@ -77,6 +120,10 @@ export const FirebaseSettingsProvider: React.FC<{ children: React.ReactNode }> =
         settings,
         loading,
         error,
+        timeZone: settings?.timezone || deviceTimeZone,
+        deviceTimeZone,
+        travelTimeZone,
+        dismissTravelTimeZone,
         updateSettings,
         refreshSettings,
       }}
@@ -1,14 +1,27 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useFirebaseRecords } from '@/contexts/FirebaseRecordsContext';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
+import { DoseIntakes } from '@/utils/DoseIntakes';
+import { DoseSchedule } from '@/utils/DoseSchedule';
+import { GoalProgress, GoalAttainment } from '@/utils/GoalProgress';
+import { LocalDate } from '@/utils/LocalDate';
+import { StreakEngine, StreakSummary } from '@/utils/StreakEngine';
 
 interface Stats {
   totalDays: number;
+  onTimeDays: number;
+  backfilledDays: number;
   currentStreak: number;
+  longestStreak: number;
+  streaks: StreakSummary;
   averageCapsules: number;
   completionRate: number;
   totalCapsules: number;
+  totalDoses: number;
   monthlyProgress: number;
   completedDaysThisMonth: number;
+  goals: GoalAttainment;
 }
 
 interface FirebaseStatsContextData {
@@ -20,77 +33,101 @@ interface FirebaseStatsContextData {
 const FirebaseStatsContext = createContext<FirebaseStatsContextData>({} as FirebaseStatsContextData);
 
 export const FirebaseStatsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { records } = useFirebaseRecords();
+  const { records, intakes } = useFirebaseRecords();
+  const { schedule, planFor } = useSchedule();
+  const { settings, timeZone } = useFirebaseSettings();
   const [stats, setStats] = useState<Stats>({
     totalDays: 0,
+    onTimeDays: 0,
+    backfilledDays: 0,
     currentStreak: 0,
+    longestStreak: 0,
+    streaks: { current: 0, longest: 0, history: [], freezeDaysUsedThisMonth: 0, freezeDaysPerMonth: 0 },
     averageCapsules: 0,
     completionRate: 0,
     totalCapsules: 0,
+    totalDoses: 0,
     monthlyProgress: 0,
     completedDaysThisMonth: 0,
+    goals: GoalProgress.attainment({}, LocalDate.today(), {}),
   });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     calculateStats();
-  }, [records]);
+  }, [records, intakes, schedule, settings?.daily_goal, settings?.weekly_goal, settings?.streak_freeze_days, settings?.count_backfilled_days, timeZone]);
 
   const calculateStats = () => {
     setLoading(true);
     
     try {
-      // Garantir que records estão ordenados
-      const sortedRecords = [...records].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      
-      const completedRecords = records.filter(r => r.completed);
-      const totalDays = completedRecords.length;
-      const totalCapsules = completedRecords.reduce((sum, r) => sum + r.capsules, 0);
-      const averageCapsules = totalDays > 0 ? totalCapsules / totalDays : 0;
-
-      // Calculate current streak
-      let currentStreak = 0;
-      const streakRecords = completedRecords
-        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-      const today = new Date().toISOString().split('T')[0];
-      for (let i = 0; i < streakRecords.length; i++) {
-        const recordDate = streakRecords[i].date;
-        const expectedDate = new Date();
-        expectedDate.setDate(expectedDate.getDate() - i);
-        const expectedDateStr = expectedDate.toISOString().split('T')[0];
-
-        if (recordDate === expectedDateStr) {
-          currentStreak++;
-        } else {
-          break;
-        }
-      }
-
-      // Calculate completion rate (last 30 days)
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      
-      const last30DaysRecords = sortedRecords.filter(r => {
-        const recordDate = new Date(r.date);
-        return recordDate >= thirtyDaysAgo;
+      // Cápsulas calculadas a partir das tomadas de cada dia
+      const capsulesByDate = DoseIntakes.capsulesByDate(records, intakes);
+      const loggedDays = Object.keys(capsulesByDate).length;
+      const totalCapsules = Object.values(capsulesByDate).reduce((sum, capsules) => sum + capsules, 0);
+      const averageCapsules = loggedDays > 0 ? totalCapsules / loggedDays : 0;
+      const totalDoses = intakes.length;
+
+      // Dias registrados depois de terminados só contam se o usuário permitir
+      const backfilled = new Set(records.filter(r => r.edited_late).map(r => r.date));
+      const countBackfilled = settings?.count_backfilled_days !== false;
+
+      // Um dia conta como completo quando alcança a quantidade prevista no esquema
+      const isComplete = (date: string) =>
+        (countBackfilled || !backfilled.has(date)) &&
+        DoseSchedule.isDayComplete(planFor(date), capsulesByDate[date] || 0);
+      const completedDates = Object.keys(capsulesByDate).filter(isComplete);
+      const totalDays = completedDates.length;
+      const backfilledDays = completedDates.filter(date => backfilled.has(date)).length;
+      const onTimeDays = totalDays - backfilledDays;
+
+      const today = LocalDate.today();
+
+      // Sequências: hoje ainda não quebra, pausas e congelamentos não interrompem
+      const streaks = StreakEngine.compute({
+        completedDates,
+        today,
+        isComplete,
+        isRestDay: (date) => planFor(date).isRestDay,
+        freezeDaysPerMonth: settings?.streak_freeze_days,
       });
-      
-      const completedLast30Days = last30DaysRecords.filter(r => r.completed).length;
-      const completionRate = (completedLast30Days / 30) * 100;
+
+      // Calculate completion rate (last 30 days, scheduled days only)
+      let scheduledLast30Days = 0;
+      let completedLast30Days = 0;
+      for (let i = 0; i < 30; i++) {
+        const dateStr = LocalDate.addDays(today, -i);
+        if (planFor(dateStr).isRestDay) continue;
+
+        scheduledLast30Days++;
+        if (isComplete(dateStr)) completedLast30Days++;
+      }
+      const completionRate = scheduledLast30Days > 0 ? (completedLast30Days / scheduledLast30Days) * 100 : 0;
 
       // Monthly progress
       const monthlyProgress = completionRate;
       const completedDaysThisMonth = completedLast30Days;
 
+      // Metas diária e semanal definidas nas configurações
+      const goals = GoalProgress.attainment(capsulesByDate, today, {
+        dailyGoal: settings?.daily_goal,
+        weeklyGoal: settings?.weekly_goal,
+      });
+
       const newStats = {
         totalDays,
-        currentStreak,
+        onTimeDays,
+        backfilledDays,
+        currentStreak: streaks.current,
+        longestStreak: streaks.longest,
+        streaks,
         averageCapsules,
         completionRate,
         totalCapsules,
+        totalDoses,
         monthlyProgress,
         completedDaysThisMonth,
+        goals,
       };
 
 
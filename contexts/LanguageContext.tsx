@@ -352,7 +352,7 @@ const translations = {
     'aboutMaxTestorinTitle': 'Sobre o MaxTestorin',
     'aboutMaxTestorinDescription': 'O MaxTestorin é um suplemento nutracêutico em gotas desenvolvido para apoiar o bem-estar masculino. Cada gota contém ingredientes naturais cuidadosamente selecionados para máxima eficácia.',
     'privacyPolicyTitle': 'Política de Privacidade',
-    'privacyPolicyDescription': 'Sua privacidade é nossa prioridade. Este aplicativo foi desenvolvido com foco na proteção dos seus dados pessoais:\n\n• Todos os dados são armazenados LOCALMENTE no seu dispositivo\n• Nenhuma informação é enviada para servidores externos\n• Não coletamos dados pessoais ou de uso\n• Não compartilhamos informações com terceiros\n• Você tem controle total sobre seus dados\n• Pode exportar ou excluir seus dados a qualquer momento\n\nSeus registros de uso do MaxTestorin permanecem privados e seguros em seu dispositivo.',
+    'privacyPolicyDescription': 'Sua privacidade é nossa prioridade. Este aplicativo foi desenvolvido com foco na proteção dos seus dados pessoais:\n\n• Todos os dados são armazenados LOCALMENTE no seu dispositivo\n• Nenhuma informação é enviada para servidores externos\n• Não coletamos dados pessoais ou de uso\n• Não compartilhamos informações com terceiros\n• Você tem controle total sobre seus dados\n• Pode exportar seus dados ou excluir a conta a qualquer momento; a exclusão se torna definitiva {days} dias após o pedido\n\nSeus registros de uso do MaxTestorin permanecem privados e seguros em seu dispositivo.',
     'close': 'Fechar',
     
     // Help and Support
@@ -381,6 +381,7 @@ const translations = {
     'enterValidCapsules': 'Por favor, insira uma quantidade válida de cápsulas.',
     'enterTime': 'Por favor, insira o horário do uso.',
     'couldNotSaveRecord': 'Não foi possível salvar o registro.',
+    'couldNotRemoveDose': 'Não foi possível remover a dose.',
     'couldNotUpdateCompletion': 'Não foi possível atualizar o registro.',
     'couldNotRemoveData': 'Não foi possível remover os dados.',
     'allDataRemoved': 'Todos os dados foram removidos.',
@@ -471,6 +472,433 @@ const translations = {
     'watchLater': 'Assistir Depois',
     'welcomeTutorial': 'Tutorial de Boas-Vindas',
     'loadingVideo': 'Carregando vídeo...',
+    
+    // Offline sync
+    'syncing': 'Sincronizando...',
+    'syncError': 'Erro de sincronização. Toque para tentar novamente',
+    'pendingChanges': '{count} alteração(ões) aguardando conexão',
+    'syncRejected': '{count} alteração(ões) recusada(s). Toque para ver',
+    'syncRejectedTitle': 'Alterações não salvas',
+    'syncRejectedMessage': 'O servidor recusou {count} alteração(ões) feita(s) offline e elas foram descartadas. Confira os registros desses dias e registre de novo se precisar.',
+    
+    // Conflict resolution
+    'conflictTitle': 'Registro alterado em outro aparelho',
+    'conflictDescription': 'O registro de {date} foi alterado em outro aparelho enquanto você estava offline. Qual versão deseja manter?',
+    'conflictThisDevice': 'Este aparelho',
+    'conflictOtherDevice': 'Outro aparelho',
+    'conflictCapsules': '{count} cápsula(s)',
+    'conflictKeepMine': 'Manter a minha',
+    'conflictKeepOther': 'Manter a outra',
+    'conflictKeepMerged': 'Manter mesclado ({count} cápsula(s))',
+    
+    // Dose intakes
+    'doseOf': 'Dose {current} de {total}',
+    'logDoseOf': 'Registrar dose {current} de {total}',
+    'dosesTakenToday': '{taken} de {total} doses tomadas hoje',
+    'doseLogged': 'Dose {current} de {total} registrada.',
+    'doseSaved': 'Dose registrada',
+    'todayDoses': 'Doses de hoje',
+    
+    // Dosing schedule
+    'dosingSchedule': 'Esquema de doses',
+    'dosingScheduleDescription': 'Fases, ciclos e doses por dia da semana',
+    'dosingScheduleSubtitle': 'Seu esquema personalizado',
+    'dosingScheduleDefault': 'Baseado nas suas metas',
+    'scheduleRegimen': 'Tratamento',
+    'scheduleName': 'Nome do esquema (opcional)',
+    'scheduleStartDate': 'Data de início (AAAA-MM-DD)',
+    'schedulePhase': 'Fase {number}',
+    'schedulePhaseName': 'Nome da fase (ex.: adaptação)',
+    'scheduleDurationDays': 'Duração (dias)',
+    'scheduleDaysOn': 'Dias com dose',
+    'scheduleDaysOff': 'Dias de pausa',
+    'scheduleEveryDay': 'Todos os dias',
+    'scheduleCustomizeDay': 'Personalizar este dia',
+    'scheduleUseRegularDays': 'Usar dias regulares',
+    'scheduleAddDose': 'Adicionar dose',
+    'scheduleAddPhase': 'Adicionar fase',
+    'scheduleReset': 'Restaurar padrão',
+    'scheduleResetMessage': 'O esquema personalizado será removido e as metas voltarão a definir suas doses.',
+    'scheduleSaved': 'Esquema salvo',
+    'scheduleSavedMessage': 'Seu esquema de doses foi atualizado.',
+    'scheduleSaveError': 'Não foi possível salvar o esquema.',
+    'scheduleInvalidStartDate': 'Informe a data de início no formato AAAA-MM-DD.',
+    'scheduleInvalidDuration': 'Apenas a última fase pode ficar sem duração.',
+    'scheduleInvalidTime': 'Informe os horários no formato HH:MM.',
+    'restDay': 'Dia de pausa',
+    'sundayShort': 'Dom',
+    'mondayShort': 'Seg',
+    'tuesdayShort': 'Ter',
+    'wednesdayShort': 'Qua',
+    'thursdayShort': 'Qui',
+    'fridayShort': 'Sex',
+    'saturdayShort': 'Sáb',
+    
+    // Goals
+    'dailyGoalValue': '{count} cápsulas por dia',
+    'weeklyGoalValue': '{count} cápsulas por semana',
+    'dailyGoalDescription': 'Quantas cápsulas você quer tomar por dia. Também define o esquema padrão de doses.',
+    'weeklyGoalDescription': 'Total de cápsulas que você quer tomar de segunda a domingo.',
+    'dosesPerDay': 'Doses por dia',
+    'dosesPerDayValue': '{count} doses por dia',
+    'dosesPerDayDescription': 'Em quantas tomadas a meta diária é dividida, no máximo uma por cápsula. Um esquema de doses personalizado tem prioridade.',
+    'dosesUnit': 'doses',
+    'goalOutOfRange': 'Escolha um valor entre {min} e {max}.',
+    'goalSaveError': 'Não foi possível salvar a meta.',
+    'goalMet': 'Meta alcançada',
+    'goalNotMetYet': 'Ainda não alcançada',
+    'weeklyGoalSummary': '{count} de {goal} cápsulas nesta semana',
+    'goalAttainment': 'Metas',
+    'dailyGoalDaysMet': 'dias com a meta diária',
+    'weeklyGoalWeeksMet': '{count} de {total} semanas na meta',
+    
+    // Dose reminders
+    'reminderTitle': 'Hora da sua dose 💊',
+    'reminderBody': 'Tome {count} cápsula(s) de Max Testorin.',
+    'reminderSnooze': 'Lembrar em {minutes} min',
+    'reminderSnoozed': 'Lembrete adiado',
+    'reminderSnoozedMessage': 'Vamos lembrar você novamente em {minutes} minutos.',
+    'snoozeReminder': 'Adiar lembrete',
+    'snoozeReminderDescription': 'Lembrar da próxima dose em {minutes} minutos',
+    'remindersScheduled': '{count} lembretes agendados para os próximos dias',
+    'notificationPermissionDenied': 'Permita notificações nas configurações do aparelho para receber lembretes.',
+    
+    // Time zone
+    'timezone': 'Fuso horário',
+    'timezoneDescription': 'Define quando cada dia começa e termina. No modo automático, o app segue o fuso do aparelho.',
+    'timezoneAutomatic': 'Automático',
+    'timezoneFixed': 'Fixo em {zone}',
+    'timezoneSaveError': 'Não foi possível salvar o fuso horário.',
+    'timezoneTravelBanner': 'Você está em {zone}. Toque para ajustar seus dias.',
+    'timezoneTravelTitle': 'Novo fuso horário',
+    'timezoneTravelMessage': 'Seu aparelho está em {device}, mas seus dias são contados em {current}. Qual fuso usar a partir de agora?',
+    'timezoneKeep': 'Manter {zone}',
+    'timezoneSwitch': 'Usar {zone}',
+    
+    // Streaks
+    'streaks': 'Sequências',
+    'longestStreak': 'Maior sequência',
+    'streakHistory': 'Histórico de sequências',
+    'today': 'Hoje',
+    'frozenDays': '{count} dia(s) congelado(s)',
+    'freezeDaysUsed': '{used} de {total} congelamentos este mês',
+    'streakFreezeDays': 'Dias de congelamento',
+    'streakFreezeValue': '{count} por mês',
+    'streakFreezeDescription': 'Quantos dias perdidos por mês não quebram sua sequência. Dias de pausa do esquema nunca quebram.',
+    
+    // Registro atrasado
+    'backfillWindow': 'Registro atrasado',
+    'backfillWindowValue': 'Até {count} dias atrás',
+    'backfillWindowDescription': 'Por quantos dias depois você ainda pode registrar ou corrigir as tomadas de um dia que passou.',
+    'countBackfilledDays': 'Contar dias registrados depois',
+    'countBackfilledDaysDescription': 'Incluir nas sequências e estatísticas os dias registrados depois de terminados',
+    'loggingForDate': 'Registrando {date} (registro atrasado)',
+    'dayDoses': 'Doses do dia',
+    'outsideBackfillWindow': 'Este dia está fora da janela de registro atrasado.',
+    'outsideBackfillWindowTitle': 'Registro indisponível',
+    'outsideBackfillWindowMessage': 'Só é possível registrar até {days} dias atrás. Você pode alterar isso nas configurações.',
+    'loggedLate': 'Registrado depois',
+    'onTimeLogs': 'No dia',
+    'onTimeLogsSubtitle': 'dias registrados no dia',
+    'lateLogs': 'Atrasados',
+    'lateLogsSubtitle': 'dias registrados depois',
+    
+    // Backup e restauração
+    'cloudBackupTitle': '☁️ Backup na nuvem',
+    'cloudBackupDescription': 'Seus registros, perfil e configurações ficam salvos na sua conta. A exportação gera um arquivo com esses dados, que pode ser restaurado em qualquer aparelho.',
+    'importPreviewTitle': 'Prévia da importação',
+    'importBackupFrom': 'Backup de {date}',
+    'importModeMerge': 'Mesclar',
+    'importModeMergeDescription': 'Mantém os dados atuais e adiciona ou atualiza os dias do backup',
+    'importModeReplace': 'Substituir',
+    'importModeReplaceDescription': 'Apaga os registros atuais e restaura exatamente o backup',
+    'importNewDays': 'Dias novos',
+    'importUpdatedDays': 'Dias alterados',
+    'importRemovedDays': 'Dias removidos',
+    'importNewDoses': 'Doses novas',
+    'importRemovedDoses': 'Doses removidas',
+    'importProfileChanges': 'Campos do perfil alterados',
+    'importSettingsChanges': 'Configurações alteradas',
+    'importMoreDates': 'e mais {count}',
+    'importNothingToChange': 'O backup é igual aos seus dados atuais.',
+    'importReplaceConfirm': '{count} dias que não estão no backup serão apagados permanentemente. Continuar?',
+    'confirmImport': 'Importar',
+    'importSuccess': 'Importação concluída: {added} dias novos, {updated} alterados e {removed} removidos.',
+    
+    // Versões de backup
+    'importRejectedTitle': 'Backup não importado',
+    'importRejectedMessage': 'O arquivo não pôde ser importado:',
+    'importUpgraded': 'Backup atualizado da versão {from} para {to}',
+    
+    // Backup cifrado
+    'exportBackupTitle': 'Exportar backup',
+    'exportBackupMessage': 'Proteja o arquivo com uma senha para que só você consiga abri-lo. Credenciais de login nunca são incluídas.',
+    'exportPlain': 'Sem senha',
+    'exportEncrypted': 'Com senha',
+    'encryptBackupTitle': 'Proteger backup',
+    'encryptBackupDescription': 'Escolha uma senha para cifrar o backup. Sem ela não será possível restaurar o arquivo.',
+    'unlockBackupTitle': 'Backup protegido',
+    'unlockBackupDescription': 'Este backup está cifrado. Digite a senha usada na exportação.',
+    'unlockBackup': 'Abrir',
+    'passphrase': 'Senha',
+    'confirmPassphrase': 'Repita a senha',
+    'passphraseTooShort': 'A senha precisa ter pelo menos {min} caracteres',
+    'passphraseMismatch': 'As senhas não conferem',
+    'wrongPassphrase': 'Senha incorreta ou arquivo danificado',
+    'processing': 'Processando...',
+    
+    // Exportação em planilha
+    'exportCsv': 'Exportar planilha (CSV)',
+    'exportCsvDescription': 'Tabela de tomadas para compartilhar com seu médico',
+    'exportCsvRangeDescription': 'Escolha o período a exportar. A planilha terá data, horário, cápsulas, se o dia foi completado e observações.',
+    'exportCsvShare': 'Exportar',
+    'csvDate': 'Data',
+    'csvTime': 'Horário',
+    'csvCapsules': 'Cápsulas',
+    'csvCompleted': 'Completado',
+    'csvNotes': 'Observações',
+    'csvNoRecords': 'Nenhum registro no período escolhido.',
+    'csvExportFailed': 'Não foi possível exportar a planilha. Tente novamente.',
+    'rangeLast30Days': 'Últimos 30 dias',
+    'rangeLast90Days': 'Últimos 90 dias',
+    'rangeThisYear': 'Este ano',
+    'rangeAllTime': 'Tudo',
+    'rangeStart': 'De',
+    'rangeEnd': 'Até',
+    'invalidDateRange': 'Informe datas válidas (AAAA-MM-DD), com o início antes do fim',
+    
+    // Relatório para o médico
+    'clinicianReport': 'Relatório para o médico',
+    'clinicianReportDescription': 'Gere um PDF com sua adesão, calendário, sequências e observações para levar à consulta.',
+    'clinicianReportRangeDescription': 'Escolha o período que o relatório deve cobrir.',
+    'generateReport': 'Gerar relatório',
+    'reportFailed': 'Não foi possível gerar o relatório. Tente novamente.',
+    'reportTitle': 'Relatório de progresso do tratamento',
+    'reportGenerated': 'Gerado em {date} pelo MaxTestorin',
+    'reportProfile': 'Paciente',
+    'reportSummary': 'Resumo do período',
+    'reportPatient': 'Nome',
+    'reportAge': 'Idade',
+    'reportTreatmentStart': 'Início do tratamento',
+    'reportPeriod': 'Período',
+    'reportAdherence': 'Adesão',
+    'reportCompletedDays': 'Dias completos',
+    'reportPartialDays': 'Dias parciais',
+    'reportMissedDays': 'Dias perdidos',
+    'reportTotalCapsules': 'Cápsulas',
+    'reportAveragePerDay': 'Média por dia registrado',
+    'reportCurrentStreak': 'Sequência atual',
+    'reportLongestStreak': 'Maior sequência',
+    'reportLateLogs': 'Registros tardios',
+    'reportMonthlyBreakdown': 'Adesão por mês',
+    'reportMonth': 'Mês',
+    'reportCalendar': 'Calendário',
+    'reportLegendComplete': 'Completo',
+    'reportLegendPartial': 'Parcial',
+    'reportLegendMissed': 'Perdido',
+    'reportLegendRest': 'Pausa',
+    'reportNotes': 'Observações',
+    'reportNoNotes': 'Nenhuma observação no período.',
+    'reportDisclaimer': 'Dados registrados pelo próprio paciente no aplicativo. Dias de pausa não contam na adesão.',
+    
+    // Importação de CSV
+    'back': 'Voltar',
+    'csvImportTitle': 'Importar CSV',
+    'csvImportSubtitle': 'Trazer histórico de planilhas ou outros apps',
+    'csvImportDescription': 'Indique qual coluna do arquivo corresponde a cada informação. Nada é gravado antes da confirmação.',
+    'csvFieldDate': 'Data',
+    'csvFieldCapsules': 'Cápsulas',
+    'csvFieldTime': 'Horário',
+    'csvFieldNotes': 'Observações',
+    'csvFieldCompleted': 'Concluído',
+    'csvColumnNone': 'Não está no arquivo',
+    'csvColumnFallback': 'Coluna {n}',
+    'csvSample': 'Ex.: {value}',
+    'csvDateFormat': 'Formato das datas',
+    'csvFormatIso': 'AAAA-MM-DD',
+    'csvFormatDmy': 'DD/MM/AAAA',
+    'csvFormatMdy': 'MM/DD/AAAA',
+    'csvDateAmbiguous': 'Não foi possível identificar o formato pelas datas do arquivo. Confira se está correto.',
+    'csvNoCapsulesColumn': 'Sem coluna de cápsulas, cada linha conta como a dose prevista para o dia.',
+    'csvCheckFile': 'Verificar arquivo',
+    'csvPreviewDescription': 'Resultado da verificação. Confirme para gravar os dias novos e alterados.',
+    'csvPreviewRows': 'Linhas no arquivo',
+    'csvPreviewAdded': 'Dias novos',
+    'csvPreviewUpdated': 'Dias que serão alterados',
+    'csvPreviewUnchanged': 'Já estão iguais',
+    'csvPreviewSkipped': 'Ignorados (doses registradas no app)',
+    'csvPreviewIssues': 'Linhas com problemas',
+    'csvIssueRow': 'Linha {row}: {problem} "{value}"',
+    'csvIssueInvalidDate': 'data inválida',
+    'csvIssueFutureDate': 'data no futuro',
+    'csvIssueDuplicateDate': 'data repetida no arquivo',
+    'csvIssueInvalidCapsules': 'quantidade de cápsulas inválida',
+    'csvIssueInvalidTime': 'horário inválido',
+    'csvIssueInvalidCompleted': 'valor de concluído não reconhecido',
+    'csvImportConfirm': 'Importar {count} dias',
+    'csvImportDone': '{count} dias importados.',
+    'csvImportFailed': 'Não foi possível importar o arquivo. Tente novamente.',
+    'csvReadFailed': 'Não foi possível ler o arquivo CSV.',
+    'csvEmptyFile': 'O arquivo não tem linhas para importar.',
+    
+    // Backups automáticos
+    'snapshotsTitle': 'Backups automáticos',
+    'snapshotsDescription': 'Cópias cifradas criadas automaticamente neste aparelho. Só podem ser restauradas aqui; para trocar de aparelho use a exportação.',
+    'snapshotFrequency': 'Frequência',
+    'snapshotFrequencyOff': 'Desligado',
+    'snapshotFrequencyDaily': 'Diário',
+    'snapshotFrequencyWeekly': 'Semanal',
+    'snapshotRetention': 'Quantidade de cópias mantidas',
+    'snapshotsEmpty': 'Nenhum backup automático ainda.',
+    'snapshotCreateNow': 'Criar backup agora',
+    'snapshotCreateFailed': 'Não foi possível criar o backup.',
+    'snapshotRestoreFailed': 'Não foi possível abrir este backup.',
+    'snapshotDeleteTitle': 'Excluir backup',
+    'snapshotDeleteMessage': 'Este backup será apagado do aparelho.',
+    
+    // Verificação de integridade
+    'integrityTitle': 'Verificar dados',
+    'integritySubtitle': 'Procurar e corrigir registros inconsistentes',
+    'integrityNoIssues': 'Nenhum problema encontrado em {records} registros e {images} imagens.',
+    'integrityIssuesFound': '{count} problemas encontrados.',
+    'integrityInvalidDate': 'Data inválida "{value}"',
+    'integrityDuplicateDate': '{date}: {value} registros para o mesmo dia',
+    'integrityFutureDate': '{date}: registro em data futura',
+    'integrityNegativeCapsules': '{date}: quantidade de cápsulas inválida ({value})',
+    'integrityAbsurdCapsules': '{date}: {value} cápsulas em um dia',
+    'integrityMalformedTime': '{date}: horário inválido "{value}"',
+    'integrityCompletedMismatch': '{date}: dose do dia tomada mas não marcada como concluída',
+    'integrityOrphanedImage': 'Foto de perfil sem uso ({value})',
+    'integrityFixInvalidDate': 'Corrigir a data ou excluir o registro',
+    'integrityFixDuplicateDate': 'Manter o registro mais recente',
+    'integrityFixDelete': 'Excluir o registro',
+    'integrityFixCapsules': 'Usar as doses registradas ou a dose prevista',
+    'integrityFixTime': 'Usar um horário válido',
+    'integrityFixCompleted': 'Marcar o dia como concluído',
+    'integrityFixImage': 'Excluir a imagem',
+    'integrityFix': 'Corrigir',
+    'integrityFixAll': 'Corrigir tudo',
+    'integrityFixAllMessage': '{count} correções serão aplicadas aos seus dados na nuvem. Registros duplicados, futuros ou inválidos serão excluídos.',
+    'integrityScanFailed': 'Não foi possível verificar seus dados.',
+    'integrityRepairIncomplete': 'Algumas correções não puderam ser aplicadas.',
+    
+    // Uso de armazenamento
+    'usageDevice': 'Neste aparelho',
+    'usageTotal': 'Total',
+    'usagePending': 'Alterações aguardando sincronização',
+    'usagePreferences': 'Preferências',
+    'usageSession': 'Sessão',
+    'usageLegacy': 'Dados da versão antiga',
+    'usageOther': 'Outros',
+    'usageSnapshots': 'Backups automáticos ({count})',
+    'usageCaches': 'Cache e exportações ({count} arquivos)',
+    'usageCloud': 'Na nuvem',
+    'usageYear': '{records} dias · {doses} doses',
+    'usageRecordsTotal': 'Total',
+    'usageProfileImages': 'Fotos de perfil ({count})',
+    'usageCloudUnavailable': 'Não foi possível consultar a nuvem agora.',
+    'clearCachesTitle': 'Limpar cache local',
+    'clearCachesMessage': 'Arquivos temporários e exportações já compartilhadas serão apagados deste aparelho. Seus dados na nuvem, alterações pendentes e backups automáticos não são afetados.',
+    'clearCachesConfirm': 'Limpar',
+    'clearCachesDone': '{size} liberados.',
+    'clearCachesFailed': 'Não foi possível limpar o cache.',
+    
+    // Legacy data migration
+    'legacyMigrationTitle': 'Dados da versão anterior',
+    'legacyMigrationDescription': 'Encontramos dados salvos neste aparelho pela versão antiga do app. Deseja levá-los para a sua conta?',
+    'legacyMigrationDescriptionEmail': 'Encontramos dados salvos neste aparelho pela versão antiga do app ({email}). Deseja levá-los para a sua conta?',
+    'legacyMigrationRecords': '{count} dias registrados, de {first} a {last}',
+    'legacyMigrationProfile': 'Dados do perfil',
+    'legacyMigrationSettings': 'Lembrete e metas',
+    'legacyMigrationHint': 'Dias que já existem na sua conta não serão alterados. Você pode repetir a migração sem duplicar nada.',
+    'legacyMigrationFailed': 'Não foi possível migrar agora. Verifique a conexão; os dados continuam neste aparelho.',
+    'legacyMigrationConfirm': 'Migrar',
+    'legacyMigrationSkip': 'Manter no aparelho',
+    'legacyMigrationDoneTitle': 'Migração concluída',
+    'legacyMigrationDoneDescription': 'Seus dados antigos agora estão na sua conta:',
+    'legacyMigrationMigrated': '{count} dias adicionados',
+    'legacyMigrationSkipped': '{count} dias já existiam e foram mantidos',
+    'legacyMigrationInvalid': '{count} registros inválidos ignorados',
+    'legacyMigrationProfileFields': '{count} campos do perfil preenchidos',
+    'legacyMigrationSettingsFields': '{count} configurações atualizadas',
+    
+    // Password reset
+    'resetPasswordTitle': 'Redefinir senha',
+    'newPassword': 'Nova senha',
+    'updatePassword': 'Salvar nova senha',
+    'updatingPassword': 'Salvando...',
+    'passwordUpdated': 'Senha alterada',
+    'passwordUpdatedMessage': 'Sua nova senha já está valendo e você está conectado.',
+    'passwordUpdateFailed': 'Não foi possível alterar a senha. Tente novamente.',
+    'verifyingResetLink': 'Verificando o link de recuperação...',
+    'resetLinkInvalid': 'Link inválido ou expirado',
+    'resetLinkInvalidDescription': 'Peça um novo email de recuperação na tela de login.',
+    'passwordNeedsLowercase': 'Senha deve conter letras minúsculas',
+    'passwordStrengthWeak': 'Fraca',
+    'passwordStrengthMedium': 'Média',
+    'passwordStrengthStrong': 'Forte',
+    
+    // Passwordless sign-in
+    'signInWithEmailCode': 'Entrar com código por email',
+    'passwordlessTitle': 'Entrar sem senha',
+    'passwordlessDescription': 'Enviaremos um email com um link de acesso e um código de 6 dígitos.',
+    'sendSignInEmail': 'Enviar email de acesso',
+    'signInWithPassword': 'Entrar com senha',
+    'enterSignInCode': 'Digite o código',
+    'signInCodeSent': 'Enviamos um código para {email}. Digite-o abaixo.',
+    'signInCodeLength': 'O código tem {count} dígitos',
+    'signInCodeInvalid': 'Código inválido ou expirado',
+    'signInEmailError': 'Não foi possível enviar o email de acesso',
+    'verifyingCode': 'Verificando...',
+    'useAnotherEmail': 'Outro email',
+    'resendCodeIn': 'Reenviar em {seconds}s',
+    'magicLinkHint': 'Você também pode tocar no link do email neste aparelho.',
+    'signingInWithLink': 'Entrando com o link do email...',
+    'magicLinkInvalid': 'Link de acesso inválido',
+    'magicLinkInvalidDescription': 'O link expirou ou já foi usado. Peça um novo email de acesso na tela de login.',
+    
+    // Segurança da conta
+    'accountSecurity': 'Segurança da conta',
+    'accountSecurityDescription': 'Você entra com {email}. Para trocar o email ou a senha, confirme a senha atual.',
+    'pendingEmailChange': 'Troca para {email} aguardando confirmação. Abra o link enviado para os dois endereços.',
+    'changeEmail': 'Alterar email',
+    'changePassword': 'Alterar senha',
+    'changeEmailDescription': 'O email atual é {email}. A troca só vale depois que você confirmar pelo link enviado.',
+    'changePasswordDescription': 'Escolha uma nova senha. Ela passa a valer neste e nos outros aparelhos.',
+    'newEmail': 'Novo email',
+    'currentPassword': 'Senha atual',
+    'currentPasswordRequired': 'Informe a senha atual',
+    'currentPasswordWrong': 'Senha atual incorreta',
+    'newEmailSameAsCurrent': 'O novo email é igual ao atual',
+    'newPasswordSameAsCurrent': 'A nova senha precisa ser diferente da atual',
+    'emailChangeFailed': 'Não foi possível alterar o email. Tente novamente.',
+    'sendConfirmation': 'Enviar confirmação',
+    'emailChangeRequested': 'Confirme a troca',
+    'emailChangeRequestedMessage': 'Enviamos um link de confirmação para {email}. Confira também a caixa de entrada do email atual.',
+    'passwordChangedMessage': 'Use a nova senha na próxima vez que entrar.',
+    
+    // Exclusão da conta
+    'deleteAccount': 'Excluir conta',
+    'deleteMyAccount': 'Excluir minha conta',
+    'deleteAccountCardDescription': 'Apaga a conta e todos os seus dados. Você terá {days} dias para desistir.',
+    'deleteAccountDescription': 'Ao excluir a conta, serão apagados:',
+    'deleteAccountRecords': 'Registros diários e histórico de doses',
+    'deleteAccountProfile': 'Perfil, configurações e esquema de doses',
+    'deleteAccountPhotos': 'Fotos de perfil enviadas',
+    'deleteAccountLogin': 'Seu acesso com este email',
+    'deleteAccountGracePeriod': 'A exclusão acontece {days} dias depois do pedido. Para desistir, entre de novo no app com este email dentro desse prazo e toque em "Manter minha conta".',
+    'deleteAccountExportHint': 'Antes de continuar, você pode exportar uma cópia dos seus dados.',
+    'deleteAccountExport': 'Exportar meus dados',
+    'deleteAccountExported': 'Dados exportados',
+    'deleteAccountExportFailed': 'Não foi possível exportar os dados. Tente novamente.',
+    'deleteAccountConfirmDescription': 'Confirme com a senha atual para agendar a exclusão da conta.',
+    'deleteAccountFailed': 'Não foi possível agendar a exclusão. Tente novamente.',
+    'deleteAccountScheduled': 'Exclusão agendada',
+    'deleteAccountScheduledDescription': 'Sua conta e todos os dados serão apagados em {date}. Você será desconectado agora.',
+    'deleteAccountPendingDescription': 'Esta conta será excluída em {date}, junto com todos os dados. Você pode desistir até lá.',
+    'keepMyAccount': 'Manter minha conta',
+    'deletionCancelled': 'A exclusão foi cancelada. Sua conta continua ativa.',
+    'cancelDeletionFailed': 'Não foi possível cancelar a exclusão. Tente novamente.',
   },
   en: {
     // Common
@@ -808,7 +1236,7 @@ const translations = {
     'aboutMaxTestorinTitle': 'About MaxTestorin',
     'aboutMaxTestorinDescription': 'MaxTestorin is a nutraceutical supplement in drops developed to support male well-being. Each drop contains natural ingredients carefully selected for maximum efficacy.',
     'privacyPolicyTitle': 'Privacy Policy',
-    'privacyPolicyDescription': 'Your privacy is our priority. This application was developed with a focus on protecting your personal data:\n\n• All data is stored LOCALLY on your device\n• No information is sent to external servers\n• We do not collect personal or usage data\n• We do not share information with third parties\n• You have full control over your data\n• You can export or delete your data at any time\n\nYour MaxTestorin usage records remain private and secure on your device.',
+    'privacyPolicyDescription': 'Your privacy is our priority. This application was developed with a focus on protecting your personal data:\n\n• All data is stored LOCALLY on your device\n• No information is sent to external servers\n• We do not collect personal or usage data\n• We do not share information with third parties\n• You have full control over your data\n• You can export your data or delete your account at any time; deletion becomes permanent {days} days after the request\n\nYour MaxTestorin usage records remain private and secure on your device.',
     'close': 'Close',
     
     // Help and Support
@@ -837,6 +1265,7 @@ const translations = {
     'enterValidCapsules': 'Please enter a valid number of capsules.',
     'enterTime': 'Please enter the usage time.',
     'couldNotSaveRecord': 'Could not save the record.',
+    'couldNotRemoveDose': 'Could not remove the dose.',
     'couldNotUpdateCompletion': 'Could not update the record.',
     'couldNotRemoveData': 'Could not remove the data.',
     'allDataRemoved': 'All data has been removed.',
@@ -888,5 +1317,432 @@ const translations = {
     // Profile specific translations
     'cityAndState': 'City and State',
     'treatmentGoal': 'Treatment Goal',
+    
+    // Offline sync
+    'syncing': 'Syncing...',
+    'syncError': 'Sync error. Tap to retry',
+    'pendingChanges': '{count} change(s) waiting for connection',
+    'syncRejected': '{count} change(s) rejected. Tap for details',
+    'syncRejectedTitle': 'Changes not saved',
+    'syncRejectedMessage': 'The server rejected {count} change(s) made offline and they were discarded. Please check the records for those days and log them again if needed.',
+    
+    // Conflict resolution
+    'conflictTitle': 'Record changed on another device',
+    'conflictDescription': 'The record for {date} was changed on another device while you were offline. Which version do you want to keep?',
+    'conflictThisDevice': 'This device',
+    'conflictOtherDevice': 'Other device',
+    'conflictCapsules': '{count} capsule(s)',
+    'conflictKeepMine': 'Keep mine',
+    'conflictKeepOther': 'Keep other',
+    'conflictKeepMerged': 'Keep merged ({count} capsule(s))',
+    
+    // Dose intakes
+    'doseOf': 'Dose {current} of {total}',
+    'logDoseOf': 'Log dose {current} of {total}',
+    'dosesTakenToday': '{taken} of {total} doses taken today',
+    'doseLogged': 'Dose {current} of {total} logged.',
+    'doseSaved': 'Dose saved',
+    'todayDoses': 'Today\'s doses',
+    
+    // Dosing schedule
+    'dosingSchedule': 'Dosing schedule',
+    'dosingScheduleDescription': 'Phases, cycles and per-weekday doses',
+    'dosingScheduleSubtitle': 'Your custom schedule',
+    'dosingScheduleDefault': 'Based on your goals',
+    'scheduleRegimen': 'Regimen',
+    'scheduleName': 'Schedule name (optional)',
+    'scheduleStartDate': 'Start date (YYYY-MM-DD)',
+    'schedulePhase': 'Phase {number}',
+    'schedulePhaseName': 'Phase name (e.g. ramp-up)',
+    'scheduleDurationDays': 'Duration (days)',
+    'scheduleDaysOn': 'Days on',
+    'scheduleDaysOff': 'Days off',
+    'scheduleEveryDay': 'Every day',
+    'scheduleCustomizeDay': 'Customize this day',
+    'scheduleUseRegularDays': 'Use regular days',
+    'scheduleAddDose': 'Add dose',
+    'scheduleAddPhase': 'Add phase',
+    'scheduleReset': 'Reset to default',
+    'scheduleResetMessage': 'Your custom schedule will be removed and your goals will define your doses again.',
+    'scheduleSaved': 'Schedule saved',
+    'scheduleSavedMessage': 'Your dosing schedule has been updated.',
+    'scheduleSaveError': 'Could not save the schedule.',
+    'scheduleInvalidStartDate': 'Enter the start date as YYYY-MM-DD.',
+    'scheduleInvalidDuration': 'Only the last phase can be open-ended.',
+    'scheduleInvalidTime': 'Enter times as HH:MM.',
+    'restDay': 'Rest day',
+    'sundayShort': 'Sun',
+    'mondayShort': 'Mon',
+    'tuesdayShort': 'Tue',
+    'wednesdayShort': 'Wed',
+    'thursdayShort': 'Thu',
+    'fridayShort': 'Fri',
+    'saturdayShort': 'Sat',
+    
+    // Goals
+    'dailyGoalValue': '{count} capsules per day',
+    'weeklyGoalValue': '{count} capsules per week',
+    'dailyGoalDescription': 'How many capsules you aim to take each day. It also sets the default dosing schedule.',
+    'weeklyGoalDescription': 'Total capsules you aim to take from Monday to Sunday.',
+    'dosesPerDay': 'Doses per day',
+    'dosesPerDayValue': '{count} doses per day',
+    'dosesPerDayDescription': 'How many intakes the daily goal is split into, at most one per capsule. A custom dosing schedule takes precedence.',
+    'dosesUnit': 'doses',
+    'goalOutOfRange': 'Choose a value between {min} and {max}.',
+    'goalSaveError': 'Could not save the goal.',
+    'goalMet': 'Goal met',
+    'goalNotMetYet': 'Not met yet',
+    'weeklyGoalSummary': '{count} of {goal} capsules this week',
+    'goalAttainment': 'Goals',
+    'dailyGoalDaysMet': 'days meeting the daily goal',
+    'weeklyGoalWeeksMet': '{count} of {total} weeks on target',
+    
+    // Dose reminders
+    'reminderTitle': 'Time for your dose 💊',
+    'reminderBody': 'Take {count} Max Testorin capsule(s).',
+    'reminderSnooze': 'Remind me in {minutes} min',
+    'reminderSnoozed': 'Reminder snoozed',
+    'reminderSnoozedMessage': 'We\'ll remind you again in {minutes} minutes.',
+    'snoozeReminder': 'Snooze reminder',
+    'snoozeReminderDescription': 'Remind me of the next dose in {minutes} minutes',
+    'remindersScheduled': '{count} reminders scheduled for the coming days',
+    'notificationPermissionDenied': 'Allow notifications in your device settings to receive reminders.',
+    
+    // Time zone
+    'timezone': 'Time zone',
+    'timezoneDescription': 'Sets when each day starts and ends. In automatic mode the app follows the device time zone.',
+    'timezoneAutomatic': 'Automatic',
+    'timezoneFixed': 'Fixed to {zone}',
+    'timezoneSaveError': 'Could not save the time zone.',
+    'timezoneTravelBanner': 'You\'re in {zone}. Tap to adjust your days.',
+    'timezoneTravelTitle': 'New time zone',
+    'timezoneTravelMessage': 'Your device is in {device}, but your days are counted in {current}. Which time zone should be used from now on?',
+    'timezoneKeep': 'Keep {zone}',
+    'timezoneSwitch': 'Use {zone}',
+    
+    // Streaks
+    'streaks': 'Streaks',
+    'longestStreak': 'Longest streak',
+    'streakHistory': 'Streak history',
+    'today': 'Today',
+    'frozenDays': '{count} frozen day(s)',
+    'freezeDaysUsed': '{used} of {total} freezes used this month',
+    'streakFreezeDays': 'Streak freeze days',
+    'streakFreezeValue': '{count} per month',
+    'streakFreezeDescription': 'How many missed days per month won\'t break your streak. Rest days in your schedule never do.',
+    
+    // Registro atrasado
+    'backfillWindow': 'Late logging window',
+    'backfillWindowValue': 'Up to {count} days back',
+    'backfillWindowDescription': 'How many days later you can still log or fix the doses of a past day.',
+    'countBackfilledDays': 'Count late-logged days',
+    'countBackfilledDaysDescription': 'Include days logged after they ended in streaks and statistics',
+    'loggingForDate': 'Logging {date} (late entry)',
+    'dayDoses': 'Doses of the day',
+    'outsideBackfillWindow': 'This day is outside the late logging window.',
+    'outsideBackfillWindowTitle': 'Logging unavailable',
+    'outsideBackfillWindowMessage': 'You can only log up to {days} days back. You can change this in settings.',
+    'loggedLate': 'Logged late',
+    'onTimeLogs': 'On time',
+    'onTimeLogsSubtitle': 'days logged on the day',
+    'lateLogs': 'Late',
+    'lateLogsSubtitle': 'days logged afterwards',
+    
+    // Backup e restauração
+    'cloudBackupTitle': '☁️ Cloud backup',
+    'cloudBackupDescription': 'Your records, profile and settings are stored in your account. Export creates a file with this data that can be restored on any device.',
+    'importPreviewTitle': 'Import preview',
+    'importBackupFrom': 'Backup from {date}',
+    'importModeMerge': 'Merge',
+    'importModeMergeDescription': 'Keeps current data and adds or updates the days in the backup',
+    'importModeReplace': 'Replace',
+    'importModeReplaceDescription': 'Deletes current records and restores the backup exactly',
+    'importNewDays': 'New days',
+    'importUpdatedDays': 'Changed days',
+    'importRemovedDays': 'Removed days',
+    'importNewDoses': 'New doses',
+    'importRemovedDoses': 'Removed doses',
+    'importProfileChanges': 'Profile fields changed',
+    'importSettingsChanges': 'Settings changed',
+    'importMoreDates': 'and {count} more',
+    'importNothingToChange': 'The backup matches your current data.',
+    'importReplaceConfirm': '{count} days that are not in the backup will be permanently deleted. Continue?',
+    'confirmImport': 'Import',
+    'importSuccess': 'Import finished: {added} new days, {updated} changed and {removed} removed.',
+    
+    // Versões de backup
+    'importRejectedTitle': 'Backup not imported',
+    'importRejectedMessage': 'The file could not be imported:',
+    'importUpgraded': 'Backup upgraded from version {from} to {to}',
+    
+    // Backup cifrado
+    'exportBackupTitle': 'Export backup',
+    'exportBackupMessage': 'Protect the file with a passphrase so only you can open it. Login credentials are never included.',
+    'exportPlain': 'Without passphrase',
+    'exportEncrypted': 'With passphrase',
+    'encryptBackupTitle': 'Protect backup',
+    'encryptBackupDescription': 'Choose a passphrase to encrypt the backup. Without it the file cannot be restored.',
+    'unlockBackupTitle': 'Protected backup',
+    'unlockBackupDescription': 'This backup is encrypted. Enter the passphrase used when exporting it.',
+    'unlockBackup': 'Unlock',
+    'passphrase': 'Passphrase',
+    'confirmPassphrase': 'Repeat passphrase',
+    'passphraseTooShort': 'The passphrase needs at least {min} characters',
+    'passphraseMismatch': 'Passphrases do not match',
+    'wrongPassphrase': 'Wrong passphrase or damaged file',
+    'processing': 'Processing...',
+    
+    // Exportação em planilha
+    'exportCsv': 'Export spreadsheet (CSV)',
+    'exportCsvDescription': 'Intake table to share with your doctor',
+    'exportCsvRangeDescription': 'Choose the period to export. The spreadsheet will have date, time, capsules, whether the day was completed and notes.',
+    'exportCsvShare': 'Export',
+    'csvDate': 'Date',
+    'csvTime': 'Time',
+    'csvCapsules': 'Capsules',
+    'csvCompleted': 'Completed',
+    'csvNotes': 'Notes',
+    'csvNoRecords': 'No records in the chosen period.',
+    'csvExportFailed': 'Could not export the spreadsheet. Please try again.',
+    'rangeLast30Days': 'Last 30 days',
+    'rangeLast90Days': 'Last 90 days',
+    'rangeThisYear': 'This year',
+    'rangeAllTime': 'All time',
+    'rangeStart': 'From',
+    'rangeEnd': 'To',
+    'invalidDateRange': 'Enter valid dates (YYYY-MM-DD) with the start before the end',
+    
+    // Relatório para o médico
+    'clinicianReport': 'Clinician report',
+    'clinicianReportDescription': 'Create a PDF with your adherence, calendar, streaks and notes to bring to your appointment.',
+    'clinicianReportRangeDescription': 'Choose the period the report should cover.',
+    'generateReport': 'Generate report',
+    'reportFailed': 'Could not generate the report. Please try again.',
+    'reportTitle': 'Treatment progress report',
+    'reportGenerated': 'Generated on {date} by MaxTestorin',
+    'reportProfile': 'Patient',
+    'reportSummary': 'Period summary',
+    'reportPatient': 'Name',
+    'reportAge': 'Age',
+    'reportTreatmentStart': 'Treatment start',
+    'reportPeriod': 'Period',
+    'reportAdherence': 'Adherence',
+    'reportCompletedDays': 'Completed days',
+    'reportPartialDays': 'Partial days',
+    'reportMissedDays': 'Missed days',
+    'reportTotalCapsules': 'Capsules',
+    'reportAveragePerDay': 'Average per logged day',
+    'reportCurrentStreak': 'Current streak',
+    'reportLongestStreak': 'Longest streak',
+    'reportLateLogs': 'Late logs',
+    'reportMonthlyBreakdown': 'Adherence by month',
+    'reportMonth': 'Month',
+    'reportCalendar': 'Calendar',
+    'reportLegendComplete': 'Complete',
+    'reportLegendPartial': 'Partial',
+    'reportLegendMissed': 'Missed',
+    'reportLegendRest': 'Rest day',
+    'reportNotes': 'Notes',
+    'reportNoNotes': 'No notes in this period.',
+    'reportDisclaimer': 'Data self-reported by the patient in the app. Rest days are not counted towards adherence.',
+    
+    // Importação de CSV
+    'back': 'Back',
+    'csvImportTitle': 'Import CSV',
+    'csvImportSubtitle': 'Bring history from spreadsheets or other apps',
+    'csvImportDescription': 'Pick which column of the file holds each piece of information. Nothing is saved until you confirm.',
+    'csvFieldDate': 'Date',
+    'csvFieldCapsules': 'Capsules',
+    'csvFieldTime': 'Time',
+    'csvFieldNotes': 'Notes',
+    'csvFieldCompleted': 'Completed',
+    'csvColumnNone': 'Not in file',
+    'csvColumnFallback': 'Column {n}',
+    'csvSample': 'e.g. {value}',
+    'csvDateFormat': 'Date format',
+    'csvFormatIso': 'YYYY-MM-DD',
+    'csvFormatDmy': 'DD/MM/YYYY',
+    'csvFormatMdy': 'MM/DD/YYYY',
+    'csvDateAmbiguous': 'The dates in the file could fit more than one format. Check that this one is right.',
+    'csvNoCapsulesColumn': 'Without a capsules column, each row counts as the dose planned for that day.',
+    'csvCheckFile': 'Check file',
+    'csvPreviewDescription': 'Check results. Confirm to save the new and changed days.',
+    'csvPreviewRows': 'Rows in file',
+    'csvPreviewAdded': 'New days',
+    'csvPreviewUpdated': 'Days that will change',
+    'csvPreviewUnchanged': 'Already up to date',
+    'csvPreviewSkipped': 'Skipped (doses logged in the app)',
+    'csvPreviewIssues': 'Rows with problems',
+    'csvIssueRow': 'Row {row}: {problem} "{value}"',
+    'csvIssueInvalidDate': 'invalid date',
+    'csvIssueFutureDate': 'date in the future',
+    'csvIssueDuplicateDate': 'date repeated in the file',
+    'csvIssueInvalidCapsules': 'invalid capsule count',
+    'csvIssueInvalidTime': 'invalid time',
+    'csvIssueInvalidCompleted': 'unrecognized completed value',
+    'csvImportConfirm': 'Import {count} days',
+    'csvImportDone': '{count} days imported.',
+    'csvImportFailed': 'Could not import the file. Please try again.',
+    'csvReadFailed': 'Could not read the CSV file.',
+    'csvEmptyFile': 'The file has no rows to import.',
+    
+    // Backups automáticos
+    'snapshotsTitle': 'Automatic backups',
+    'snapshotsDescription': 'Encrypted copies created automatically on this device. They can only be restored here; use export to move to another device.',
+    'snapshotFrequency': 'Frequency',
+    'snapshotFrequencyOff': 'Off',
+    'snapshotFrequencyDaily': 'Daily',
+    'snapshotFrequencyWeekly': 'Weekly',
+    'snapshotRetention': 'Copies to keep',
+    'snapshotsEmpty': 'No automatic backups yet.',
+    'snapshotCreateNow': 'Back up now',
+    'snapshotCreateFailed': 'Could not create the backup.',
+    'snapshotRestoreFailed': 'Could not open this backup.',
+    'snapshotDeleteTitle': 'Delete backup',
+    'snapshotDeleteMessage': 'This backup will be removed from the device.',
+    
+    // Verificação de integridade
+    'integrityTitle': 'Check data',
+    'integritySubtitle': 'Find and fix inconsistent records',
+    'integrityNoIssues': 'No problems found in {records} records and {images} images.',
+    'integrityIssuesFound': '{count} problems found.',
+    'integrityInvalidDate': 'Invalid date "{value}"',
+    'integrityDuplicateDate': '{date}: {value} records for the same day',
+    'integrityFutureDate': '{date}: record for a future date',
+    'integrityNegativeCapsules': '{date}: invalid capsule count ({value})',
+    'integrityAbsurdCapsules': '{date}: {value} capsules in one day',
+    'integrityMalformedTime': '{date}: invalid time "{value}"',
+    'integrityCompletedMismatch': '{date}: day\'s dose taken but not marked complete',
+    'integrityOrphanedImage': 'Unused profile photo ({value})',
+    'integrityFixInvalidDate': 'Fix the date or delete the record',
+    'integrityFixDuplicateDate': 'Keep the most recent record',
+    'integrityFixDelete': 'Delete the record',
+    'integrityFixCapsules': 'Use the logged doses or the planned dose',
+    'integrityFixTime': 'Use a valid time',
+    'integrityFixCompleted': 'Mark the day as complete',
+    'integrityFixImage': 'Delete the image',
+    'integrityFix': 'Fix',
+    'integrityFixAll': 'Fix all',
+    'integrityFixAllMessage': '{count} fixes will be applied to your cloud data. Duplicate, future or invalid records will be deleted.',
+    'integrityScanFailed': 'Could not check your data.',
+    'integrityRepairIncomplete': 'Some fixes could not be applied.',
+    
+    // Uso de armazenamento
+    'usageDevice': 'On this device',
+    'usageTotal': 'Total',
+    'usagePending': 'Changes waiting to sync',
+    'usagePreferences': 'Preferences',
+    'usageSession': 'Session',
+    'usageLegacy': 'Data from the old version',
+    'usageOther': 'Other',
+    'usageSnapshots': 'Automatic backups ({count})',
+    'usageCaches': 'Cache and exports ({count} files)',
+    'usageCloud': 'In the cloud',
+    'usageYear': '{records} days · {doses} doses',
+    'usageRecordsTotal': 'Total',
+    'usageProfileImages': 'Profile photos ({count})',
+    'usageCloudUnavailable': 'Cloud usage is unavailable right now.',
+    'clearCachesTitle': 'Clear local cache',
+    'clearCachesMessage': 'Temporary files and already shared exports will be removed from this device. Your cloud data, pending changes and automatic backups are not affected.',
+    'clearCachesConfirm': 'Clear',
+    'clearCachesDone': '{size} freed.',
+    'clearCachesFailed': 'Could not clear the cache.',
+    
+    // Legacy data migration
+    'legacyMigrationTitle': 'Data from the previous version',
+    'legacyMigrationDescription': 'We found data saved on this device by the previous version of the app. Do you want to move it to your account?',
+    'legacyMigrationDescriptionEmail': 'We found data saved on this device by the previous version of the app ({email}). Do you want to move it to your account?',
+    'legacyMigrationRecords': '{count} logged days, from {first} to {last}',
+    'legacyMigrationProfile': 'Profile details',
+    'legacyMigrationSettings': 'Reminder and goals',
+    'legacyMigrationHint': 'Days already in your account are left untouched. Running the migration again never duplicates anything.',
+    'legacyMigrationFailed': 'The migration could not be completed. Check your connection; the data is still on this device.',
+    'legacyMigrationConfirm': 'Move data',
+    'legacyMigrationSkip': 'Keep on device',
+    'legacyMigrationDoneTitle': 'Migration complete',
+    'legacyMigrationDoneDescription': 'Your old data is now in your account:',
+    'legacyMigrationMigrated': '{count} days added',
+    'legacyMigrationSkipped': '{count} days already existed and were kept',
+    'legacyMigrationInvalid': '{count} invalid records ignored',
+    'legacyMigrationProfileFields': '{count} profile fields filled in',
+    'legacyMigrationSettingsFields': '{count} settings updated',
+    
+    // Password reset
+    'resetPasswordTitle': 'Reset password',
+    'newPassword': 'New password',
+    'updatePassword': 'Save new password',
+    'updatingPassword': 'Saving...',
+    'passwordUpdated': 'Password changed',
+    'passwordUpdatedMessage': 'Your new password is now active and you are signed in.',
+    'passwordUpdateFailed': 'The password could not be changed. Please try again.',
+    'verifyingResetLink': 'Checking your recovery link...',
+    'resetLinkInvalid': 'Invalid or expired link',
+    'resetLinkInvalidDescription': 'Request a new recovery email from the sign-in screen.',
+    'passwordNeedsLowercase': 'Password must contain lowercase letters',
+    'passwordStrengthWeak': 'Weak',
+    'passwordStrengthMedium': 'Medium',
+    'passwordStrengthStrong': 'Strong',
+    
+    // Passwordless sign-in
+    'signInWithEmailCode': 'Sign in with an email code',
+    'passwordlessTitle': 'Sign in without a password',
+    'passwordlessDescription': 'We will email you a sign-in link and a 6-digit code.',
+    'sendSignInEmail': 'Send sign-in email',
+    'signInWithPassword': 'Sign in with password',
+    'enterSignInCode': 'Enter the code',
+    'signInCodeSent': 'We sent a code to {email}. Enter it below.',
+    'signInCodeLength': 'The code has {count} digits',
+    'signInCodeInvalid': 'Invalid or expired code',
+    'signInEmailError': 'The sign-in email could not be sent',
+    'verifyingCode': 'Verifying...',
+    'useAnotherEmail': 'Another email',
+    'resendCodeIn': 'Resend in {seconds}s',
+    'magicLinkHint': 'You can also tap the link in the email on this device.',
+    'signingInWithLink': 'Signing in with your email link...',
+    'magicLinkInvalid': 'Invalid sign-in link',
+    'magicLinkInvalidDescription': 'The link has expired or was already used. Request a new sign-in email from the sign-in screen.',
+    
+    // Segurança da conta
+    'accountSecurity': 'Account security',
+    'accountSecurityDescription': 'You sign in with {email}. To change your email or password, confirm your current password.',
+    'pendingEmailChange': 'Change to {email} awaiting confirmation. Open the link sent to both addresses.',
+    'changeEmail': 'Change email',
+    'changePassword': 'Change password',
+    'changeEmailDescription': 'Your current email is {email}. The change only takes effect after you confirm it through the link we send.',
+    'changePasswordDescription': 'Choose a new password. It takes effect on this and your other devices.',
+    'newEmail': 'New email',
+    'currentPassword': 'Current password',
+    'currentPasswordRequired': 'Enter your current password',
+    'currentPasswordWrong': 'Current password is incorrect',
+    'newEmailSameAsCurrent': 'The new email is the same as the current one',
+    'newPasswordSameAsCurrent': 'The new password must be different from the current one',
+    'emailChangeFailed': 'The email could not be changed. Please try again.',
+    'sendConfirmation': 'Send confirmation',
+    'emailChangeRequested': 'Confirm the change',
+    'emailChangeRequestedMessage': 'We sent a confirmation link to {email}. Please also check your current email inbox.',
+    'passwordChangedMessage': 'Use your new password the next time you sign in.',
+    
+    // Exclusão da conta
+    'deleteAccount': 'Delete account',
+    'deleteMyAccount': 'Delete my account',
+    'deleteAccountCardDescription': 'Deletes your account and all of your data. You will have {days} days to change your mind.',
+    'deleteAccountDescription': 'Deleting your account permanently removes:',
+    'deleteAccountRecords': 'Daily records and dose history',
+    'deleteAccountProfile': 'Profile, settings and dosing schedule',
+    'deleteAccountPhotos': 'Uploaded profile photos',
+    'deleteAccountLogin': 'Your sign-in with this email',
+    'deleteAccountGracePeriod': 'Deletion happens {days} days after the request. To cancel it, sign back in to the app with this email within that period and tap "Keep my account".',
+    'deleteAccountExportHint': 'Before continuing, you can export a copy of your data.',
+    'deleteAccountExport': 'Export my data',
+    'deleteAccountExported': 'Data exported',
+    'deleteAccountExportFailed': 'Your data could not be exported. Please try again.',
+    'deleteAccountConfirmDescription': 'Confirm with your current password to schedule the account deletion.',
+    'deleteAccountFailed': 'The deletion could not be scheduled. Please try again.',
+    'deleteAccountScheduled': 'Deletion scheduled',
+    'deleteAccountScheduledDescription': 'Your account and all of its data will be deleted on {date}. You will be signed out now.',
+    'deleteAccountPendingDescription': 'This account will be deleted on {date}, along with all of its data. You can cancel until then.',
+    'keepMyAccount': 'Keep my account',
+    'deletionCancelled': 'The deletion was cancelled. Your account remains active.',
+    'cancelDeletionFailed': 'The deletion could not be cancelled. Please try again.',
   }
 };
\ No newline at end of file
@@ -0,0 +1,158 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { ReminderService, ReminderSlot, ReminderTexts } from '@/services/ReminderService';
+import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
+import { useFirebaseRecords } from '@/contexts/FirebaseRecordsContext';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { LocalDate } from '@/utils/LocalDate';
+
+interface ReminderContextData {
+  permissionGranted: boolean;
+  scheduledCount: number;
+  requestPermission: () => Promise<boolean>;
+  snoozeReminder: (minutes?: number) => Promise<void>;
+}
+
+const ReminderContext = createContext<ReminderContextData>({} as ReminderContextData);
+
+export const ReminderProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { t } = useLanguage();
+  const { settings, timeZone } = useFirebaseSettings();
+  const { schedule, planFor } = useSchedule();
+  const { records, intakes, selectByDate, selectIntakesByDate } = useFirebaseRecords();
+  const [permissionGranted, setPermissionGranted] = useState(false);
+  const [scheduledCount, setScheduledCount] = useState(0);
+  const [foregroundAt, setForegroundAt] = useState(() => Date.now());
+  const textsRef = useRef<ReminderTexts | null>(null);
+
+  const texts: ReminderTexts = {
+    title: t('reminderTitle'),
+    body: (slot) => {
+      const body = t('reminderBody').replace('{count}', String(slot.capsules));
+      return planFor(slot.date).doses.length > 1
+        ? `${body} (${t('doseOf').replace('{current}', String(slot.doseNumber)).replace('{total}', String(planFor(slot.date).doses.length))})`
+        : body;
+    },
+    snoozeAction: t('reminderSnooze').replace('{minutes}', String(ReminderService.SNOOZE_MINUTES)),
+  };
+  textsRef.current = texts;
+
+  useEffect(() => {
+    if (!ReminderService.isSupported()) return;
+
+    ReminderService.configure(texts.snoozeAction).catch(error =>
+      console.error('❌ [Reminders] Error configuring notifications:', error)
+    );
+    ReminderService.hasPermission().then(setPermissionGranted);
+
+    // A ação de soneca pode chegar com o app em segundo plano
+    const subscription = ReminderService.addSnoozeListener(slot => {
+      if (textsRef.current) ReminderService.snooze(slot, textsRef.current);
+    });
+
+    return () => subscription.remove();
+  }, [texts.snoozeAction]);
+
+  // Os lembretes só cobrem os próximos dias; cada volta ao app estende a janela
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') setForegroundAt(Date.now());
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Reagenda sempre que configurações, esquema ou registros mudarem
+  useEffect(() => {
+    if (!ReminderService.isSupported()) return;
+
+    const reschedule = async () => {
+      try {
+        if (!settings?.notifications || !permissionGranted) {
+          await ReminderService.cancelAll();
+          setScheduledCount(0);
+          return;
+        }
+
+        const today = LocalDate.today();
+        const todayCompleted = !!selectByDate(today)?.completed;
+        const count = await ReminderService.reschedule(buildSlots(), texts, !todayCompleted);
+        setScheduledCount(count);
+      } catch (error) {
+        console.error('❌ [Reminders] Error scheduling reminders:', error);
+      }
+    };
+
+    reschedule();
+  }, [settings?.notifications, settings?.reminder_time, timeZone, permissionGranted, schedule, records, intakes, t, foregroundAt]);
+
+  /**
+   * Horários das doses nos próximos dias, até o limite de avisos agendados.
+   * Hoje, as doses já tomadas não são lembradas e nada é lembrado depois que
+   * o dia foi concluído.
+   */
+  const buildSlots = (): ReminderSlot[] => {
+    const today = LocalDate.today();
+    const slots: ReminderSlot[] = [];
+
+    for (let i = 0; i < ReminderService.DAYS_AHEAD && slots.length < ReminderService.MAX_SCHEDULED; i++) {
+      const date = LocalDate.addDays(today, i);
+      const plan = planFor(date);
+      if (plan.isRestDay) continue;
+
+      let dosesTaken = 0;
+      if (date === today) {
+        if (selectByDate(today)?.completed) continue;
+        dosesTaken = selectIntakesByDate(today).length;
+      }
+
+      plan.doses.forEach((dose, index) => {
+        if (index < dosesTaken || slots.length >= ReminderService.MAX_SCHEDULED) return;
+        slots.push({ date, time: dose.time, doseNumber: index + 1, capsules: dose.capsules });
+      });
+    }
+
+    return slots;
+  };
+
+  const requestPermission = async () => {
+    const granted = await ReminderService.requestPermission();
+    setPermissionGranted(granted);
+    return granted;
+  };
+
+  const snoozeReminder = async (minutes?: number) => {
+    const today = LocalDate.today();
+    const plan = planFor(today);
+    const dosesTaken = selectIntakesByDate(today).length;
+    const dose = plan.doses[Math.min(dosesTaken, plan.doses.length - 1)];
+    if (!dose) return;
+
+    await ReminderService.snooze(
+      { date: today, time: dose.time, doseNumber: Math.min(dosesTaken, plan.doses.length - 1) + 1, capsules: dose.capsules },
+      texts,
+      minutes
+    );
+  };
+
+  return (
+    <ReminderContext.Provider
+      value={{
+        permissionGranted,
+        scheduledCount,
+        requestPermission,
+        snoozeReminder,
+      }}
+    >
+      {children}
+    </ReminderContext.Provider>
+  );
+};
+
+export const useReminders = () => {
+  const context = useContext(ReminderContext);
+  if (!context) {
+    throw new Error('useReminders must be used within a ReminderProvider');
+  }
+  return context;
+};
@@ -0,0 +1,120 @@
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { SupabaseService } from '@/services/SupabaseService';
+import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
+import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
+import { DosingSchedule } from '@/types/database';
+import { DoseSchedule, DayPlan } from '@/utils/DoseSchedule';
+import { LocalDate } from '@/utils/LocalDate';
+
+interface ScheduleContextData {
+  schedule: DosingSchedule | null;
+  isCustom: boolean;
+  loading: boolean;
+  error: string | null;
+  planFor: (date: string) => DayPlan;
+  saveSchedule: (schedule: Pick<DosingSchedule, 'name' | 'start_date' | 'phases'>) => Promise<void>;
+  resetSchedule: () => Promise<void>;
+}
+
+const ScheduleContext = createContext<ScheduleContextData>({} as ScheduleContextData);
+
+export const ScheduleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, userProfile } = useFirebaseAuth();
+  const { settings } = useFirebaseSettings();
+  const [savedSchedule, setSavedSchedule] = useState<DosingSchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setSavedSchedule(null);
+      setLoading(false);
+      return;
+    }
+
+    console.log(`📅 [ScheduleContext] Loading schedule for user ${user.id}`);
+    loadSchedule();
+  }, [user]);
+
+  const loadSchedule = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const schedule = await SupabaseService.getDosingSchedule(user.id);
+      setSavedSchedule(schedule);
+      setError(null);
+    } catch (error) {
+      console.error('❌ [ScheduleContext] Error loading schedule:', error);
+      setError('Failed to load schedule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sem esquema salvo, as configurações de meta definem um esquema simples
+  const schedule = useMemo(() => {
+    if (!user) return null;
+    if (savedSchedule) return savedSchedule;
+
+    return DoseSchedule.fromSettings(user.id, {
+      dailyGoal: settings?.daily_goal,
+      dosesPerDay: settings?.doses_per_day,
+      reminderTime: settings?.reminder_time,
+      startDate: userProfile?.treatment_start_date || LocalDate.today(),
+    });
+  }, [user, savedSchedule, settings, userProfile]);
+
+  const planFor = (date: string) => DoseSchedule.planFor(schedule, date);
+
+  const saveSchedule = async (next: Pick<DosingSchedule, 'name' | 'start_date' | 'phases'>) => {
+    if (!user) throw new Error('No authenticated user');
+
+    try {
+      console.log(`📅 [ScheduleContext] Saving schedule with ${next.phases.length} phases`);
+      const saved = await SupabaseService.saveDosingSchedule(user.id, next);
+      setSavedSchedule(saved);
+      console.log(`✅ [ScheduleContext] Schedule saved successfully`);
+    } catch (error) {
+      console.error('❌ [ScheduleContext] Error saving schedule:', error);
+      throw error;
+    }
+  };
+
+  const resetSchedule = async () => {
+    if (!user) throw new Error('No authenticated user');
+
+    try {
+      await SupabaseService.deleteDosingSchedule(user.id);
+      setSavedSchedule(null);
+      console.log(`✅ [ScheduleContext] Schedule reset to defaults`);
+    } catch (error) {
+      console.error('❌ [ScheduleContext] Error resetting schedule:', error);
+      throw error;
+    }
+  };
+
+  return (
+    <ScheduleContext.Provider
+      value={{
+        schedule,
+        isCustom: !!savedSchedule,
+        loading,
+        error,
+        planFor,
+        saveSchedule,
+        resetSchedule,
+      }}
+    >
+      {children}
+    </ScheduleContext.Provider>
+  );
+};
+
+export const useSchedule = () => {
+  const context = useContext(ScheduleContext);
+  if (!context) {
+    throw new Error('useSchedule must be used within a ScheduleProvider');
+  }
+  return context;
+};
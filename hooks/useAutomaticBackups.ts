@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
+import { SnapshotService } from '@/services/SnapshotService';
+
+/**
+ * Cria o backup automático quando o app abre ou volta ao primeiro plano e o
+ * último backup já passou da frequência configurada
+ */
+export const useAutomaticBackups = () => {
+  const { user } = useFirebaseAuth();
+
+  useEffect(() => {
+    if (!user || !SnapshotService.isSupported()) return;
+
+    SnapshotService.runIfDue(user.id);
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        SnapshotService.runIfDue(user.id);
+      }
+    });
+
+    return () => subscription.remove();
+  }, [user?.id]);
+};
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Alert } from 'react-native';
+import { useFirebaseAuth } from '@/contexts/FirebaseAuthContext';
+import { useFirebaseRecords } from '@/contexts/FirebaseRecordsContext';
+import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useSchedule } from '@/contexts/ScheduleContext';
+import { ClinicianReport } from '@/utils/ClinicianReport';
+import { DataManager, DateRange } from '@/utils/DataManager';
+import { DoseIntakes } from '@/utils/DoseIntakes';
+import { LocalDate } from '@/utils/LocalDate';
+
+/**
+ * Monta o relatório de progresso do período e abre o compartilhamento do PDF
+ */
+export const useClinicianReport = () => {
+  const { userProfile } = useFirebaseAuth();
+  const { records, intakes } = useFirebaseRecords();
+  const { planFor } = useSchedule();
+  const { settings } = useFirebaseSettings();
+  const { t, language } = useLanguage();
+  const [generating, setGenerating] = useState(false);
+
+  const earliestDate = records.length > 0
+    ? records.reduce((earliest, record) => record.date < earliest ? record.date : earliest, records[0].date)
+    : null;
+
+  const shareReport = async (range: DateRange): Promise<boolean> => {
+    setGenerating(true);
+    try {
+      const html = ClinicianReport.build({
+        ...range,
+        today: LocalDate.today(),
+        language,
+        profile: userProfile,
+        records,
+        capsulesByDate: DoseIntakes.capsulesByDate(records, intakes),
+        planFor,
+        freezeDaysPerMonth: settings?.streak_freeze_days,
+        t,
+      });
+
+      await DataManager.shareClinicianReport(html, range);
+      return true;
+    } catch (error) {
+      console.error('❌ [useClinicianReport] Error generating report:', error);
+      Alert.alert(t('error'), t('reportFailed'));
+      return false;
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return { generating, earliestDate, shareReport };
+};
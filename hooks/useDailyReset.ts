@@ -1,4 +1,7 @@
 import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { useFirebaseSettings } from '@/contexts/FirebaseSettingsContext';
+import { LocalDate } from '@/utils/LocalDate';
 
 interface UseDailyResetOptions {
   onDayChange?: (newDate: string, oldDate: string) => void;
@@ -7,33 +10,25 @@ interface UseDailyResetOptions {
 
 export const useDailyReset = (options: UseDailyResetOptions = {}) => {
   const { onDayChange, checkInterval = 60000 } = options; // Default: check every minute
-  const [currentDate, setCurrentDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const { timeZone } = useFirebaseSettings();
+  const [currentDate, setCurrentDate] = useState(() => LocalDate.today());
   const [timeUntilMidnight, setTimeUntilMidnight] = useState(0);
 
-  // Calculate time until midnight
-  const calculateTimeUntilMidnight = () => {
-    const now = new Date();
-    const midnight = new Date(now);
-    midnight.setDate(midnight.getDate() + 1);
-    midnight.setHours(0, 0, 0, 0);
-    return midnight.getTime() - now.getTime();
-  };
-
-  // Update time until midnight every minute
+  // Update time until midnight (in the user's time zone) every minute
   useEffect(() => {
     const updateTimeUntilMidnight = () => {
-      setTimeUntilMidnight(calculateTimeUntilMidnight());
+      setTimeUntilMidnight(LocalDate.msUntilMidnight());
     };
 
     updateTimeUntilMidnight();
     const interval = setInterval(updateTimeUntilMidnight, 60000);
     return () => clearInterval(interval);
-  }, []);
+  }, [timeZone]);
 
   // Check for day change
   useEffect(() => {
     const checkDateChange = () => {
-      const newDate = new Date().toISOString().split('T')[0];
+      const newDate = LocalDate.today();
       if (newDate !== currentDate) {
         console.log(`📅 [useDailyReset] Day changed: ${currentDate} → ${newDate}`);
         const oldDate = currentDate;
@@ -48,26 +43,18 @@ export const useDailyReset = (options: UseDailyResetOptions = {}) => {
     // Set up interval to check for date change
     const interval = setInterval(checkDateChange, checkInterval);
 
-    // Also check when the page becomes visible (user returns to app)
-    const handleVisibilityChange = () => {
-      if (!document.hidden) {
+    // Also check when the user returns to the app
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
         checkDateChange();
       }
-    };
-
-    const handleFocus = () => {
-      checkDateChange();
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    window.addEventListener('focus', handleFocus);
+    });
 
     return () => {
       clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-      window.removeEventListener('focus', handleFocus);
+      subscription.remove();
     };
-  }, [currentDate, onDayChange, checkInterval]);
+  }, [currentDate, onDayChange, checkInterval, timeZone]);
 
   // Format time until midnight
   const formatTimeUntilMidnight = () => {
@@ -0,0 +1,306 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SupabaseService } from '@/services/SupabaseService';
+import { DailyRecord, UserProfile, UserSettings } from '@/types/database';
+import { CsvImport } from '@/utils/CsvImport';
+import { LocalDate } from '@/utils/LocalDate';
+
+export interface LegacyDataSummary {
+  records: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  hasProfile: boolean;
+  hasSettings: boolean;
+  // Email da conta local antiga, para o usuário reconhecer de quem são os dados
+  email: string | null;
+}
+
+export interface LegacyMigrationReport {
+  migratedDates: string[];
+  // Dias que já existiam na nuvem e foram mantidos como estão
+  skippedDates: string[];
+  invalidRecords: number;
+  profileFields: (keyof UserProfile)[];
+  settingsFields: (keyof UserSettings)[];
+}
+
+interface LegacyMigrationFlag {
+  status: 'migrated' | 'skipped';
+  at: string;
+  report?: LegacyMigrationReport;
+}
+
+// JSON gravado pelo app antigo; cada campo é conferido antes de ser usado
+type LegacyObject = Record<string, unknown>;
+
+interface LegacyData {
+  records: unknown[];
+  profile: LegacyObject | null;
+  settings: LegacyObject | null;
+  email: string | null;
+}
+
+type LegacyRecord = Pick<DailyRecord, 'date' | 'capsules' | 'time' | 'notes' | 'completed'>;
+
+/**
+ * Migração dos dados da versão antiga do app (só AsyncStorage) para a conta na nuvem.
+ *
+ * Pode ser repetida sem duplicar nada: dias que já existem na nuvem são pulados
+ * e perfil e configurações só preenchem o que ainda está vazio ou no padrão.
+ */
+export class LegacyMigration {
+  private static readonly DATA_KEYS = {
+    DAILY_RECORDS: 'dailyRecords',
+    USER_PROFILE: 'userProfile',
+    APP_SETTINGS: 'appSettings',
+    CURRENT_USER: 'currentUser',
+    REGISTERED_USERS: 'registeredUsers',
+  };
+  // Só estes dados vão para a conta; a lista de contas locais fica no aparelho
+  private static readonly MIGRATED_KEYS = [
+    LegacyMigration.DATA_KEYS.DAILY_RECORDS,
+    LegacyMigration.DATA_KEYS.USER_PROFILE,
+    LegacyMigration.DATA_KEYS.APP_SETTINGS,
+  ];
+  private static readonly FLAG_PREFIX = 'legacyMigration:';
+
+  private static readonly DEFAULT_CAPSULES = 2;
+  private static readonly DEFAULT_TIME = '09:00';
+  private static readonly PROFILE_FIELDS: (keyof UserProfile)[] = ['name', 'date_of_birth', 'gender', 'phone', 'treatment_start_date'];
+  private static readonly GENDERS: NonNullable<UserProfile['gender']>[] = ['male', 'female', 'other'];
+
+  // Valores gravados no cadastro; só esses são substituídos pelos do app antigo
+  private static readonly SETTINGS_DEFAULTS: Partial<UserSettings> = {
+    notifications: true,
+    reminder_time: '09:00',
+    daily_goal: 2,
+    weekly_goal: 14,
+  };
+
+  /**
+   * Chaves que a limpeza do logout precisa manter: os dados antigos ainda não
+   * migrados e as marcações de migração de cada usuário
+   */
+  static isPreservedKey(key: string): boolean {
+    return key.startsWith(this.FLAG_PREFIX) || Object.values(this.DATA_KEYS).includes(key);
+  }
+
+  /**
+   * Resumo dos dados antigos deste aparelho, ou null se não há nada a migrar
+   * para o usuário (sem dados ou migração já feita/recusada)
+   */
+  static async detect(userId: string): Promise<LegacyDataSummary | null> {
+    try {
+      if (await this.getFlag(userId)) return null;
+
+      const legacy = await this.read();
+      const records = this.normalizeRecords(legacy.records).records;
+      if (records.length === 0 && !legacy.profile && !legacy.settings) return null;
+
+      const dates = records.map(record => record.date).sort();
+      console.log(`📦 [LegacyMigration] Found ${records.length} local records for user ${userId}`);
+      return {
+        records: records.length,
+        firstDate: dates[0] || null,
+        lastDate: dates[dates.length - 1] || null,
+        hasProfile: !!legacy.profile,
+        hasSettings: !!legacy.settings,
+        email: legacy.email,
+      };
+    } catch (error) {
+      console.error('❌ [LegacyMigration] Error detecting legacy data:', error);
+      return null;
+    }
+  }
+
+  static async migrate(userId: string): Promise<LegacyMigrationReport> {
+    console.log(`📦 [LegacyMigration] Starting migration for user ${userId}`);
+
+    const legacy = await this.read();
+    const { records, invalid } = this.normalizeRecords(legacy.records);
+
+    // Dias com registro ou doses na nuvem ficam como estão
+    const cloud = await SupabaseService.getCloudDates(userId);
+    const existing = new Set([...cloud.records, ...cloud.intakes]);
+    const missing = records.filter(record => !existing.has(record.date));
+
+    if (missing.length > 0) {
+      await SupabaseService.bulkUpsertDailyRecords(userId, missing);
+    }
+
+    const report: LegacyMigrationReport = {
+      migratedDates: missing.map(record => record.date),
+      skippedDates: records.filter(record => existing.has(record.date)).map(record => record.date),
+      invalidRecords: invalid,
+      profileFields: await this.migrateProfile(userId, legacy.profile),
+      settingsFields: await this.migrateSettings(userId, legacy.settings),
+    };
+
+    await this.setFlag(userId, { status: 'migrated', at: new Date().toISOString(), report });
+
+    // Registros, perfil e configurações já estão na conta e não são mais usados
+    await AsyncStorage.multiRemove(this.MIGRATED_KEYS);
+
+    console.log(`✅ [LegacyMigration] ${report.migratedDates.length} days migrated, ${report.skippedDates.length} already in the cloud`);
+    return report;
+  }
+
+  /**
+   * O usuário preferiu não migrar; os dados antigos ficam no aparelho
+   */
+  static async skip(userId: string): Promise<void> {
+    await this.setFlag(userId, { status: 'skipped', at: new Date().toISOString() });
+    console.log(`⏭️ [LegacyMigration] Migration skipped by user ${userId}`);
+  }
+
+  private static async migrateProfile(userId: string, legacy: LegacyObject | null): Promise<(keyof UserProfile)[]> {
+    if (!legacy) return [];
+
+    const converted: Partial<UserProfile> = {
+      name: this.toText(legacy.name),
+      date_of_birth: this.toIsoDate(legacy.date_of_birth ?? legacy.dateOfBirth),
+      gender: this.GENDERS.find(gender => gender === legacy.gender),
+      phone: this.toText(legacy.phone),
+      treatment_start_date: this.toIsoDate(legacy.treatment_start_date ?? legacy.treatmentStartDate ?? legacy.startDate),
+    };
+
+    const current = await SupabaseService.getUserProfile(userId);
+    const updates = this.pickFields(converted, this.PROFILE_FIELDS, field => !!converted[field] && !current?.[field]);
+
+    const fields = Object.keys(updates) as (keyof UserProfile)[];
+    if (fields.length > 0) {
+      await SupabaseService.upsertUserProfile(userId, {
+        ...updates,
+        ...(current ? {} : { email: this.toText(legacy.email) || '' }),
+      });
+    }
+    return fields;
+  }
+
+  private static async migrateSettings(userId: string, legacy: LegacyObject | null): Promise<(keyof UserSettings)[]> {
+    if (!legacy) return [];
+
+    const converted: Partial<UserSettings> = {
+      notifications: typeof legacy.notifications === 'boolean' ? legacy.notifications : undefined,
+      reminder_time: this.toTime(legacy.reminderTime) || undefined,
+      daily_goal: this.toPositiveInteger(legacy.dailyGoal),
+      weekly_goal: this.toPositiveInteger(legacy.weeklyGoal),
+    };
+
+    const current = await SupabaseService.getUserSettings(userId);
+    const fields = Object.keys(this.SETTINGS_DEFAULTS) as (keyof UserSettings)[];
+    const updates = this.pickFields(converted, fields, field => {
+      const currentValue = field === 'reminder_time' ? current?.reminder_time?.slice(0, 5) : current?.[field];
+      return converted[field] !== currentValue && currentValue === this.SETTINGS_DEFAULTS[field];
+    });
+
+    const changed = Object.keys(updates) as (keyof UserSettings)[];
+    if (changed.length > 0) {
+      await SupabaseService.updateUserSettings(userId, updates);
+    }
+    return changed;
+  }
+
+  // Um registro por dia; se o app antigo gravou o mesmo dia duas vezes vale o último
+  private static normalizeRecords(raw: unknown[]): { records: LegacyRecord[]; invalid: number } {
+    const byDate = new Map<string, LegacyRecord>();
+    const today = LocalDate.today();
+    let invalid = 0;
+
+    for (const record of raw) {
+      if (!this.isObject(record)) {
+        invalid++;
+        continue;
+      }
+
+      const date = this.toIsoDate(record.date);
+      const capsules = Number(record.capsules ?? record.drops ?? this.DEFAULT_CAPSULES);
+      if (!date || date > today || !Number.isInteger(capsules) || capsules < 0) {
+        invalid++;
+        continue;
+      }
+
+      byDate.set(date, {
+        date,
+        capsules,
+        time: this.toTime(record.time) || this.DEFAULT_TIME,
+        notes: typeof record.notes === 'string' ? record.notes : '',
+        completed: record.completed === true,
+      });
+    }
+
+    return { records: [...byDate.values()], invalid };
+  }
+
+  /**
+   * Campos de `source` aceitos por `accept`, para montar atualizações parciais
+   */
+  private static pickFields<T>(source: Partial<T>, fields: (keyof T)[], accept: (field: keyof T) => boolean): Partial<T> {
+    const picked: Partial<T> = {};
+    for (const field of fields) {
+      if (source[field] !== undefined && accept(field)) {
+        picked[field] = source[field];
+      }
+    }
+    return picked;
+  }
+
+  private static isObject(value: unknown): value is LegacyObject {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private static toText(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
+  private static toPositiveInteger(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+  }
+
+  // O app antigo gravava datas do perfil no formato pt-BR (DD/MM/AAAA)
+  private static toIsoDate(value: unknown): string | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    return CsvImport.parseDate(value, 'dmy') || undefined;
+  }
+
+  private static toTime(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})/);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+    return `${match[1].padStart(2, '0')}:${match[2]}`;
+  }
+
+  private static async read(): Promise<LegacyData> {
+    const stored = Object.fromEntries(await AsyncStorage.multiGet(Object.values(this.DATA_KEYS)));
+    const parse = (key: string): unknown => {
+      try {
+        return stored[key] ? JSON.parse(stored[key]) : null;
+      } catch (error) {
+        console.warn(`⚠️ [LegacyMigration] Ignoring unreadable "${key}":`, error);
+        return null;
+      }
+    };
+
+    const records = parse(this.DATA_KEYS.DAILY_RECORDS);
+    const profile = parse(this.DATA_KEYS.USER_PROFILE);
+    const settings = parse(this.DATA_KEYS.APP_SETTINGS);
+    const currentUser = parse(this.DATA_KEYS.CURRENT_USER);
+
+    return {
+      records: Array.isArray(records) ? records : [],
+      profile: this.isObject(profile) ? profile : null,
+      settings: this.isObject(settings) ? settings : null,
+      email: this.toText(this.isObject(profile) ? profile.email : undefined)
+        || this.toText(this.isObject(currentUser) ? currentUser.email : undefined)
+        || null,
+    };
+  }
+
+  private static async getFlag(userId: string): Promise<LegacyMigrationFlag | null> {
+    const stored = await AsyncStorage.getItem(this.FLAG_PREFIX + userId);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private static async setFlag(userId: string, flag: LegacyMigrationFlag): Promise<void> {
+    await AsyncStorage.setItem(this.FLAG_PREFIX + userId, JSON.stringify(flag));
+  }
+}
@@ -1,4 +1,6 @@
+import * as Linking from 'expo-linking';
 import { supabase } from '@/config/supabase';
+import { SupabaseService } from '@/services/SupabaseService';
 
 export interface PasswordResetResult {
   success: boolean;
@@ -6,6 +8,9 @@ export interface PasswordResetResult {
 }
 
 export class PasswordRecoveryService {
+  // Precisa estar na lista de Redirect URLs do projeto no Supabase
+  private static readonly RESET_PATH = 'auth/reset-password';
+
   /**
    * Envia email de recuperação de senha
    */
@@ -14,7 +19,7 @@ export class PasswordRecoveryService {
       console.log(`🔐 [PasswordRecovery] Sending password reset email to: ${email}`);
       
       const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${window.location.origin}/auth/login`,
+        redirectTo: Linking.createURL(this.RESET_PATH),
       });
 
       if (error) throw error;
@@ -32,7 +37,39 @@ export class PasswordRecoveryService {
   }
 
   /**
-   * Valida força da senha
+   * Abre a sessão de recuperação a partir do link recebido por email
+   */
+  static async consumeRecoveryLink(url: string | null): Promise<void> {
+    await SupabaseService.setSessionFromUrl(url, 'recovery');
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Recovery link is invalid or has expired');
+
+    console.log(`✅ [PasswordRecovery] Recovery session ready for: ${session.user.email}`);
+  }
+
+  /**
+   * Grava a nova senha na sessão atual (recuperação ou troca pelo perfil); o usuário continua conectado
+   */
+  static async updatePassword(password: string): Promise<void> {
+    const validation = this.validatePasswordStrength(password);
+    if (!validation.isValid) throw new Error(validation.errors[0]);
+
+    try {
+      console.log('🔐 [PasswordRecovery] Updating password');
+
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+
+      console.log('✅ [PasswordRecovery] Password updated successfully');
+    } catch (error: any) {
+      console.error('❌ [PasswordRecovery] Error updating password:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Valida força da senha. Os erros são chaves de tradução.
    */
   static validatePasswordStrength(password: string): {
     isValid: boolean;
@@ -44,7 +81,7 @@ export class PasswordRecoveryService {
 
     // Verificações básicas
     if (password.length < 6) {
-      errors.push('Password must be at least 6 characters long');
+      errors.push('passwordMinLength');
     } else {
       score += 1;
     }
@@ -57,7 +94,7 @@ export class PasswordRecoveryService {
     if (/[a-z]/.test(password)) {
       score += 1;
     } else {
-      errors.push('Password must contain lowercase letters');
+      errors.push('passwordNeedsLowercase');
     }
 
     // Verificar se contém letras maiúsculas
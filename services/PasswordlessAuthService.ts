@@ -0,0 +1,83 @@
+import * as Linking from 'expo-linking';
+import { supabase } from '@/config/supabase';
+import { SupabaseService } from '@/services/SupabaseService';
+
+/**
+ * Entrada sem senha: o mesmo email traz um link mágico e um código de 6 dígitos.
+ *
+ * O modelo "Magic Link" do projeto no Supabase precisa exibir {{ .Token }} além
+ * do link, e o endereço de retorno precisa estar nas Redirect URLs.
+ */
+export class PasswordlessAuthService {
+  static readonly CODE_LENGTH = 6;
+  static readonly RESEND_COOLDOWN_SECONDS = 60;
+
+  private static readonly CALLBACK_PATH = 'auth/magic-link';
+
+  // O servidor também limita os envios; aqui só evitamos pedidos que ele recusaria
+  private static lastSentAt = new Map<string, number>();
+
+  static secondsUntilResend(email: string): number {
+    const sentAt = this.lastSentAt.get(this.normalize(email));
+    if (!sentAt) return 0;
+
+    const elapsed = Math.floor((Date.now() - sentAt) / 1000);
+    return Math.max(0, this.RESEND_COOLDOWN_SECONDS - elapsed);
+  }
+
+  /**
+   * Endereço de retorno dos links de email que abrem sessão no app
+   */
+  static callbackUrl(): string {
+    return Linking.createURL(this.CALLBACK_PATH);
+  }
+
+  static async sendSignInEmail(email: string): Promise<void> {
+    const wait = this.secondsUntilResend(email);
+    if (wait > 0) throw new Error(`Please wait ${wait}s before requesting another email`);
+
+    await SupabaseService.sendSignInEmail(email.trim(), this.callbackUrl());
+    this.lastSentAt.set(this.normalize(email), Date.now());
+  }
+
+  static async verifyCode(email: string, code: string): Promise<void> {
+    await SupabaseService.verifyEmailCode(email.trim(), code.replace(/\D/g, ''));
+  }
+
+  /**
+   * Abre a sessão a partir do link mágico do email
+   */
+  static async consumeMagicLink(url: string | null): Promise<void> {
+    await SupabaseService.setSessionFromUrl(url, 'magiclink');
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Sign-in link is invalid or has expired');
+
+    console.log(`✅ [Passwordless] Signed in with magic link: ${session.user.email}`);
+  }
+
+  /**
+   * Chave de tradução para o erro devolvido pelo Supabase
+   */
+  static errorKey(error: any): string {
+    const message = error?.message?.toLowerCase() || '';
+
+    if (error?.status === 429 || message.includes('rate limit') || message.includes('please wait')) {
+      return 'tooManyRequests';
+    }
+    if (message.includes('signups not allowed') || message.includes('user not found')) {
+      return 'emailNotFound';
+    }
+    if (message.includes('expired') || message.includes('invalid')) {
+      return 'signInCodeInvalid';
+    }
+    if (message.includes('network') || message.includes('fetch')) {
+      return 'networkError';
+    }
+    return 'signInEmailError';
+  }
+
+  private static normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
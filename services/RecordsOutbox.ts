@@ -0,0 +1,527 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { SupabaseService } from './SupabaseService';
+import { DailyRecord, DoseIntake } from '@/types/database';
+import { DailyRecordConflict } from '@/utils/RecordMerger';
+
+export type OutboxOperationType = 'create' | 'update' | 'delete';
+
+// Registros diários e tomadas de dose compartilham a mesma fila
+export type OutboxEntity = 'record' | 'intake';
+
+export interface OutboxOperation {
+  id: string;
+  type: OutboxOperationType;
+  entity?: OutboxEntity;
+  userId: string;
+  recordId: string;
+  date?: string;
+  payload?: Partial<DailyRecord>;
+  intake?: Omit<DoseIntake, 'id' | 'created_at' | 'updated_at'>;
+  baseUpdatedAt?: string;
+  attempts: number;
+  createdAt: string;
+}
+
+export type OutboxStatus = 'idle' | 'flushing' | 'waiting' | 'error';
+
+// Operação que o servidor recusou de vez e saiu da fila; fica até o usuário ver o aviso
+export interface RejectedOperation {
+  operation: OutboxOperation;
+  reason: string;
+  rejectedAt: string;
+}
+
+export interface OutboxState {
+  operations: OutboxOperation[];
+  conflicts: DailyRecordConflict[];
+  rejected: RejectedOperation[];
+  status: OutboxStatus;
+  lastError: string | null;
+  nextRetryAt: number | null;
+}
+
+type OutboxListener = (state: OutboxState) => void;
+
+// O que fica gravado no aparelho; versões antigas gravavam só a lista de operações
+interface StoredOutbox {
+  operations: OutboxOperation[];
+  conflicts: DailyRecordConflict[];
+  rejected: RejectedOperation[];
+}
+
+export class RecordsOutbox {
+  private static readonly STORAGE_KEY = 'max_testorin_records_outbox';
+  private static readonly LOCAL_ID_PREFIX = 'local_';
+  private static readonly BASE_RETRY_DELAY = 2000;
+  private static readonly MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+  private static states = new Map<string, OutboxState>();
+  private static listeners = new Map<string, Set<OutboxListener>>();
+  private static flushing = new Map<string, Promise<void>>();
+  private static locks = new Map<string, Promise<unknown>>();
+  private static inFlight = new Map<string, string>();
+  private static retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private static connectivityCleanup: (() => void) | null = null;
+
+  /**
+   * Gera um ID temporário para registros criados offline
+   */
+  static createLocalId(): string {
+    return `${this.LOCAL_ID_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  static isLocalId(recordId?: string): boolean {
+    return !!recordId && recordId.startsWith(this.LOCAL_ID_PREFIX);
+  }
+
+  /**
+   * Registra um listener para o estado da fila do usuário
+   */
+  static subscribe(userId: string, listener: OutboxListener): () => void {
+    const userListeners = this.listeners.get(userId) || new Set<OutboxListener>();
+    userListeners.add(listener);
+    this.listeners.set(userId, userListeners);
+    this.watchConnectivity();
+
+    this.loadState(userId).then((state) => {
+      listener(state);
+      if (state.operations.length > 0) {
+        this.flush(userId);
+      }
+    });
+
+    return () => {
+      userListeners.delete(listener);
+      if (userListeners.size === 0) {
+        this.listeners.delete(userId);
+        this.clearRetryTimer(userId);
+      }
+      if (this.listeners.size === 0) {
+        this.connectivityCleanup?.();
+        this.connectivityCleanup = null;
+      }
+    };
+  }
+
+  /**
+   * Adiciona uma operação na fila, combinando com operações pendentes do mesmo registro
+   */
+  static async enqueue(
+    operation: Omit<OutboxOperation, 'id' | 'attempts' | 'createdAt'>
+  ): Promise<OutboxOperation> {
+    const queued: OutboxOperation = {
+      ...operation,
+      id: `op_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    console.log(`📥 [Outbox] Queueing ${queued.type} for record ${queued.recordId}`);
+
+    await this.update(operation.userId, state => ({
+      ...state,
+      operations: this.coalesce(state.operations, queued),
+    }));
+    this.flush(operation.userId);
+    return queued;
+  }
+
+  /**
+   * Aplica as operações pendentes sobre os registros vindos do servidor.
+   *
+   * O updated_at continua o da versão do servidor: é a base das próximas edições
+   * e não pode parecer uma versão nova feita por outro aparelho.
+   */
+  static applyPending(records: DailyRecord[], operations: OutboxOperation[]): DailyRecord[] {
+    const recordOperations = operations.filter(op => op.entity !== 'intake');
+    if (recordOperations.length === 0) return records;
+
+    let result = [...records];
+    for (const operation of recordOperations) {
+      const index = result.findIndex(r => r.id === operation.recordId);
+
+      if (operation.type === 'create') {
+        const sameDate = result.findIndex(r => r.date === operation.date);
+        const optimistic = {
+          ...(sameDate >= 0 ? result[sameDate] : {}),
+          ...operation.payload,
+          id: operation.recordId,
+          user_id: operation.userId,
+          created_at: sameDate >= 0 ? result[sameDate].created_at : operation.createdAt,
+          updated_at: sameDate >= 0 ? result[sameDate].updated_at : operation.createdAt,
+        } as DailyRecord;
+
+        if (sameDate >= 0) {
+          result[sameDate] = optimistic;
+        } else {
+          result.push(optimistic);
+        }
+      } else if (operation.type === 'update' && index >= 0) {
+        result[index] = {
+          ...result[index],
+          ...operation.payload,
+          updated_at: result[index].updated_at,
+        };
+      } else if (operation.type === 'delete' && index >= 0) {
+        result.splice(index, 1);
+      }
+    }
+
+    return result.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Aplica as tomadas de dose pendentes sobre as vindas do servidor
+   */
+  static applyPendingIntakes(intakes: DoseIntake[], operations: OutboxOperation[]): DoseIntake[] {
+    const intakeOperations = operations.filter(op => op.entity === 'intake');
+    if (intakeOperations.length === 0) return intakes;
+
+    let result = [...intakes];
+    for (const operation of intakeOperations) {
+      if (operation.type === 'create' && operation.intake) {
+        result.push({
+          ...operation.intake,
+          id: operation.recordId,
+          created_at: operation.createdAt,
+          updated_at: operation.createdAt,
+        });
+      } else if (operation.type === 'delete') {
+        result = result.filter(intake => intake.id !== operation.recordId);
+      }
+    }
+
+    return result.sort((a, b) => a.taken_at.localeCompare(b.taken_at));
+  }
+
+  /**
+   * Reenvia as operações pendentes na ordem em que foram feitas
+   */
+  static flush(userId: string): Promise<void> {
+    const running = this.flushing.get(userId);
+    if (running) return running;
+
+    const promise = this.runFlush(userId).finally(() => {
+      this.flushing.delete(userId);
+    });
+    this.flushing.set(userId, promise);
+    return promise;
+  }
+
+  /**
+   * Remove um conflito depois que o usuário decidiu o que manter
+   */
+  static async dismissConflict(userId: string, conflictId: string): Promise<void> {
+    await this.update(userId, state => ({
+      ...state,
+      conflicts: state.conflicts.filter(conflict => conflict.id !== conflictId),
+    }));
+  }
+
+  /**
+   * Esquece as operações recusadas depois que o usuário viu o aviso
+   */
+  static async dismissRejected(userId: string): Promise<void> {
+    await this.update(userId, state => ({
+      ...state,
+      rejected: [],
+      status: state.status === 'error' ? 'idle' : state.status,
+      lastError: null,
+    }));
+  }
+
+  /**
+   * Remove todas as operações pendentes do usuário
+   */
+  static async clear(userId: string): Promise<void> {
+    this.clearRetryTimer(userId);
+    await this.update(userId, () => this.emptyState());
+    await AsyncStorage.removeItem(this.storageKey(userId));
+  }
+
+  /**
+   * Recusa definitiva do servidor (dado inválido, restrição, permissão).
+   * Falhas de rede e do servidor não entram aqui e são tentadas de novo sem limite.
+   */
+  static isPermanentError(error: any): boolean {
+    const code = typeof error?.code === 'string' ? error.code : '';
+    // SQLSTATE 22 (dado inválido), 23 (restrição), 42501 (RLS) e PGRST1xx (requisição inválida)
+    if (/^(22|23)/.test(code) || code === '42501' || /^PGRST1/.test(code)) return true;
+
+    const status = typeof error?.status === 'number' ? error.status : 0;
+    return status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429;
+  }
+
+  static getBackoffDelay(attempts: number): number {
+    const delay = this.BASE_RETRY_DELAY * Math.pow(2, Math.max(0, attempts - 1));
+    return Math.min(delay, this.MAX_RETRY_DELAY);
+  }
+
+  // Métodos auxiliares privados
+  private static async runFlush(userId: string): Promise<void> {
+    this.clearRetryTimer(userId);
+
+    let state = await this.loadState(userId);
+    if (state.operations.length === 0) {
+      const status = this.restingStatus(state);
+      if (state.status !== status) {
+        await this.update(userId, current => ({ ...current, status, nextRetryAt: null }));
+      }
+      return;
+    }
+
+    console.log(`🔄 [Outbox] Replaying ${state.operations.length} pending operations for ${userId}`);
+    await this.update(userId, current => ({ ...current, status: 'flushing', nextRetryAt: null }));
+
+    while (true) {
+      // Sempre relê o estado: novas operações podem entrar durante o envio
+      state = await this.loadState(userId);
+      const operation = state.operations[0];
+      if (!operation) break;
+
+      this.inFlight.set(userId, operation.id);
+      try {
+        const { recordId, updatedAt, conflict } = await this.send(operation);
+        await this.update(userId, current => this.acknowledge(current, operation, recordId, updatedAt, conflict));
+      } catch (error: any) {
+        const message = error?.message || 'Unknown sync error';
+
+        if (this.isPermanentError(error)) {
+          console.warn(`⚠️ [Outbox] Server rejected ${operation.type} for ${operation.recordId}, discarding:`, error);
+          await this.update(userId, current => ({
+            ...current,
+            operations: current.operations.filter(op => op.id !== operation.id),
+            rejected: [...current.rejected, { operation, reason: message, rejectedAt: new Date().toISOString() }],
+            lastError: message,
+          }));
+          continue;
+        }
+
+        const attempts = operation.attempts + 1;
+        console.error(`❌ [Outbox] ${operation.type} failed for ${operation.recordId} (attempt ${attempts}):`, error);
+
+        const delay = this.getBackoffDelay(attempts);
+        await this.update(userId, current => ({
+          ...current,
+          operations: current.operations.map(op => op.id === operation.id ? { ...op, attempts } : op),
+          status: 'waiting',
+          lastError: message,
+          nextRetryAt: Date.now() + delay,
+        }));
+        this.scheduleRetry(userId, delay);
+        return;
+      } finally {
+        this.inFlight.delete(userId);
+      }
+    }
+
+    await this.update(userId, current => ({
+      ...current,
+      status: this.restingStatus(current),
+      nextRetryAt: null,
+    }));
+    console.log(`✅ [Outbox] All pending operations synced for ${userId}`);
+  }
+
+  // Operações seguintes do mesmo registro passam a apontar para o ID real e
+  // para a versão que o servidor acabou de devolver
+  private static acknowledge(
+    state: OutboxState,
+    operation: OutboxOperation,
+    recordId: string | undefined,
+    updatedAt: string | undefined,
+    conflict: DailyRecordConflict | null
+  ): OutboxState {
+    const entity = operation.entity || 'record';
+    const sameRecord = (op: OutboxOperation) =>
+      (op.entity || 'record') === entity &&
+      (op.recordId === operation.recordId || (!!recordId && op.recordId === recordId));
+
+    return {
+      ...state,
+      operations: state.operations
+        .filter(op => op.id !== operation.id)
+        .map(op => sameRecord(op)
+          ? { ...op, recordId: recordId || op.recordId, baseUpdatedAt: updatedAt || op.baseUpdatedAt }
+          : op
+        ),
+      conflicts: conflict ? [...state.conflicts, conflict] : state.conflicts,
+      lastError: null,
+    };
+  }
+
+  private static restingStatus(state: OutboxState): OutboxStatus {
+    return state.rejected.length > 0 ? 'error' : 'idle';
+  }
+
+  private static async send(
+    operation: OutboxOperation
+  ): Promise<{ recordId?: string; updatedAt?: string; conflict: DailyRecordConflict | null }> {
+    if (operation.entity === 'intake') {
+      if (operation.type === 'delete') {
+        await SupabaseService.deleteDoseIntake(operation.recordId);
+        return { conflict: null };
+      }
+      const intake = await SupabaseService.createDoseIntake(operation.intake!);
+      return { recordId: intake.id, conflict: null };
+    }
+
+    const date = operation.date || operation.payload?.date;
+
+    if (operation.type === 'delete') {
+      await SupabaseService.deleteDailyRecord(operation.recordId);
+      return { conflict: null };
+    }
+
+    if (operation.type === 'update' && !date) {
+      await SupabaseService.updateDailyRecord(operation.recordId, operation.payload || {});
+      return { conflict: null };
+    }
+
+    // Criações e edições de um dia passam pelo upsert com mescla de versões concorrentes
+    const { record, conflict } = await SupabaseService.upsertDailyRecord(
+      operation.userId,
+      { ...operation.payload, date: date! },
+      { baseUpdatedAt: operation.baseUpdatedAt, writtenAt: operation.createdAt }
+    );
+    return { recordId: record.id, updatedAt: record.updated_at, conflict };
+  }
+
+  private static coalesce(operations: OutboxOperation[], incoming: OutboxOperation): OutboxOperation[] {
+    if (!this.isLocalId(incoming.recordId)) {
+      return [...operations, incoming];
+    }
+
+    const inFlight = this.inFlight.get(incoming.userId);
+    const pendingCreate = operations.find(
+      op => op.type === 'create' && op.recordId === incoming.recordId && op.attempts === 0 && op.id !== inFlight
+    );
+    if (!pendingCreate) {
+      return [...operations, incoming];
+    }
+
+    if (incoming.type === 'delete') {
+      // O registro nunca chegou ao servidor, basta descartar
+      return operations.filter(op => op.recordId !== incoming.recordId);
+    }
+
+    if (incoming.type === 'update') {
+      return operations.map(op =>
+        op === pendingCreate ? { ...op, payload: { ...op.payload, ...incoming.payload } } : op
+      );
+    }
+
+    return [...operations, incoming];
+  }
+
+  private static scheduleRetry(userId: string, delay: number): void {
+    this.clearRetryTimer(userId);
+    console.log(`⏳ [Outbox] Retrying in ${Math.round(delay / 1000)}s`);
+    this.retryTimers.set(userId, setTimeout(() => {
+      this.retryTimers.delete(userId);
+      this.flush(userId);
+    }, delay));
+  }
+
+  private static clearRetryTimer(userId: string): void {
+    const timer = this.retryTimers.get(userId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(userId);
+    }
+  }
+
+  private static watchConnectivity(): void {
+    if (this.connectivityCleanup) return;
+
+    const flushAll = () => {
+      for (const userId of this.listeners.keys()) {
+        this.flush(userId);
+      }
+    };
+
+    const handleAppState = (nextState: AppStateStatus) => {
+      if (nextState === 'active') flushAll();
+    };
+    const appStateSubscription = AppState.addEventListener('change', handleAppState);
+
+    const hasWindowEvents = typeof window !== 'undefined' && typeof window.addEventListener === 'function';
+    if (hasWindowEvents) {
+      window.addEventListener('online', flushAll);
+    }
+
+    this.connectivityCleanup = () => {
+      appStateSubscription.remove();
+      if (hasWindowEvents) {
+        window.removeEventListener('online', flushAll);
+      }
+    };
+  }
+
+  private static emptyState(): OutboxState {
+    return { operations: [], conflicts: [], rejected: [], status: 'idle', lastError: null, nextRetryAt: null };
+  }
+
+  private static storageKey(userId: string): string {
+    return `${this.STORAGE_KEY}_${userId}`;
+  }
+
+  private static async loadState(userId: string): Promise<OutboxState> {
+    const cached = this.states.get(userId);
+    if (cached) return cached;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey(userId));
+      const parsed: StoredOutbox | OutboxOperation[] | null = stored ? JSON.parse(stored) : null;
+      const saved: StoredOutbox = Array.isArray(parsed)
+        ? { operations: parsed, conflicts: [], rejected: [] }
+        : { operations: parsed?.operations || [], conflicts: parsed?.conflicts || [], rejected: parsed?.rejected || [] };
+
+      // Outra chamada pode ter carregado enquanto esta lia o disco
+      const restored = { ...this.emptyState(), ...saved };
+      const state = this.states.get(userId) || { ...restored, status: this.restingStatus(restored) };
+      this.states.set(userId, state);
+      return state;
+    } catch (error) {
+      console.error('❌ [Outbox] Error loading pending operations:', error);
+      return this.emptyState();
+    }
+  }
+
+  /**
+   * Toda leitura-alteração-gravação da fila passa por aqui, uma de cada vez por
+   * usuário, para que enqueue e o envio não sobrescrevam o trabalho um do outro
+   */
+  private static update(userId: string, change: (state: OutboxState) => OutboxState): Promise<OutboxState> {
+    const previous = this.locks.get(userId) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const state = change(await this.loadState(userId));
+        await this.saveState(userId, state);
+        return state;
+      });
+    this.locks.set(userId, next);
+    return next;
+  }
+
+  private static async saveState(userId: string, state: OutboxState): Promise<void> {
+    this.setState(userId, state);
+    try {
+      const stored: StoredOutbox = {
+        operations: state.operations,
+        conflicts: state.conflicts,
+        rejected: state.rejected,
+      };
+      await AsyncStorage.setItem(this.storageKey(userId), JSON.stringify(stored));
+    } catch (error) {
+      console.error('❌ [Outbox] Error persisting pending operations:', error);
+    }
+  }
+
+  private static setState(userId: string, state: OutboxState): void {
+    this.states.set(userId, state);
+    this.listeners.get(userId)?.forEach(listener => listener(state));
+  }
+}
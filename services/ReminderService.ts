@@ -0,0 +1,191 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { LocalDate } from '@/utils/LocalDate';
+
+export interface ReminderSlot {
+  date: string;
+  time: string;
+  doseNumber: number;
+  capsules: number;
+}
+
+export interface ReminderTexts {
+  title: string;
+  body: (slot: ReminderSlot) => string;
+  snoozeAction: string;
+}
+
+/**
+ * Lembretes de dose como notificações locais de data única.
+ *
+ * Como o esquema muda de um dia para outro (fases, pausas, doses por dia da
+ * semana), cada lembrete é agendado para um dia específico, até DAYS_AHEAD dias
+ * ou MAX_SCHEDULED avisos à frente. A lista é refeita sempre que os registros
+ * mudam e quando o app volta ao primeiro plano; quem ficar sem abrir o app por
+ * mais tempo que isso para de receber lembretes até abri-lo de novo.
+ */
+export class ReminderService {
+  static readonly CHANNEL_ID = 'dose-reminders';
+  static readonly CATEGORY_ID = 'dose-reminder';
+  static readonly SNOOZE_ACTION = 'snooze';
+  static readonly SNOOZE_MINUTES = 15;
+  static readonly DAYS_AHEAD = 60;
+  // O iOS guarda no máximo 64 notificações pendentes por app; sobra espaço para a soneca
+  static readonly MAX_SCHEDULED = 60;
+
+  private static readonly IDENTIFIER_PREFIX = 'dose-reminder-';
+  private static readonly SNOOZE_IDENTIFIER = 'dose-reminder-snooze';
+
+  static isSupported(): boolean {
+    return Platform.OS !== 'web';
+  }
+
+  /**
+   * Configura exibição em primeiro plano, canal do Android e ação de soneca
+   */
+  static async configure(snoozeAction: string): Promise<void> {
+    if (!this.isSupported()) return;
+
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(this.CHANNEL_ID, {
+        name: 'Dose reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    await Notifications.setNotificationCategoryAsync(this.CATEGORY_ID, [
+      {
+        identifier: this.SNOOZE_ACTION,
+        buttonTitle: snoozeAction,
+        options: { opensAppToForeground: false },
+      },
+    ]);
+  }
+
+  static async hasPermission(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+
+    const { granted } = await Notifications.getPermissionsAsync();
+    return granted;
+  }
+
+  static async requestPermission(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+
+    const { granted } = await Notifications.requestPermissionsAsync();
+    console.log(`🔔 [Reminders] Permission ${granted ? 'granted' : 'denied'}`);
+    return granted;
+  }
+
+  /**
+   * Substitui todos os lembretes agendados pelos horários informados.
+   * Horários que já passaram são ignorados; a soneca pendente é mantida
+   * enquanto o dia não for concluído.
+   */
+  static async reschedule(slots: ReminderSlot[], texts: ReminderTexts, keepSnooze = true): Promise<number> {
+    if (!this.isSupported()) return 0;
+
+    await this.cancelAll(!keepSnooze);
+
+    const now = Date.now();
+    let scheduled = 0;
+
+    for (const slot of slots) {
+      const triggerDate = LocalDate.toInstant(slot.date, slot.time);
+      if (!triggerDate || triggerDate.getTime() <= now) continue;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${this.IDENTIFIER_PREFIX}${slot.date}-${slot.doseNumber}`,
+        content: {
+          title: texts.title,
+          body: texts.body(slot),
+          categoryIdentifier: this.CATEGORY_ID,
+          data: { date: slot.date, time: slot.time, doseNumber: slot.doseNumber, capsules: slot.capsules },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: triggerDate,
+          channelId: this.CHANNEL_ID,
+        },
+      });
+      scheduled++;
+    }
+
+    console.log(`🔔 [Reminders] Scheduled ${scheduled} reminders`);
+    return scheduled;
+  }
+
+  /**
+   * Repete o lembrete depois de alguns minutos
+   */
+  static async snooze(slot: ReminderSlot, texts: ReminderTexts, minutes = this.SNOOZE_MINUTES): Promise<void> {
+    if (!this.isSupported()) return;
+
+    await Notifications.cancelScheduledNotificationAsync(this.SNOOZE_IDENTIFIER);
+    await Notifications.scheduleNotificationAsync({
+      identifier: this.SNOOZE_IDENTIFIER,
+      content: {
+        title: texts.title,
+        body: texts.body(slot),
+        categoryIdentifier: this.CATEGORY_ID,
+        data: { date: slot.date, time: slot.time, doseNumber: slot.doseNumber, capsules: slot.capsules },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+        seconds: minutes * 60,
+        channelId: this.CHANNEL_ID,
+      },
+    });
+
+    console.log(`😴 [Reminders] Reminder snoozed for ${minutes} minutes`);
+  }
+
+  /**
+   * Cancela os lembretes do app (e a soneca, se pedido)
+   */
+  static async cancelAll(includeSnooze = true): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const requests = await Notifications.getAllScheduledNotificationsAsync();
+    const ours = requests.filter(request =>
+      request.identifier.startsWith(this.IDENTIFIER_PREFIX) &&
+      (includeSnooze || request.identifier !== this.SNOOZE_IDENTIFIER)
+    );
+
+    await Promise.all(ours.map(request => Notifications.cancelScheduledNotificationAsync(request.identifier)));
+  }
+
+  /**
+   * Recebe o toque em "soneca" nas notificações de lembrete
+   */
+  static addSnoozeListener(onSnooze: (slot: ReminderSlot) => void): { remove: () => void } {
+    if (!this.isSupported()) return { remove: () => {} };
+
+    return Notifications.addNotificationResponseReceivedListener(response => {
+      if (response.actionIdentifier !== this.SNOOZE_ACTION) return;
+
+      const data = response.notification.request.content.data as Partial<ReminderSlot>;
+      if (!data?.date) return;
+
+      onSnooze({
+        date: data.date,
+        time: data.time || '',
+        doseNumber: data.doseNumber || 1,
+        capsules: data.capsules || 0,
+      });
+    });
+  }
+}
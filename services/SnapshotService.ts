@@ -0,0 +1,200 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+import { BackupCrypto } from '@/utils/BackupCrypto';
+import { DataManager } from '@/utils/DataManager';
+import { LocalDate } from '@/utils/LocalDate';
+
+export type SnapshotFrequency = 'off' | 'daily' | 'weekly';
+
+export interface SnapshotSettings {
+  frequency: SnapshotFrequency;
+  retention: number;
+}
+
+export interface SnapshotInfo {
+  uri: string;
+  fileName: string;
+  createdAt: string;
+  size: number;
+}
+
+/**
+ * Backups automáticos cifrados guardados no próprio aparelho.
+ *
+ * A senha de cada aparelho é gerada na primeira vez e fica no SecureStore, por
+ * isso os arquivos só podem ser restaurados aqui. Para levar dados a outro
+ * aparelho continua valendo a exportação manual.
+ */
+export class SnapshotService {
+  static readonly RETENTION_OPTIONS = [3, 7, 14, 30];
+  static readonly DEFAULT_SETTINGS: SnapshotSettings = { frequency: 'daily', retention: 7 };
+
+  private static readonly SETTINGS_KEY = 'backupSnapshotSettings';
+  private static readonly PASSPHRASE_KEY = 'backupSnapshotPassphrase';
+  private static readonly PASSPHRASE_BYTES = 32;
+  private static readonly FILE_PREFIX = 'MaxTestorin_Snapshot_';
+  private static readonly EMPTY_SUFFIX = '_empty';
+  private static readonly INTERVAL_DAYS: Record<Exclude<SnapshotFrequency, 'off'>, number> = {
+    daily: 1,
+    weekly: 7,
+  };
+
+  private static running: Promise<SnapshotInfo | null> | null = null;
+
+  static isSupported(): boolean {
+    return Platform.OS !== 'web';
+  }
+
+  static async getSettings(): Promise<SnapshotSettings> {
+    try {
+      const stored = await AsyncStorage.getItem(this.SETTINGS_KEY);
+      return stored ? { ...this.DEFAULT_SETTINGS, ...JSON.parse(stored) } : this.DEFAULT_SETTINGS;
+    } catch (error) {
+      console.error('❌ [Snapshots] Error reading settings:', error);
+      return this.DEFAULT_SETTINGS;
+    }
+  }
+
+  static async saveSettings(userId: string, settings: SnapshotSettings): Promise<void> {
+    await AsyncStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+    await this.prune(userId, settings.retention);
+  }
+
+  /**
+   * Cria um backup se o último for mais antigo que a frequência escolhida.
+   * Chamadas simultâneas (abertura do app + volta ao primeiro plano) viram uma.
+   */
+  static runIfDue(userId: string): Promise<SnapshotInfo | null> {
+    if (!this.isSupported()) return Promise.resolve(null);
+
+    if (!this.running) {
+      this.running = this.createIfDue(userId).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Sem conexão a exportação falha e nenhum arquivo é criado: um backup vazio
+   * gravado offline empurraria os bons para fora da retenção.
+   */
+  static async create(userId: string): Promise<SnapshotInfo> {
+    const passphrase = await this.getPassphrase();
+    const json = await DataManager.exportUserData(userId);
+    const { records, intakes } = JSON.parse(json);
+    const empty = records.length === 0 && intakes.length === 0;
+    const content = await BackupCrypto.encrypt(json, passphrase);
+
+    const now = new Date();
+    const stamp = `${LocalDate.fromInstant(now)}_${LocalDate.timeOf(now).replace(':', '-')}-${String(now.getSeconds()).padStart(2, '0')}`;
+    const fileName = `${this.FILE_PREFIX}${stamp}${empty ? this.EMPTY_SUFFIX : ''}.json`;
+
+    await FileSystem.makeDirectoryAsync(this.directory(userId), { intermediates: true });
+    await FileSystem.writeAsStringAsync(this.directory(userId) + fileName, content);
+
+    const settings = await this.getSettings();
+    await this.prune(userId, settings.retention);
+
+    console.log(`💾 [Snapshots] Created ${fileName}`);
+    return {
+      uri: this.directory(userId) + fileName,
+      fileName,
+      createdAt: now.toISOString(),
+      size: content.length,
+    };
+  }
+
+  /**
+   * Backups do usuário neste aparelho, do mais recente para o mais antigo
+   */
+  static async list(userId: string): Promise<SnapshotInfo[]> {
+    if (!this.isSupported()) return [];
+
+    const directory = this.directory(userId);
+    const { exists } = await FileSystem.getInfoAsync(directory);
+    if (!exists) return [];
+
+    const fileNames = (await FileSystem.readDirectoryAsync(directory))
+      .filter(fileName => fileName.startsWith(this.FILE_PREFIX));
+
+    const snapshots = await Promise.all(fileNames.map(async fileName => {
+      const info = await FileSystem.getInfoAsync(directory + fileName);
+      return {
+        uri: directory + fileName,
+        fileName,
+        createdAt: info.exists ? new Date(info.modificationTime * 1000).toISOString() : '',
+        size: info.exists ? info.size : 0,
+      };
+    }));
+
+    // O nome carrega data e hora, então a ordem alfabética é a cronológica
+    return snapshots.sort((a, b) => b.fileName.localeCompare(a.fileName));
+  }
+
+  /**
+   * Conteúdo decifrado do backup, pronto para o fluxo normal de importação
+   */
+  static async read(snapshot: SnapshotInfo): Promise<string> {
+    const content = await FileSystem.readAsStringAsync(snapshot.uri);
+    return BackupCrypto.decrypt(content, await this.getPassphrase());
+  }
+
+  static async remove(snapshot: SnapshotInfo): Promise<void> {
+    await FileSystem.deleteAsync(snapshot.uri, { idempotent: true });
+    console.log(`🗑️ [Snapshots] Deleted ${snapshot.fileName}`);
+  }
+
+  private static async createIfDue(userId: string): Promise<SnapshotInfo | null> {
+    try {
+      const settings = await this.getSettings();
+      if (settings.frequency === 'off') return null;
+
+      const [latest] = await this.list(userId);
+      if (latest && LocalDate.daysBetween(LocalDate.fromInstant(new Date(latest.createdAt)), LocalDate.today()) < this.INTERVAL_DAYS[settings.frequency]) {
+        return null;
+      }
+
+      return await this.create(userId);
+    } catch (error) {
+      console.error('❌ [Snapshots] Error creating automatic backup:', error);
+      return null;
+    }
+  }
+
+  // Se o backup mais recente está vazio e algum anterior tem dados, nada é
+  // apagado até que um backup com dados volte a ser o mais recente
+  private static async prune(userId: string, retention: number): Promise<void> {
+    const snapshots = await this.list(userId);
+    const [latest, ...older] = snapshots;
+    if (latest && this.isEmpty(latest) && older.some(snapshot => !this.isEmpty(snapshot))) {
+      console.warn('⚠️ [Snapshots] Latest backup has no records; keeping older backups');
+      return;
+    }
+
+    for (const snapshot of snapshots.slice(retention)) {
+      await this.remove(snapshot);
+    }
+  }
+
+  private static isEmpty(snapshot: SnapshotInfo): boolean {
+    return snapshot.fileName.endsWith(`${this.EMPTY_SUFFIX}.json`);
+  }
+
+  private static async getPassphrase(): Promise<string> {
+    const stored = await SecureStore.getItemAsync(this.PASSPHRASE_KEY);
+    if (stored) return stored;
+
+    const bytes = Crypto.getRandomBytes(this.PASSPHRASE_BYTES);
+    const passphrase = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    await SecureStore.setItemAsync(this.PASSPHRASE_KEY, passphrase);
+    return passphrase;
+  }
+
+  private static directory(userId: string): string {
+    return `${FileSystem.documentDirectory}snapshots/${userId}/`;
+  }
+}
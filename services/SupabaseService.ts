@@ -1,7 +1,26 @@
+import { Platform } from 'react-native';
 import { supabase } from '@/config/supabase';
-import { User, UserProfile, DailyRecord, UserSettings } from '@/types/database';
+import { User, UserProfile, DailyRecord, DoseIntake, DosingSchedule, UserSettings, AccountDeletion } from '@/types/database';
+import { RecordMerger, DailyRecordConflict } from '@/utils/RecordMerger';
+import { RecordStore, DailyRecordStore, RecordChangePayload } from '@/utils/RecordStore';
+
+export interface DailyRecordWriteResult {
+  record: DailyRecord;
+  conflict: DailyRecordConflict | null;
+}
+
+export interface RealtimeSubscription {
+  reconcile: () => Promise<void>;
+  unsubscribe: () => void;
+}
 
 export class SupabaseService {
+  // Prazo para desistir da exclusão da conta; o trigger da migração account_deletion usa o mesmo valor
+  static readonly ACCOUNT_DELETION_GRACE_DAYS = 7;
+  private static readonly RECORDS_RECONCILE_INTERVAL = 5 * 60 * 1000;
+  private static readonly BULK_BATCH_SIZE = 500;
+  private static readonly DELETE_BATCH_SIZE = 100;
+
   // Authentication Methods
   static async registerUser(email: string, password: string, name: string): Promise<User> {
     try {
@@ -101,6 +120,149 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Envia o email de entrada sem senha, com o link mágico e o código de 6 dígitos.
+   * Só contas já cadastradas: o cadastro continua criando perfil e configurações.
+   */
+  static async sendSignInEmail(email: string, redirectTo: string): Promise<void> {
+    try {
+      console.log(`✉️ [Supabase] Sending sign-in email to: ${email}`);
+
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          shouldCreateUser: false,
+          emailRedirectTo: redirectTo,
+        },
+      });
+
+      if (error) throw error;
+      console.log(`✅ [Supabase] Sign-in email sent to: ${email}`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error sending sign-in email:', error);
+      throw error;
+    }
+  }
+
+  static async verifyEmailCode(email: string, code: string): Promise<any> {
+    try {
+      console.log(`🔐 [Supabase] Verifying sign-in code for: ${email}`);
+
+      const { data, error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' });
+
+      if (error) throw error;
+      if (!data.user) throw new Error('No user returned from code verification');
+
+      console.log(`✅ [Supabase] User logged in with code: ${data.user.id}`);
+      return data.user;
+    } catch (error) {
+      console.error('❌ [Supabase] Error verifying sign-in code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirma a senha atual antes de trocar email ou senha
+   */
+  static async reauthenticate(email: string, password: string): Promise<void> {
+    try {
+      console.log(`🔐 [Supabase] Re-authenticating user: ${email}`);
+
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+
+      console.log(`✅ [Supabase] User re-authenticated`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error re-authenticating:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pede a troca do email da conta. A troca só vale depois da confirmação
+   * pelo link enviado; até lá o novo endereço fica em user.new_email.
+   */
+  static async requestEmailChange(email: string, redirectTo: string): Promise<any> {
+    try {
+      console.log(`✉️ [Supabase] Requesting email change to: ${email}`);
+
+      const { data, error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: redirectTo });
+      if (error) throw error;
+
+      console.log(`✅ [Supabase] Email change confirmation sent to: ${email}`);
+      return data.user;
+    } catch (error) {
+      console.error('❌ [Supabase] Error requesting email change:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copia o email confirmado da conta para as tabelas users e user_profiles
+   */
+  static async syncAccountEmail(userId: string, email: string): Promise<void> {
+    try {
+      console.log(`✉️ [Supabase] Syncing account email for: ${userId}`);
+
+      const [users, profiles] = await Promise.all([
+        supabase.from('users').update({ email }).eq('id', userId),
+        supabase.from('user_profiles').update({ email }).eq('user_id', userId),
+      ]);
+
+      if (users.error) throw users.error;
+      if (profiles.error) throw profiles.error;
+
+      console.log(`✅ [Supabase] Account email synced`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error syncing account email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Abre a sessão trazida por um link de email (entrada sem senha, recuperação).
+   *
+   * No web o cliente do Supabase já lê o endereço ao iniciar (detectSessionInUrl);
+   * no aparelho o link chega como deep link e os tokens são lidos aqui.
+   */
+  static async setSessionFromUrl(url: string | null, type: 'magiclink' | 'recovery'): Promise<void> {
+    const params = this.linkParams(url);
+    if (params.error_description || params.error) {
+      throw new Error(params.error_description || params.error);
+    }
+    if (Platform.OS === 'web') return;
+
+    if (params.code) {
+      const { error } = await supabase.auth.exchangeCodeForSession(params.code);
+      if (error) throw error;
+    } else if (params.access_token && params.refresh_token) {
+      const { error } = await supabase.auth.setSession({
+        access_token: params.access_token,
+        refresh_token: params.refresh_token,
+      });
+      if (error) throw error;
+    } else if (params.token_hash) {
+      // O link de troca de email chega pelo mesmo endereço e traz o próprio tipo
+      const { error } = await supabase.auth.verifyOtp({ type: params.type || type, token_hash: params.token_hash });
+      if (error) throw error;
+    }
+  }
+
+  // Parâmetros da query e do fragmento (#) do link, que variam conforme o fluxo
+  private static linkParams(url: string | null): Record<string, string> {
+    const params: Record<string, string> = {};
+    if (!url) return params;
+
+    const [base, fragment = ''] = url.split('#');
+    const query = base.split('?')[1] || '';
+    for (const part of [query, fragment]) {
+      new URLSearchParams(part).forEach((value, key) => {
+        params[key] = value;
+      });
+    }
+    return params;
+  }
+
   // User Profile Methods
   static async createUserProfile(userId: string, profileData: Omit<UserProfile, 'created_at' | 'updated_at'>): Promise<void> {
     try {
@@ -264,7 +426,29 @@ export class SupabaseService {
       return data || [];
     } catch (error) {
       console.error('❌ [Supabase] Error getting daily records:', error);
-      return [];
+      throw error;
+    }
+  }
+
+  static async getDailyRecordsInRange(userId: string, startDate: string, endDate: string): Promise<DailyRecord[]> {
+    try {
+      console.log(`🔍 [Supabase] Getting daily records for user ${userId} from ${startDate} to ${endDate}`);
+
+      const { data, error } = await supabase
+        .from('daily_records')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+
+      console.log(`✅ [Supabase] Retrieved ${data?.length || 0} daily records in range`);
+      return data || [];
+    } catch (error) {
+      console.error('❌ [Supabase] Error getting daily records in range:', error);
+      throw error;
     }
   }
 
@@ -326,6 +510,222 @@ export class SupabaseService {
     }
   }
 
+  static async upsertDailyRecord(
+    userId: string,
+    record: Partial<DailyRecord> & { date: string },
+    options: { baseUpdatedAt?: string; writtenAt?: string } = {}
+  ): Promise<DailyRecordWriteResult> {
+    try {
+      console.log(`💾 [Supabase] Upserting daily record for user ${userId} on ${record.date}`);
+
+      const writtenAt = options.writtenAt || new Date().toISOString();
+      const { id, user_id, created_at, updated_at, ...fields } = record;
+
+      // Insert only if the day doesn't exist yet; UNIQUE(user_id, date) arbitrates races
+      const { data: inserted, error: insertError } = await supabase
+        .from('daily_records')
+        .upsert(
+          { ...fields, user_id: userId, updated_at: writtenAt },
+          { onConflict: 'user_id,date', ignoreDuplicates: true }
+        )
+        .select();
+
+      if (insertError) throw insertError;
+      if (inserted && inserted.length > 0) {
+        console.log(`✅ [Supabase] Daily record inserted with ID: ${inserted[0].id}`);
+        return { record: inserted[0], conflict: null };
+      }
+
+      // Another device already wrote this day: merge with what is stored
+      const remote = await this.getDailyRecordByDate(userId, record.date);
+      if (!remote) throw new Error(`Daily record for ${record.date} disappeared during upsert`);
+
+      if (!RecordMerger.wasModifiedSince(remote, options.baseUpdatedAt)) {
+        const updated = await this.writeDailyRecordFields(remote.id!, fields);
+        console.log(`✅ [Supabase] Daily record ${remote.id} updated without conflicts`);
+        return { record: updated, conflict: null };
+      }
+
+      const merged = RecordMerger.merge(remote, fields, writtenAt);
+      const { id: _id, user_id: _userId, created_at: _createdAt, updated_at: _updatedAt, ...mergedFields } = merged;
+      const stored = await this.writeDailyRecordFields(remote.id!, mergedFields);
+
+      const conflict: DailyRecordConflict | null = RecordMerger.isTrueConflict(remote, fields)
+        ? {
+            id: `conflict_${remote.id}_${Date.now()}`,
+            date: record.date,
+            local: fields,
+            remote,
+            merged: stored,
+            detectedAt: new Date().toISOString(),
+          }
+        : null;
+
+      console.log(`🔀 [Supabase] Concurrent edit merged for ${record.date}${conflict ? ' (needs user decision)' : ''}`);
+      return { record: stored, conflict };
+    } catch (error) {
+      console.error('❌ [Supabase] Error upserting daily record:', error);
+      throw error;
+    }
+  }
+
+  // Returns the stored row so callers see the updated_at set by the trigger
+  private static async writeDailyRecordFields(recordId: string, fields: Partial<DailyRecord>): Promise<DailyRecord> {
+    const { data, error } = await supabase
+      .from('daily_records')
+      .update(fields)
+      .eq('id', recordId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Só as datas de registros e doses, para estatísticas de uso sem baixar tudo
+   */
+  static async getCloudDates(userId: string): Promise<{ records: string[]; intakes: string[] }> {
+    try {
+      console.log(`🔍 [Supabase] Getting record dates for user ${userId}`);
+
+      const [records, intakes] = await Promise.all([
+        supabase.from('daily_records').select('date').eq('user_id', userId),
+        supabase.from('dose_intakes').select('date').eq('user_id', userId),
+      ]);
+
+      if (records.error) throw records.error;
+      if (intakes.error) throw intakes.error;
+
+      return {
+        records: (records.data || []).map((row: { date: string }) => row.date),
+        intakes: (intakes.data || []).map((row: { date: string }) => row.date),
+      };
+    } catch (error) {
+      console.error('❌ [Supabase] Error getting record dates:', error);
+      throw error;
+    }
+  }
+
+  // Dose Intake Methods
+  static async getDoseIntakes(userId: string): Promise<DoseIntake[]> {
+    try {
+      console.log(`🔍 [Supabase] Getting dose intakes for user ${userId}`);
+
+      const { data, error } = await supabase
+        .from('dose_intakes')
+        .select('*')
+        .eq('user_id', userId)
+        .order('taken_at', { ascending: true });
+
+      if (error) throw error;
+
+      console.log(`✅ [Supabase] Retrieved ${data?.length || 0} dose intakes`);
+      return data || [];
+    } catch (error) {
+      console.error('❌ [Supabase] Error getting dose intakes:', error);
+      throw error;
+    }
+  }
+
+  static async createDoseIntake(intake: Omit<DoseIntake, 'id' | 'created_at' | 'updated_at'>): Promise<DoseIntake> {
+    try {
+      console.log(`💊 [Supabase] Creating dose intake for ${intake.date}`);
+
+      const { data, error } = await supabase
+        .from('dose_intakes')
+        .insert(intake)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      console.log(`✅ [Supabase] Dose intake created with ID: ${data.id}`);
+      return data;
+    } catch (error) {
+      console.error('❌ [Supabase] Error creating dose intake:', error);
+      throw error;
+    }
+  }
+
+  static async deleteDoseIntake(intakeId: string): Promise<void> {
+    try {
+      console.log(`🗑️ [Supabase] Deleting dose intake: ${intakeId}`);
+
+      const { error } = await supabase
+        .from('dose_intakes')
+        .delete()
+        .eq('id', intakeId);
+
+      if (error) throw error;
+      console.log(`✅ [Supabase] Dose intake deleted successfully`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error deleting dose intake:', error);
+      throw error;
+    }
+  }
+
+  // Dosing Schedule Methods
+  static async getDosingSchedule(userId: string): Promise<DosingSchedule | null> {
+    try {
+      console.log(`📅 [Supabase] Getting dosing schedule for: ${userId}`);
+
+      const { data, error } = await supabase
+        .from('dosing_schedules')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      console.log(`✅ [Supabase] Dosing schedule ${data ? 'found' : 'not configured'}`);
+      return data;
+    } catch (error) {
+      console.error('❌ [Supabase] Error getting dosing schedule:', error);
+      return null;
+    }
+  }
+
+  static async saveDosingSchedule(
+    userId: string,
+    schedule: Pick<DosingSchedule, 'name' | 'start_date' | 'phases'>
+  ): Promise<DosingSchedule> {
+    try {
+      console.log(`📅 [Supabase] Saving dosing schedule for: ${userId}`);
+
+      const { data, error } = await supabase
+        .from('dosing_schedules')
+        .upsert({ ...schedule, user_id: userId }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      console.log(`✅ [Supabase] Dosing schedule saved successfully`);
+      return data;
+    } catch (error) {
+      console.error('❌ [Supabase] Error saving dosing schedule:', error);
+      throw error;
+    }
+  }
+
+  static async deleteDosingSchedule(userId: string): Promise<void> {
+    try {
+      console.log(`🗑️ [Supabase] Deleting dosing schedule for: ${userId}`);
+
+      const { error } = await supabase
+        .from('dosing_schedules')
+        .delete()
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      console.log(`✅ [Supabase] Dosing schedule deleted successfully`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error deleting dosing schedule:', error);
+      throw error;
+    }
+  }
+
   // User Settings Methods
   static async createUserSettings(userId: string, settings: Omit<UserSettings, 'created_at' | 'updated_at'>): Promise<void> {
     try {
@@ -363,6 +763,10 @@ export class SupabaseService {
           reminder_time: '09:00',
           daily_goal: 2,
           weekly_goal: 14,
+          doses_per_day: 1,
+          streak_freeze_days: 0,
+          backfill_window_days: 7,
+          count_backfilled_days: true,
           theme: 'light',
           language: 'en',
         };
@@ -463,6 +867,45 @@ export class SupabaseService {
     }
   }
 
+  static async listProfileImages(userId: string): Promise<{ name: string; size: number }[]> {
+    try {
+      console.log(`🔍 [Supabase] Listing profile images for user ${userId}`);
+
+      const { data, error } = await supabase.storage
+        .from('profile-images')
+        .list(userId, { limit: 1000 });
+
+      if (error) throw error;
+
+      const files = (data || [])
+        .filter((file: any) => file.id)
+        .map((file: any) => ({ name: file.name as string, size: file.metadata?.size || 0 }));
+      console.log(`✅ [Supabase] Found ${files.length} profile images`);
+      return files;
+    } catch (error) {
+      console.error('❌ [Supabase] Error listing profile images:', error);
+      throw error;
+    }
+  }
+
+  static async deleteProfileImageFiles(userId: string, fileNames: string[]): Promise<void> {
+    if (fileNames.length === 0) return;
+
+    try {
+      console.log(`🗑️ [Supabase] Deleting ${fileNames.length} profile images for user ${userId}`);
+
+      const { error } = await supabase.storage
+        .from('profile-images')
+        .remove(fileNames.map(fileName => `${userId}/${fileName}`));
+
+      if (error) throw error;
+      console.log(`✅ [Supabase] Profile images deleted successfully`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error deleting profile images:', error);
+      throw error;
+    }
+  }
+
   // Real-time Listeners
   static subscribeToUserProfile(userId: string, callback: (profile: UserProfile | null) => void) {
     console.log(`🔔 [Supabase] Setting up profile subscription for user: ${userId}`);
@@ -492,14 +935,61 @@ export class SupabaseService {
       .subscribe();
   }
 
-  static subscribeToDailyRecords(userId: string, callback: (records: DailyRecord[]) => void) {
+  static subscribeToDailyRecords(
+    userId: string,
+    callback: (store: DailyRecordStore) => void,
+    onError?: (error: unknown) => void
+  ): RealtimeSubscription {
     console.log(`🔔 [Supabase] Setting up records subscription for user: ${userId}`);
-    
+
+    let store = RecordStore.empty();
+    let loaded = false;
+    let closed = false;
+    // Eventos que chegam antes da carga inicial são aplicados depois dela
+    let buffered: RecordChangePayload[] = [];
+
+    const emit = (next: DailyRecordStore) => {
+      if (closed || next === store) return;
+      store = next;
+      callback(store);
+    };
+
+    // Se a busca falhar o erro sobe e o estado atual fica como está
+    const reconcile = async () => {
+      const records = await this.getDailyRecords(userId);
+      if (closed) return;
+
+      let next = RecordStore.reconcile(store, records);
+      if (!loaded) {
+        loaded = true;
+        next = buffered.reduce((acc, payload) => RecordStore.applyChange(acc, payload), next);
+        buffered = [];
+        // A primeira carga sempre notifica, mesmo sem registros
+        store = next;
+        callback(store);
+        return;
+      }
+      emit(next);
+    };
+
+    const reconcileInBackground = () => {
+      reconcile().catch(error => {
+        console.warn(`⚠️ [Supabase] Records reconcile failed, keeping current records:`, error);
+        if (!closed) onError?.(error);
+      });
+    };
+
     // Initial fetch
-    this.getDailyRecords(userId).then(callback);
+    reconcileInBackground();
 
-    // Set up real-time subscription
-    return supabase
+    // Busca completa periódica para recuperar eventos perdidos
+    const reconcileTimer = setInterval(() => {
+      console.log(`🔄 [Supabase] Reconciling daily records for user: ${userId}`);
+      reconcileInBackground();
+    }, this.RECORDS_RECONCILE_INTERVAL);
+
+    let disconnected = false;
+    const channel = supabase
       .channel(`records_${userId}`)
       .on(
         'postgres_changes',
@@ -509,123 +999,293 @@ export class SupabaseService {
           table: 'daily_records',
           filter: `user_id=eq.${userId}`,
         },
-        async (payload) => {
-          console.log('🔔 [Supabase] Records change detected:', payload);
-          
-          // Fetch updated records
-          const records = await this.getDailyRecords(userId);
-          callback(records);
+        (payload: RecordChangePayload) => {
+          console.log(`🔔 [Supabase] Records ${payload.eventType} detected`);
+
+          if (!loaded) {
+            buffered.push(payload);
+            return;
+          }
+          emit(RecordStore.applyChange(store, payload));
+        }
+      )
+      .subscribe((status: string) => {
+        if (status === 'SUBSCRIBED' && disconnected) {
+          // Eventos emitidos enquanto o canal estava fora não são reenviados
+          console.log(`🔌 [Supabase] Records channel reconnected for user: ${userId}`);
+          disconnected = false;
+          reconcileInBackground();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          disconnected = true;
+        }
+      });
+
+    return {
+      reconcile,
+      unsubscribe: () => {
+        closed = true;
+        clearInterval(reconcileTimer);
+        channel.unsubscribe();
+      },
+    };
+  }
+
+  static subscribeToDoseIntakes(
+    userId: string,
+    callback: (intakes: DoseIntake[]) => void
+  ): RealtimeSubscription {
+    console.log(`🔔 [Supabase] Setting up intakes subscription for user: ${userId}`);
+
+    let intakes: DoseIntake[] = [];
+    let closed = false;
+
+    const emit = (next: DoseIntake[]) => {
+      if (closed) return;
+      intakes = next;
+      callback(intakes);
+    };
+
+    // Se a busca falhar o erro sobe e as doses atuais ficam como estão
+    const reconcile = async () => {
+      const fresh = await this.getDoseIntakes(userId);
+      emit(fresh);
+    };
+
+    const reconcileInBackground = () => {
+      reconcile().catch(error => {
+        console.warn(`⚠️ [Supabase] Intakes reconcile failed, keeping current intakes:`, error);
+      });
+    };
+
+    reconcileInBackground();
+
+    const reconcileTimer = setInterval(reconcileInBackground, this.RECORDS_RECONCILE_INTERVAL);
+
+    const channel = supabase
+      .channel(`intakes_${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'dose_intakes',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload: { eventType: string; new: DoseIntake; old: Partial<DoseIntake> }) => {
+          console.log(`🔔 [Supabase] Intakes ${payload.eventType} detected`);
+
+          const id = payload.eventType === 'DELETE' ? payload.old?.id : payload.new?.id;
+          const rest = intakes.filter(intake => intake.id !== id);
+          emit(payload.eventType === 'DELETE'
+            ? rest
+            : [...rest, payload.new].sort((a, b) => a.taken_at.localeCompare(b.taken_at))
+          );
         }
       )
       .subscribe();
+
+    return {
+      reconcile,
+      unsubscribe: () => {
+        closed = true;
+        clearInterval(reconcileTimer);
+        channel.unsubscribe();
+      },
+    };
   }
 
-  // Password Recovery
-  static async sendPasswordResetEmail(email: string): Promise<void> {
+  // Account Deletion
+  static async getAccountDeletion(userId: string): Promise<AccountDeletion | null> {
     try {
-      console.log(`🔐 [Supabase] Sending password reset email to: ${email}`);
-      
-      const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${window.location.origin}/auth/login`,
-      });
+      console.log(`🗑️ [Supabase] Checking account deletion for: ${userId}`);
+
+      const { data, error } = await supabase
+        .from('account_deletions')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
 
       if (error) throw error;
-      console.log(`✅ [Supabase] Password reset email sent successfully`);
+
+      console.log(`✅ [Supabase] Account deletion ${data ? `scheduled for ${data.purge_after}` : 'not requested'}`);
+      return data;
     } catch (error) {
-      console.error('❌ [Supabase] Error sending password reset email:', error);
+      console.error('❌ [Supabase] Error checking account deletion:', error);
       throw error;
     }
   }
 
-  // Batch Operations
-  static async clearAllUserData(userId: string): Promise<void> {
+  /**
+   * Agenda a exclusão da conta. O prazo é definido pelo banco e a exclusão
+   * em si é feita pela função delete-account quando ele termina.
+   */
+  static async requestAccountDeletion(userId: string): Promise<AccountDeletion> {
     try {
-      console.log(`🧹 [Supabase] Clearing all data for user: ${userId}`);
-      
-      // Delete user profile
-      await supabase
-        .from('user_profiles')
+      console.log(`🗑️ [Supabase] Requesting account deletion for: ${userId}`);
+
+      const { data, error } = await supabase
+        .from('account_deletions')
+        .insert({ user_id: userId })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      console.log(`✅ [Supabase] Account deletion scheduled for ${data.purge_after}`);
+      return data;
+    } catch (error) {
+      console.error('❌ [Supabase] Error requesting account deletion:', error);
+      throw error;
+    }
+  }
+
+  static async cancelAccountDeletion(userId: string): Promise<void> {
+    try {
+      console.log(`↩️ [Supabase] Cancelling account deletion for: ${userId}`);
+
+      const { error } = await supabase
+        .from('account_deletions')
         .delete()
         .eq('user_id', userId);
 
-      // Delete user settings
-      await supabase
+      if (error) throw error;
+      console.log(`✅ [Supabase] Account deletion cancelled`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error cancelling account deletion:', error);
+      throw error;
+    }
+  }
+
+  // Batch Operations
+  static async upsertUserProfile(userId: string, profile: Partial<UserProfile>): Promise<void> {
+    try {
+      console.log(`👤 [Supabase] Upserting user profile for: ${userId}`);
+
+      const { created_at, updated_at, ...fields } = profile;
+      const { error } = await supabase
+        .from('user_profiles')
+        .upsert({ ...fields, user_id: userId }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+      console.log(`✅ [Supabase] User profile upserted successfully`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error upserting user profile:', error);
+      throw error;
+    }
+  }
+
+  static async upsertUserSettings(userId: string, settings: Partial<UserSettings>): Promise<void> {
+    try {
+      console.log(`⚙️ [Supabase] Upserting user settings for: ${userId}`);
+
+      const { created_at, updated_at, ...fields } = settings;
+      const { error } = await supabase
         .from('user_settings')
-        .delete()
-        .eq('user_id', userId);
+        .upsert({ ...fields, user_id: userId }, { onConflict: 'user_id' });
 
-      // Delete all daily records
-      await supabase
-        .from('daily_records')
-        .delete()
-        .eq('user_id', userId);
+      if (error) throw error;
+      console.log(`✅ [Supabase] User settings upserted successfully`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error upserting user settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Grava vários dias de uma vez; dias já existentes são sobrescritos
+   */
+  static async bulkUpsertDailyRecords(userId: string, records: (Partial<DailyRecord> & { date: string })[]): Promise<number> {
+    try {
+      console.log(`💾 [Supabase] Bulk upserting ${records.length} daily records for user ${userId}`);
+
+      const rows = records.map(({ id, user_id, created_at, updated_at, ...fields }) => ({ ...fields, user_id: userId }));
+      let written = 0;
+
+      for (let i = 0; i < rows.length; i += this.BULK_BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from('daily_records')
+          .upsert(rows.slice(i, i + this.BULK_BATCH_SIZE), { onConflict: 'user_id,date' })
+          .select('id');
 
-      console.log(`✅ [Supabase] All user data cleared successfully`);
+        if (error) throw error;
+        written += data?.length || 0;
+      }
+
+      console.log(`✅ [Supabase] ${written} daily records written`);
+      return written;
     } catch (error) {
-      console.error('❌ [Supabase] Error clearing user data:', error);
+      console.error('❌ [Supabase] Error bulk upserting daily records:', error);
       throw error;
     }
   }
 
-  // Migration Methods
-  static async migrateFromAsyncStorage(userId: string, localData: any): Promise<void> {
+  static async bulkInsertDoseIntakes(userId: string, intakes: Partial<DoseIntake>[]): Promise<number> {
     try {
-      console.log(`📦 [Supabase] Starting migration for user: ${userId}`);
-      
-      // Migrate daily records
-      if (localData.dailyRecords) {
-        const records = JSON.parse(localData.dailyRecords);
-        const recordsToInsert = records.map((record: any) => ({
-          user_id: userId,
-          date: record.date,
-          capsules: record.capsules || record.drops || 2,
-          time: record.time,
-          notes: record.notes || '',
-          completed: record.completed,
-        }));
-
-        if (recordsToInsert.length > 0) {
-          const { error } = await supabase
-            .from('daily_records')
-            .insert(recordsToInsert);
-          
-          if (error) throw error;
-          console.log(`✅ [Supabase] Migrated ${recordsToInsert.length} daily records`);
-        }
+      console.log(`💊 [Supabase] Bulk inserting ${intakes.length} dose intakes for user ${userId}`);
+
+      const rows = intakes.map(({ id, user_id, created_at, updated_at, ...fields }) => ({ ...fields, user_id: userId }));
+      let written = 0;
+
+      for (let i = 0; i < rows.length; i += this.BULK_BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from('dose_intakes')
+          .insert(rows.slice(i, i + this.BULK_BATCH_SIZE))
+          .select('id');
+
+        if (error) throw error;
+        written += data?.length || 0;
       }
 
-      // Migrate user profile
-      if (localData.userProfile) {
-        const profile = JSON.parse(localData.userProfile);
-        await this.createUserProfile(userId, {
-          user_id: userId,
-          name: profile.name,
-          date_of_birth: profile.dateOfBirth,
-          gender: profile.gender,
-          email: profile.email,
-          phone: profile.phone,
-          profile_image_url: profile.profileImageUrl,
-          treatment_start_date: profile.treatmentStartDate,
-        });
+      console.log(`✅ [Supabase] ${written} dose intakes written`);
+      return written;
+    } catch (error) {
+      console.error('❌ [Supabase] Error bulk inserting dose intakes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove as tomadas indicadas, em lotes para não estourar o tamanho da URL
+   */
+  static async deleteDoseIntakesByIds(userId: string, ids: string[]): Promise<void> {
+    try {
+      console.log(`🗑️ [Supabase] Deleting ${ids.length} dose intakes for user: ${userId}`);
+
+      for (let i = 0; i < ids.length; i += this.DELETE_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('dose_intakes')
+          .delete()
+          .eq('user_id', userId)
+          .in('id', ids.slice(i, i + this.DELETE_BATCH_SIZE));
+        if (error) throw error;
       }
 
-      // Migrate settings
-      if (localData.appSettings) {
-        const settings = JSON.parse(localData.appSettings);
-        await this.createUserSettings(userId, {
-          user_id: userId,
-          notifications: settings.notifications ?? true,
-          reminder_time: settings.reminderTime || '09:00',
-          daily_goal: settings.dailyGoal || 2,
-          weekly_goal: settings.weeklyGoal || 14,
-          theme: settings.theme || 'light',
-          language: settings.language || 'en',
-        });
+      console.log(`✅ [Supabase] Dose intakes deleted successfully`);
+    } catch (error) {
+      console.error('❌ [Supabase] Error deleting dose intakes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove os registros diários das datas indicadas
+   */
+  static async deleteDailyRecordsByDates(userId: string, dates: string[]): Promise<void> {
+    try {
+      console.log(`🗑️ [Supabase] Deleting ${dates.length} daily records for user: ${userId}`);
+
+      for (let i = 0; i < dates.length; i += this.DELETE_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('daily_records')
+          .delete()
+          .eq('user_id', userId)
+          .in('date', dates.slice(i, i + this.DELETE_BATCH_SIZE));
+        if (error) throw error;
       }
 
-      console.log(`✅ [Supabase] Migration completed successfully`);
+      console.log(`✅ [Supabase] Daily records deleted successfully`);
     } catch (error) {
-      console.error('❌ [Supabase] Error during migration:', error);
+      console.error('❌ [Supabase] Error deleting daily records:', error);
       throw error;
     }
   }
@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SupabaseService } from './SupabaseService';
+import { LegacyMigration } from './LegacyMigration';
 
 export interface AuthUser {
   uid: string;
@@ -127,15 +128,20 @@ export class AuthService {
   }
 
   /**
-   * Limpa todos os dados da aplicação
+   * Limpa todos os dados da aplicação, exceto os dados antigos ainda não
+   * migrados para a nuvem (ver LegacyMigration)
    */
   static async clearAllData(): Promise<void> {
     try {
       console.log('🧹 [AuthService] Clearing all application data...');
-      await AsyncStorage.clear();
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => !LegacyMigration.isPreservedKey(key)));
       
-      if (typeof window !== 'undefined') {
-        localStorage.clear();
+      // No web o AsyncStorage grava no próprio localStorage
+      if (typeof localStorage !== 'undefined') {
+        Object.keys(localStorage)
+          .filter(key => !LegacyMigration.isPreservedKey(key))
+          .forEach(key => localStorage.removeItem(key));
         sessionStorage.clear();
       }
       
@@ -0,0 +1,99 @@
+/*
+  # delete-account
+
+  Apaga de vez as contas cujo prazo de arrependimento (tabela `account_deletions`)
+  já terminou: arquivos do bucket `profile-images`, usuário do Auth e a linha em
+  `users`, que leva junto perfil, configurações, registros, doses e o pedido.
+
+  Só aceita chamadas com a service role key. Com o Supabase local:
+
+    supabase start
+    supabase functions serve delete-account
+    curl -X POST http://127.0.0.1:54321/functions/v1/delete-account \
+      -H "Authorization: Bearer <service_role key de `supabase status`>"
+
+  Em produção a mesma chamada deve rodar uma vez por dia (pg_cron + pg_net ou
+  outro agendador).
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const BUCKET = 'profile-images';
+const PAGE_SIZE = 100;
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Os arquivos removidos somem da listagem, então basta reler a primeira página
+async function removeStorage(userId: string): Promise<number> {
+  let removed = 0;
+
+  while (true) {
+    const { data, error } = await admin.storage.from(BUCKET).list(userId, { limit: PAGE_SIZE });
+    if (error) throw error;
+
+    const files = (data ?? []).filter(file => file.id);
+    if (files.length === 0) return removed;
+
+    const { error: removeError } = await admin.storage
+      .from(BUCKET)
+      .remove(files.map(file => `${userId}/${file.name}`));
+    if (removeError) throw removeError;
+
+    removed += files.length;
+  }
+}
+
+// O pedido só some junto com a linha em users, no último passo; se algo falhar
+// antes disso a conta é tentada de novo na próxima execução
+async function purgeAccount(userId: string): Promise<number> {
+  const files = await removeStorage(userId);
+
+  const { error: authError } = await admin.auth.admin.deleteUser(userId);
+  if (authError && authError.status !== 404) throw authError;
+
+  const { error } = await admin.from('users').delete().eq('id', userId);
+  if (error) throw error;
+
+  return files;
+}
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  const { data, error } = await admin
+    .from('account_deletions')
+    .select('user_id')
+    .lte('purge_after', new Date().toISOString());
+
+  if (error) {
+    console.error('❌ [delete-account] Error listing due deletions:', error);
+    return json({ error: error.message }, 500);
+  }
+
+  const purged: string[] = [];
+  const failed: string[] = [];
+
+  for (const { user_id: userId } of data ?? []) {
+    try {
+      const files = await purgeAccount(userId);
+      purged.push(userId);
+      console.log(`✅ [delete-account] Account ${userId} deleted (${files} files)`);
+    } catch (error) {
+      failed.push(userId);
+      console.error(`❌ [delete-account] Error deleting account ${userId}:`, error);
+    }
+  }
+
+  return json({ purged, failed }, failed.length > 0 ? 500 : 200);
+});
@@ -0,0 +1,84 @@
+/*
+  # Dose intakes
+
+  1. New Tables
+    - `dose_intakes` - Individual capsule intakes, several per day
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `date` (text, day the intake belongs to)
+      - `capsules` (integer, default 1)
+      - `time` (text)
+      - `taken_at` (timestamp)
+      - `notes` (text, optional)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `user_settings.doses_per_day` (integer, default 1) - intakes needed to complete a day
+    - `daily_records` stays as the per-day aggregate of its intakes
+
+  3. Security
+    - Enable RLS on `dose_intakes`
+    - Add policies for authenticated users to manage their own intakes
+
+  4. Data
+    - Backfill one intake for every completed daily record
+*/
+
+CREATE TABLE IF NOT EXISTS dose_intakes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  date text NOT NULL,
+  capsules integer NOT NULL DEFAULT 1 CHECK (capsules > 0),
+  time text NOT NULL,
+  taken_at timestamptz NOT NULL DEFAULT now(),
+  notes text DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE dose_intakes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own intakes"
+  ON dose_intakes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own intakes"
+  ON dose_intakes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own intakes"
+  ON dose_intakes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own intakes"
+  ON dose_intakes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_dose_intakes_updated_at
+  BEFORE UPDATE ON dose_intakes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_dose_intakes_user_date ON dose_intakes(user_id, date);
+
+-- Doses needed to complete a day
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS doses_per_day integer DEFAULT 1 CHECK (doses_per_day > 0);
+
+-- Existing days become a single intake
+INSERT INTO dose_intakes (user_id, date, capsules, time, taken_at, notes)
+SELECT r.user_id, r.date, GREATEST(r.capsules, 1), r.time, r.created_at, COALESCE(r.notes, '')
+FROM daily_records r
+WHERE r.completed = true
+  AND NOT EXISTS (
+    SELECT 1 FROM dose_intakes i WHERE i.user_id = r.user_id AND i.date = r.date
+  );
@@ -0,0 +1,63 @@
+/*
+  # Dosing schedules
+
+  1. New Tables
+    - `dosing_schedules` - The user's regimen, one per user
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users, unique)
+      - `name` (text)
+      - `start_date` (text, first day of the first phase)
+      - `phases` (jsonb, ordered list of phases)
+        - `name` (text, optional)
+        - `duration_days` (integer, null for the last open-ended phase)
+        - `cycle_on_days` / `cycle_off_days` (integer, optional on/off cycling)
+        - `doses` (list of `{ time, capsules }` for a regular day)
+        - `weekday_doses` (optional overrides keyed by weekday, 0 = Sunday)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `dosing_schedules`
+    - Add policies for authenticated users to manage their own schedule
+*/
+
+CREATE TABLE IF NOT EXISTS dosing_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid UNIQUE NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL DEFAULT '',
+  start_date text NOT NULL,
+  phases jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE dosing_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own schedule"
+  ON dosing_schedules
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own schedule"
+  ON dosing_schedules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own schedule"
+  ON dosing_schedules
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own schedule"
+  ON dosing_schedules
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_dosing_schedules_updated_at
+  BEFORE UPDATE ON dosing_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
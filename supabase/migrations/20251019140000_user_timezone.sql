@@ -0,0 +1,9 @@
+/*
+  # User time zone
+
+  1. Changes
+    - `user_settings.timezone` (text, optional) - IANA time zone used for day boundaries
+      - NULL means the app follows the device time zone
+*/
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS timezone text;
@@ -0,0 +1,9 @@
+/*
+  # Streak freeze days
+
+  1. Changes
+    - `user_settings.streak_freeze_days` (integer, default 0) - missed days per month that don't break a streak
+*/
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS streak_freeze_days integer DEFAULT 0 CHECK (streak_freeze_days >= 0);
@@ -0,0 +1,15 @@
+/*
+  # Backfill logging
+
+  1. Changes
+    - `daily_records.edited_late` (boolean, default false) - record was logged or changed after its day ended
+    - `user_settings.backfill_window_days` (integer, default 7) - how many past days can still be logged
+    - `user_settings.count_backfilled_days` (boolean, default true) - whether late logs count in streaks and consistency
+*/
+
+ALTER TABLE daily_records
+  ADD COLUMN IF NOT EXISTS edited_late boolean DEFAULT false;
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS backfill_window_days integer DEFAULT 7 CHECK (backfill_window_days >= 0),
+  ADD COLUMN IF NOT EXISTS count_backfilled_days boolean DEFAULT true;
@@ -0,0 +1,64 @@
+/*
+  # Account deletion requests
+
+  1. New Tables
+    - `account_deletions` - Pending account deletions, one per user
+      - `user_id` (uuid, primary key, foreign key to users)
+      - `requested_at` (timestamp)
+      - `purge_after` (timestamp, end of the grace period)
+
+  2. Security
+    - Enable RLS on `account_deletions`
+    - Add policies for authenticated users to request, read and cancel their own deletion
+    - `requested_at` and `purge_after` are always set by the database, so the
+      grace period can't be shortened from the app
+
+  3. Purge
+    - The `delete-account` edge function removes every account whose grace period
+      ended: files in the `profile-images` bucket, the auth user and the `users`
+      row (which cascades to all the user's tables, including this request)
+*/
+
+CREATE TABLE IF NOT EXISTS account_deletions (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  purge_after timestamptz NOT NULL DEFAULT now() + interval '7 days'
+);
+
+CREATE INDEX IF NOT EXISTS account_deletions_purge_after_idx
+  ON account_deletions (purge_after);
+
+ALTER TABLE account_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own deletion request"
+  ON account_deletions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can request own deletion"
+  ON account_deletions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can cancel own deletion"
+  ON account_deletions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Grace period of 7 days, counted by the server clock
+CREATE OR REPLACE FUNCTION set_account_deletion_grace_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.requested_at = now();
+  NEW.purge_after = now() + interval '7 days';
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_account_deletions_grace_period
+  BEFORE INSERT ON account_deletions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_account_deletion_grace_period();
@@ -0,0 +1,47 @@
+import { DailyRecord, DoseIntake, UserProfile, UserSettings } from '@/types/database';
+
+export type BackupRecord = Partial<DailyRecord> & {
+  date: string;
+  capsules: number;
+};
+
+export type BackupIntake = Partial<DoseIntake> & {
+  date: string;
+  capsules: number;
+  taken_at: string;
+};
+
+export interface BackupPreferences {
+  theme: 'light' | 'dark' | null;
+  language: 'en' | 'pt' | null;
+}
+
+export interface BackupMetadata {
+  version: string;
+  exportDate: string;
+  deviceInfo: string;
+  userId?: string;
+}
+
+export interface BackupFile {
+  profile: Partial<UserProfile> | null;
+  records: BackupRecord[];
+  intakes: BackupIntake[];
+  settings: Partial<UserSettings> | null;
+  preferences: BackupPreferences;
+  metadata: BackupMetadata;
+}
+
+export interface BackupMigrationStep {
+  from: string;
+  to: string;
+  description: string;
+  changes: string[];
+}
+
+export interface BackupReport {
+  fromVersion: string;
+  toVersion: string;
+  steps: BackupMigrationStep[];
+  errors: string[];
+}
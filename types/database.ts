@@ -28,6 +28,43 @@ export interface DailyRecord {
   time: string;
   notes?: string;
   completed: boolean;
+  edited_late?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DoseIntake {
+  id?: string;
+  user_id: string;
+  date: string;
+  capsules: number;
+  time: string;
+  taken_at: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduledDose {
+  time: string;
+  capsules: number;
+}
+
+export interface SchedulePhase {
+  name?: string;
+  duration_days?: number | null;
+  cycle_on_days?: number;
+  cycle_off_days?: number;
+  doses: ScheduledDose[];
+  weekday_doses?: { [weekday: number]: ScheduledDose[] };
+}
+
+export interface DosingSchedule {
+  id?: string;
+  user_id: string;
+  name: string;
+  start_date: string;
+  phases: SchedulePhase[];
   created_at: string;
   updated_at: string;
 }
@@ -38,12 +75,23 @@ export interface UserSettings {
   reminder_time: string;
   daily_goal: number;
   weekly_goal: number;
+  doses_per_day?: number;
+  timezone?: string | null;
+  streak_freeze_days?: number;
+  backfill_window_days?: number;
+  count_backfilled_days?: boolean;
   theme: 'light' | 'dark';
   language: 'en' | 'pt';
   created_at: string;
   updated_at: string;
 }
 
+export interface AccountDeletion {
+  user_id: string;
+  requested_at: string;
+  purge_after: string;
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -62,11 +110,26 @@ export type Database = {
         Insert: Omit<DailyRecord, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<DailyRecord, 'id' | 'user_id' | 'created_at'>>;
       };
+      dose_intakes: {
+        Row: DoseIntake;
+        Insert: Omit<DoseIntake, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<DoseIntake, 'id' | 'user_id' | 'created_at'>>;
+      };
+      dosing_schedules: {
+        Row: DosingSchedule;
+        Insert: Omit<DosingSchedule, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<DosingSchedule, 'id' | 'user_id' | 'created_at'>>;
+      };
       user_settings: {
         Row: UserSettings;
         Insert: Omit<UserSettings, 'created_at' | 'updated_at'>;
         Update: Partial<Omit<UserSettings, 'user_id' | 'created_at'>>;
       };
+      account_deletions: {
+        Row: AccountDeletion;
+        Insert: Pick<AccountDeletion, 'user_id'>;
+        Update: never;
+      };
     };
   };
 };
\ No newline at end of file
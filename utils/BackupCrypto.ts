@@ -0,0 +1,129 @@
+import * as Crypto from 'expo-crypto';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+
+interface EncryptedBackup {
+  format: string;
+  version: number;
+  kdf: {
+    name: 'pbkdf2-sha256';
+    iterations: number;
+    salt: string;
+  };
+  cipher: {
+    name: 'aes-256-gcm';
+    nonce: string;
+  };
+  ciphertext: string;
+}
+
+/**
+ * Backups protegidos por senha.
+ *
+ * A chave vem da senha via PBKDF2-SHA256 com sal aleatório e o conteúdo é
+ * cifrado com AES-256-GCM, que também detecta senha errada ou arquivo
+ * adulterado. O envelope continua sendo JSON para abrir pelo mesmo seletor.
+ */
+export class BackupCrypto {
+  static readonly FORMAT = 'maxtestorin-encrypted-backup';
+  static readonly MIN_PASSPHRASE_LENGTH = 8;
+
+  private static readonly VERSION = 1;
+  private static readonly ITERATIONS = 210000;
+  // O arquivo informa as iterações; fora desta faixa ele ficaria fraco demais
+  // ou travaria o aparelho derivando a chave
+  private static readonly MIN_ITERATIONS = 100000;
+  private static readonly MAX_ITERATIONS = 1000000;
+  private static readonly SALT_BYTES = 16;
+  private static readonly NONCE_BYTES = 12;
+  private static readonly KEY_BYTES = 32;
+
+  static isEncrypted(content: string): boolean {
+    try {
+      return JSON.parse(content)?.format === this.FORMAT;
+    } catch {
+      return false;
+    }
+  }
+
+  static async encrypt(plaintext: string, passphrase: string): Promise<string> {
+    if (passphrase.length < this.MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must have at least ${this.MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const salt = Crypto.getRandomBytes(this.SALT_BYTES);
+    const nonce = Crypto.getRandomBytes(this.NONCE_BYTES);
+    const key = await this.deriveKey(passphrase, salt, this.ITERATIONS);
+    const ciphertext = gcm(key, nonce, this.associatedData(this.VERSION)).encrypt(utf8ToBytes(plaintext));
+
+    const envelope: EncryptedBackup = {
+      format: this.FORMAT,
+      version: this.VERSION,
+      kdf: { name: 'pbkdf2-sha256', iterations: this.ITERATIONS, salt: this.toBase64(salt) },
+      cipher: { name: 'aes-256-gcm', nonce: this.toBase64(nonce) },
+      ciphertext: this.toBase64(ciphertext),
+    };
+
+    console.log('🔐 [BackupCrypto] Backup encrypted');
+    return JSON.stringify(envelope, null, 2);
+  }
+
+  static async decrypt(content: string, passphrase: string): Promise<string> {
+    const envelope: EncryptedBackup = JSON.parse(content);
+    if (
+      envelope.format !== this.FORMAT ||
+      envelope.version !== this.VERSION ||
+      envelope.kdf?.name !== 'pbkdf2-sha256' ||
+      envelope.cipher?.name !== 'aes-256-gcm'
+    ) {
+      throw new Error('Unsupported encrypted backup format');
+    }
+
+    const { iterations } = envelope.kdf;
+    if (!Number.isInteger(iterations) || iterations < this.MIN_ITERATIONS || iterations > this.MAX_ITERATIONS) {
+      throw new Error('Unsupported key derivation settings');
+    }
+
+    const key = await this.deriveKey(passphrase, this.fromBase64(envelope.kdf.salt), iterations);
+
+    try {
+      const plaintext = gcm(key, this.fromBase64(envelope.cipher.nonce), this.associatedData(envelope.version))
+        .decrypt(this.fromBase64(envelope.ciphertext));
+      console.log('🔓 [BackupCrypto] Backup decrypted');
+      return bytesToUtf8(plaintext);
+    } catch {
+      throw new Error('Wrong passphrase or damaged backup file');
+    }
+  }
+
+  private static deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    return pbkdf2Async(sha256, utf8ToBytes(passphrase.normalize('NFKC')), salt, {
+      c: iterations,
+      dkLen: this.KEY_BYTES,
+    });
+  }
+
+  // O formato e a versão entram na autenticação do conteúdo
+  private static associatedData(version: number): Uint8Array {
+    return utf8ToBytes(`${this.FORMAT}:${version}`);
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+
+  private static fromBase64(value: string): Uint8Array {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+}
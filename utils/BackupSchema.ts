@@ -0,0 +1,285 @@
+import { BackupFile, BackupMigrationStep, BackupReport } from '@/types/backup';
+
+interface BackupMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: any, changes: string[]) => any;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}/;
+
+/**
+ * Formato versionado dos arquivos de backup.
+ *
+ * Cada versão antiga tem uma migração para a seguinte; a importação aplica a
+ * cadeia em ordem até a versão atual e só então valida o resultado.
+ */
+export class BackupSchema {
+  static readonly CURRENT_VERSION = '3.0.0';
+
+  // Arquivos sem versão vieram das primeiras versões do app
+  static readonly LEGACY_VERSION = '1.0.0';
+
+  private static readonly LEGACY_DEFAULT_CAPSULES = 2;
+  private static readonly MAX_REPORTED_ERRORS = 10;
+  private static readonly GENDERS = ['male', 'female', 'other'];
+
+  private static readonly MIGRATIONS: BackupMigration[] = [
+    {
+      from: '1.0.0',
+      to: '2.0.0',
+      description: 'Local storage layout converted to the cloud layout',
+      migrate: (data, changes) => BackupSchema.fromLocalLayout(data, changes),
+    },
+    {
+      from: '2.0.0',
+      to: '3.0.0',
+      description: 'Stored credentials removed from the backup',
+      migrate: (data, changes) => BackupSchema.withoutCredentials(data, changes),
+    },
+  ];
+
+  /**
+   * Atualiza um backup lido do arquivo até a versão atual e valida o resultado.
+   * Retorna data = null quando o arquivo precisa ser rejeitado.
+   */
+  static upgrade(raw: unknown): { data: BackupFile | null; report: BackupReport } {
+    const report: BackupReport = {
+      fromVersion: this.LEGACY_VERSION,
+      toVersion: this.CURRENT_VERSION,
+      steps: [],
+      errors: [],
+    };
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      report.errors.push('The file is not a MaxTestorin backup');
+      return { data: null, report };
+    }
+
+    let data: any = raw;
+    let version: string = data.metadata?.version || this.LEGACY_VERSION;
+    report.fromVersion = version;
+
+    if (!/^\d+\.\d+\.\d+$/.test(version)) {
+      report.errors.push(`Unknown backup version "${version}"`);
+      return { data: null, report };
+    }
+
+    if (this.compareVersions(version, this.CURRENT_VERSION) > 0) {
+      report.errors.push(`The backup was created by a newer version of the app (v${version}); update the app to import it`);
+      return { data: null, report };
+    }
+
+    while (version !== this.CURRENT_VERSION) {
+      const migration = this.MIGRATIONS.find(candidate => candidate.from === version);
+      if (!migration) {
+        report.errors.push(`No upgrade path from backup version v${version}`);
+        return { data: null, report };
+      }
+
+      const step: BackupMigrationStep = {
+        from: migration.from,
+        to: migration.to,
+        description: migration.description,
+        changes: [],
+      };
+
+      data = migration.migrate(data, step.changes);
+      data.metadata = { ...data.metadata, version: migration.to };
+      report.steps.push(step);
+      version = migration.to;
+
+      console.log(`🔄 [BackupSchema] Upgraded backup v${step.from} → v${step.to}`);
+    }
+
+    report.errors = this.validate(data);
+    return { data: report.errors.length === 0 ? data as BackupFile : null, report };
+  }
+
+  /**
+   * Confere a estrutura de um backup na versão atual. Lista vazia = válido.
+   * As regras acompanham as restrições das tabelas, para que a importação não
+   * falhe no meio por um valor que o banco recusaria.
+   */
+  static validate(data: any): string[] {
+    const errors: string[] = [];
+
+    if (data?.metadata?.version !== this.CURRENT_VERSION) {
+      errors.push(`Expected backup version v${this.CURRENT_VERSION}`);
+    }
+
+    if (!Array.isArray(data?.records)) {
+      errors.push('Records are missing or not a list');
+    } else {
+      const seen = new Set<string>();
+      data.records.forEach((record: any, index: number) => {
+        const label = `Record ${index + 1}`;
+        if (!record || typeof record !== 'object') {
+          errors.push(`${label} is not an object`);
+          return;
+        }
+        if (!this.isValidDate(record.date)) errors.push(`${label} has an invalid date "${record.date}"`);
+        else if (seen.has(record.date)) errors.push(`${label} repeats the date ${record.date}`);
+        else seen.add(record.date);
+        if (!this.isCount(record.capsules)) errors.push(`${label} has an invalid capsule count`);
+        if (!this.isTime(record.time)) errors.push(`${label} has an invalid time "${record.time}"`);
+        if (record.completed !== undefined && typeof record.completed !== 'boolean') errors.push(`${label} has an invalid completed flag`);
+      });
+    }
+
+    if (!Array.isArray(data?.intakes)) {
+      errors.push('Doses are missing or not a list');
+    } else {
+      data.intakes.forEach((intake: any, index: number) => {
+        const label = `Dose ${index + 1}`;
+        if (!intake || typeof intake !== 'object') {
+          errors.push(`${label} is not an object`);
+          return;
+        }
+        if (!this.isValidDate(intake.date)) errors.push(`${label} has an invalid date "${intake.date}"`);
+        if (!this.isCount(intake.capsules) || intake.capsules === 0) errors.push(`${label} has an invalid capsule count`);
+        if (!this.isTime(intake.time)) errors.push(`${label} has an invalid time "${intake.time}"`);
+        if (typeof intake.taken_at !== 'string' || isNaN(Date.parse(intake.taken_at))) errors.push(`${label} has an invalid timestamp`);
+      });
+    }
+
+    if (data?.profile !== null && (typeof data?.profile !== 'object' || Array.isArray(data.profile))) {
+      errors.push('Profile is not an object');
+    } else if (data.profile) {
+      if (data.profile.name !== undefined && typeof data.profile.name !== 'string') {
+        errors.push('Profile name is not text');
+      }
+      if (data.profile.gender != null && !this.GENDERS.includes(data.profile.gender)) {
+        errors.push(`Unsupported gender "${data.profile.gender}"`);
+      }
+    }
+
+    if (data?.settings !== null && (typeof data?.settings !== 'object' || Array.isArray(data.settings))) {
+      errors.push('Settings are not an object');
+    } else if (data.settings) {
+      for (const field of ['daily_goal', 'weekly_goal', 'doses_per_day', 'streak_freeze_days', 'backfill_window_days']) {
+        if (data.settings[field] !== undefined && data.settings[field] !== null && !this.isCount(data.settings[field])) {
+          errors.push(`Setting ${field} is not a valid number`);
+        }
+      }
+      if (data.settings.doses_per_day === 0) {
+        errors.push('Setting doses_per_day must be at least 1');
+      }
+      if (data.settings.language !== undefined && !['en', 'pt'].includes(data.settings.language)) {
+        errors.push(`Unsupported language "${data.settings.language}"`);
+      }
+      if (data.settings.theme !== undefined && !['light', 'dark'].includes(data.settings.theme)) {
+        errors.push(`Unsupported theme "${data.settings.theme}"`);
+      }
+    }
+
+    if (!data?.preferences || typeof data.preferences !== 'object') {
+      errors.push('Preferences are missing');
+    }
+
+    if (errors.length > this.MAX_REPORTED_ERRORS) {
+      const hidden = errors.length - this.MAX_REPORTED_ERRORS;
+      return [...errors.slice(0, this.MAX_REPORTED_ERRORS), `...and ${hidden} more problems`];
+    }
+    return errors;
+  }
+
+  static compareVersions(a: string, b: string): number {
+    const left = a.split('.').map(Number);
+    const right = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const diff = (left[i] || 0) - (right[i] || 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  /**
+   * v1 → v2: backups do AsyncStorage (camelCase, gotas) para o formato da nuvem
+   */
+  private static fromLocalLayout(data: any, changes: string[]): any {
+    const legacyRecords: any[] = Array.isArray(data.records) ? data.records : [];
+    let convertedDrops = 0;
+
+    const records = legacyRecords.map(record => {
+      if (!record || typeof record !== 'object') return record;
+
+      const { drops, ...rest } = record;
+      if (rest.capsules === undefined && drops !== undefined) convertedDrops++;
+      return {
+        ...rest,
+        capsules: rest.capsules ?? drops ?? this.LEGACY_DEFAULT_CAPSULES,
+        notes: rest.notes || '',
+      };
+    });
+    if (convertedDrops > 0) changes.push(`${convertedDrops} records converted from drops to capsules`);
+
+    const legacyProfile = data.profile;
+    const profile = legacyProfile && typeof legacyProfile === 'object'
+      ? {
+          name: legacyProfile.name,
+          date_of_birth: legacyProfile.date_of_birth ?? legacyProfile.dateOfBirth,
+          gender: legacyProfile.gender,
+          email: legacyProfile.email,
+          phone: legacyProfile.phone,
+          profile_image_url: legacyProfile.profile_image_url ?? legacyProfile.profileImageUrl,
+          treatment_start_date: legacyProfile.treatment_start_date ?? legacyProfile.treatmentStartDate,
+        }
+      : null;
+    if (profile) changes.push('Profile fields renamed to the cloud format');
+
+    const legacySettings = data.settings || {};
+    const appSettings = legacySettings.appSettings;
+    const settings = appSettings && typeof appSettings === 'object'
+      ? {
+          notifications: appSettings.notifications ?? true,
+          reminder_time: appSettings.reminderTime || '09:00',
+          daily_goal: appSettings.dailyGoal || 2,
+          weekly_goal: appSettings.weeklyGoal || 14,
+        }
+      : null;
+    if (settings) changes.push('App settings converted to account settings');
+
+    changes.push('Individual doses were not tracked in this version; each day keeps its total');
+
+    return {
+      profile,
+      records,
+      intakes: [],
+      settings,
+      preferences: {
+        theme: legacySettings.theme ?? appSettings?.theme ?? null,
+        language: legacySettings.language ?? appSettings?.language ?? null,
+      },
+      auth: data.auth || null,
+      metadata: {
+        exportDate: data.metadata?.exportDate || '',
+        deviceInfo: data.metadata?.deviceInfo || '',
+      },
+    };
+  }
+
+  /**
+   * v2 → v3: credenciais nunca são restauradas a partir de um arquivo
+   */
+  private static withoutCredentials(data: any, changes: string[]): any {
+    const { auth, ...rest } = data;
+    if (auth?.user || auth?.token) changes.push('Saved login credentials were discarded');
+    return rest;
+  }
+
+  private static isValidDate(value: unknown): boolean {
+    return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+  }
+
+  // As colunas de contagem no banco são integer
+  private static isCount(value: unknown): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+  }
+
+  private static isTime(value: unknown): boolean {
+    return typeof value === 'string' && TIME_PATTERN.test(value);
+  }
+}
@@ -0,0 +1,304 @@
+import { DailyRecord, UserProfile } from '@/types/database';
+import { DayPlan, DoseSchedule } from '@/utils/DoseSchedule';
+import { LocalDate } from '@/utils/LocalDate';
+import { StreakEngine } from '@/utils/StreakEngine';
+
+type DayStatus = 'complete' | 'partial' | 'missed' | 'rest' | 'future';
+
+export interface ClinicianReportInput {
+  start: string;
+  end: string;
+  today: string;
+  language: string;
+  profile: UserProfile | null;
+  records: DailyRecord[];
+  capsulesByDate: Record<string, number>;
+  planFor: (date: string) => DayPlan;
+  freezeDaysPerMonth?: number;
+  t: (key: string) => string;
+}
+
+interface PeriodSummary {
+  scheduledDays: number;
+  completedDays: number;
+  partialDays: number;
+  missedDays: number;
+  totalCapsules: number;
+  loggedDays: number;
+  lateDays: number;
+}
+
+const STATUS_COLORS: Record<DayStatus, string> = {
+  complete: '#10B981',
+  partial: '#F59E0B',
+  missed: '#EF4444',
+  rest: '#CBD5E1',
+  future: '#F1F5F9',
+};
+
+const LEGEND_KEYS: [DayStatus, string][] = [
+  ['complete', 'reportLegendComplete'],
+  ['partial', 'reportLegendPartial'],
+  ['missed', 'reportLegendMissed'],
+  ['rest', 'reportLegendRest'],
+];
+
+/**
+ * Relatório de adesão em HTML para imprimir em PDF e entregar ao médico.
+ *
+ * Tudo é calculado a partir dos registros do período; o HTML não depende de
+ * recursos externos para funcionar offline na geração do PDF.
+ */
+export class ClinicianReport {
+  static build(input: ClinicianReportInput): string {
+    const { t } = input;
+    const locale = input.language === 'pt' ? 'pt-BR' : 'en-US';
+    const lastDay = input.end < input.today ? input.end : input.today;
+    const statuses = this.statusByDate(input);
+    const summary = this.summarize(input, statuses);
+    const adherence = this.percentage(summary.completedDays, summary.scheduledDays);
+
+    const streaks = StreakEngine.compute({
+      completedDates: Object.keys(statuses).filter(date => statuses[date] === 'complete'),
+      today: lastDay,
+      isComplete: (date) => statuses[date] === 'complete',
+      isRestDay: (date) => statuses[date] === 'rest',
+      freezeDaysPerMonth: input.freezeDaysPerMonth,
+    });
+
+    const notes = input.records
+      .filter(record => record.date >= input.start && record.date <= input.end && record.notes?.trim())
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const formatDate = (date: string) =>
+      LocalDate.parse(date).toLocaleDateString(locale, { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+    const profileRows = [
+      [t('reportPatient'), input.profile?.name || '-'],
+      [t('reportAge'), this.age(input.profile?.date_of_birth, input.today) ?? '-'],
+      [t('reportTreatmentStart'), input.profile?.treatment_start_date ? this.formatLooseDate(input.profile.treatment_start_date, formatDate) : '-'],
+      [t('reportPeriod'), `${formatDate(input.start)} – ${formatDate(input.end)}`],
+    ];
+
+    const metrics = [
+      [t('reportAdherence'), `${adherence}%`],
+      [t('reportCompletedDays'), `${summary.completedDays}/${summary.scheduledDays}`],
+      [t('reportPartialDays'), String(summary.partialDays)],
+      [t('reportMissedDays'), String(summary.missedDays)],
+      [t('reportTotalCapsules'), String(summary.totalCapsules)],
+      [t('reportAveragePerDay'), summary.loggedDays > 0 ? (summary.totalCapsules / summary.loggedDays).toFixed(1) : '0'],
+      [t('reportCurrentStreak'), String(streaks.current)],
+      [t('reportLongestStreak'), String(streaks.longest)],
+      [t('reportLateLogs'), String(summary.lateDays)],
+    ];
+
+    return `<!DOCTYPE html>
+<html lang="${input.language === 'pt' ? 'pt-BR' : 'en'}">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${this.escape(t('reportTitle'))}</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  .muted { color: #64748b; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { padding: 6px 8px; text-align: left; border-bottom: 1px solid #f1f5f9; }
+  th { color: #64748b; font-weight: 600; }
+  .metrics { display: flex; flex-wrap: wrap; gap: 8px; }
+  .metric { border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px 12px; min-width: 110px; }
+  .metric strong { display: block; font-size: 18px; }
+  .months { display: flex; flex-wrap: wrap; gap: 16px; }
+  .month { page-break-inside: avoid; }
+  .month-title { font-weight: 600; margin-bottom: 4px; text-transform: capitalize; }
+  .grid { border-collapse: separate; border-spacing: 3px; width: auto; }
+  .grid td, .grid th { width: 20px; height: 20px; padding: 0; text-align: center; font-size: 9px; border: none; border-radius: 4px; }
+  .legend span { display: inline-block; margin-right: 12px; }
+  .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; vertical-align: middle; }
+  .notes td:first-child { white-space: nowrap; width: 110px; }
+  footer { margin-top: 32px; font-size: 10px; }
+</style>
+</head>
+<body>
+  <h1>${this.escape(t('reportTitle'))}</h1>
+  <div class="muted">${this.escape(t('reportGenerated').replace('{date}', formatDate(input.today)))}</div>
+
+  <h2>${this.escape(t('reportProfile'))}</h2>
+  <table>${profileRows.map(([label, value]) => `<tr><th>${this.escape(label)}</th><td>${this.escape(value)}</td></tr>`).join('')}</table>
+
+  <h2>${this.escape(t('reportSummary'))}</h2>
+  <div class="metrics">${metrics.map(([label, value]) => `<div class="metric"><strong>${this.escape(value)}</strong><span class="muted">${this.escape(label)}</span></div>`).join('')}</div>
+
+  <h2>${this.escape(t('reportMonthlyBreakdown'))}</h2>
+  ${this.monthlyTable(input, statuses, locale)}
+
+  <h2>${this.escape(t('reportCalendar'))}</h2>
+  <div class="legend">${LEGEND_KEYS.map(([status, key]) =>
+    `<span><i class="swatch" style="background:${STATUS_COLORS[status]}"></i>${this.escape(t(key))}</span>`
+  ).join('')}</div>
+  <div class="months">${this.heatmap(input, statuses, locale)}</div>
+
+  <h2>${this.escape(t('reportNotes'))}</h2>
+  ${notes.length > 0
+    ? `<table class="notes">${notes.map(record => `<tr><td>${this.escape(formatDate(record.date))}</td><td>${this.escape(record.notes || '')}</td></tr>`).join('')}</table>`
+    : `<p class="muted">${this.escape(t('reportNoNotes'))}</p>`}
+
+  <footer class="muted">${this.escape(t('reportDisclaimer'))}</footer>
+</body>
+</html>`;
+  }
+
+  private static statusByDate(input: ClinicianReportInput): Record<string, DayStatus> {
+    const statuses: Record<string, DayStatus> = {};
+
+    for (let date = input.start; date <= input.end; date = LocalDate.addDays(date, 1)) {
+      const plan = input.planFor(date);
+      const capsules = input.capsulesByDate[date] || 0;
+
+      if (DoseSchedule.isDayComplete(plan, capsules) && capsules > 0) statuses[date] = 'complete';
+      else if (date > input.today) statuses[date] = 'future';
+      else if (plan.isRestDay) statuses[date] = 'rest';
+      else if (capsules > 0) statuses[date] = 'partial';
+      else statuses[date] = date === input.today ? 'future' : 'missed';
+    }
+
+    return statuses;
+  }
+
+  private static summarize(input: ClinicianReportInput, statuses: Record<string, DayStatus>, month?: string): PeriodSummary {
+    const summary: PeriodSummary = {
+      scheduledDays: 0,
+      completedDays: 0,
+      partialDays: 0,
+      missedDays: 0,
+      totalCapsules: 0,
+      loggedDays: 0,
+      lateDays: 0,
+    };
+    const lateDates = new Set(input.records.filter(record => record.edited_late).map(record => record.date));
+
+    for (const [date, status] of Object.entries(statuses)) {
+      if (month && !date.startsWith(month)) continue;
+
+      const capsules = input.capsulesByDate[date] || 0;
+      summary.totalCapsules += capsules;
+      if (capsules > 0) summary.loggedDays++;
+      if (capsules > 0 && lateDates.has(date)) summary.lateDays++;
+
+      if (status === 'complete') summary.completedDays++;
+      if (status === 'partial') summary.partialDays++;
+      if (status === 'missed') summary.missedDays++;
+      if (status === 'complete' || status === 'partial' || status === 'missed') summary.scheduledDays++;
+    }
+
+    return summary;
+  }
+
+  private static monthlyTable(input: ClinicianReportInput, statuses: Record<string, DayStatus>, locale: string): string {
+    const { t } = input;
+    const rows = this.months(input).map(month => {
+      const summary = this.summarize(input, statuses, month);
+      return `<tr>
+        <td style="text-transform: capitalize">${this.escape(this.monthLabel(month, locale))}</td>
+        <td>${summary.completedDays}/${summary.scheduledDays}</td>
+        <td>${this.percentage(summary.completedDays, summary.scheduledDays)}%</td>
+        <td>${summary.totalCapsules}</td>
+      </tr>`;
+    });
+
+    return `<table>
+      <tr><th>${this.escape(t('reportMonth'))}</th><th>${this.escape(t('reportCompletedDays'))}</th><th>${this.escape(t('reportAdherence'))}</th><th>${this.escape(t('reportTotalCapsules'))}</th></tr>
+      ${rows.join('')}
+    </table>`;
+  }
+
+  // Um quadro por mês, semanas começando na segunda-feira
+  private static heatmap(input: ClinicianReportInput, statuses: Record<string, DayStatus>, locale: string): string {
+    const weekdayLabels = Array.from({ length: 7 }, (_, index) =>
+      // 2024-01-01 foi uma segunda-feira
+      LocalDate.parse(LocalDate.addDays('2024-01-01', index)).toLocaleDateString(locale, { weekday: 'narrow', timeZone: 'UTC' })
+    );
+
+    return this.months(input).map(month => {
+      const { year, month: month0 } = LocalDate.monthOf(`${month}-01`);
+      const days = LocalDate.daysInMonth(year, month0);
+      const offset = (LocalDate.weekday(`${month}-01`) + 6) % 7;
+      const cells: string[] = Array.from({ length: offset }, () => '<td></td>');
+
+      for (let day = 1; day <= days; day++) {
+        const date = LocalDate.dateOf(year, month0, day);
+        const status = statuses[date];
+        cells.push(status
+          ? `<td style="background:${STATUS_COLORS[status]};color:${status === 'future' || status === 'rest' ? '#475569' : '#ffffff'}">${day}</td>`
+          : `<td style="color:#cbd5e1">${day}</td>`);
+      }
+
+      const weeks: string[] = [];
+      for (let i = 0; i < cells.length; i += 7) {
+        weeks.push(`<tr>${cells.slice(i, i + 7).join('')}</tr>`);
+      }
+
+      return `<div class="month">
+        <div class="month-title">${this.escape(this.monthLabel(month, locale))}</div>
+        <table class="grid"><tr>${weekdayLabels.map(label => `<th>${this.escape(label)}</th>`).join('')}</tr>${weeks.join('')}</table>
+      </div>`;
+    }).join('');
+  }
+
+  private static months(input: ClinicianReportInput): string[] {
+    const months: string[] = [];
+    for (let month = input.start.slice(0, 7); month <= input.end.slice(0, 7);) {
+      months.push(month);
+      const { year, month: month0 } = LocalDate.monthOf(`${month}-01`);
+      month = LocalDate.dateOf(month0 === 11 ? year + 1 : year, (month0 + 1) % 12, 1).slice(0, 7);
+    }
+    return months;
+  }
+
+  private static monthLabel(month: string, locale: string): string {
+    return LocalDate.parse(`${month}-01`).toLocaleDateString(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  }
+
+  /**
+   * Idade a partir da data de nascimento (AAAA-MM-DD ou DD/MM/AAAA)
+   */
+  private static age(dateOfBirth: string | undefined, today: string): string | null {
+    const birth = this.normalizeDate(dateOfBirth);
+    if (!birth) return null;
+
+    let age = Number(today.slice(0, 4)) - Number(birth.slice(0, 4));
+    if (today.slice(5) < birth.slice(5)) age--;
+    return age >= 0 ? String(age) : null;
+  }
+
+  private static formatLooseDate(value: string, format: (date: string) => string): string {
+    const date = this.normalizeDate(value);
+    return date ? format(date) : value;
+  }
+
+  private static normalizeDate(value: string | undefined): string | null {
+    if (!value) return null;
+
+    const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+    const local = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (local) return `${local[3]}-${local[2].padStart(2, '0')}-${local[1].padStart(2, '0')}`;
+
+    return null;
+  }
+
+  private static percentage(value: number, total: number): number {
+    return total > 0 ? Math.round((value / total) * 100) : 0;
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
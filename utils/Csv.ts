@@ -0,0 +1,86 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Leitura e geração de CSV compatível com planilhas.
+ *
+ * Planilhas em português esperam ";" como separador (a vírgula é decimal), e o
+ * BOM no início faz o Excel reconhecer o arquivo como UTF-8.
+ */
+export class Csv {
+  static readonly BOM = '\uFEFF';
+
+  static delimiterFor(language: string): string {
+    return language === 'pt' ? ';' : ',';
+  }
+
+  static stringify(rows: CsvValue[][], delimiter = ','): string {
+    const lines = rows.map(row => row.map(value => this.escape(value, delimiter)).join(delimiter));
+    return this.BOM + lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Lê um CSV em linhas e colunas. O separador é detectado pela primeira linha
+   * quando não informado; linhas totalmente vazias são descartadas.
+   */
+  static parse(content: string, delimiter = this.detectDelimiter(content)): string[][] {
+    const text = content.startsWith(this.BOM) ? content.slice(1) : content;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+  }
+
+  private static detectDelimiter(content: string): string {
+    const firstLine = content.replace(this.BOM, '').split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+    return DELIMITERS.reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    );
+  }
+
+  private static escape(value: CsvValue, delimiter: string): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value !== 'string') return String(value);
+
+    // Textos livres começando com =, +, - ou @ viram fórmulas nas planilhas
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+    return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
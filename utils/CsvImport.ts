@@ -0,0 +1,267 @@
+import { DailyRecord, DoseIntake } from '@/types/database';
+import { Csv } from '@/utils/Csv';
+import { DayPlan, DoseSchedule } from '@/utils/DoseSchedule';
+
+export type CsvField = 'date' | 'capsules' | 'time' | 'notes' | 'completed';
+
+// Índice da coluna de cada campo (null = coluna ausente)
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+export type CsvDateFormat = 'iso' | 'dmy' | 'mdy';
+
+export type CsvIssueCode =
+  | 'invalidDate'
+  | 'futureDate'
+  | 'duplicateDate'
+  | 'invalidCapsules'
+  | 'invalidTime'
+  | 'invalidCompleted';
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CsvIssue {
+  row: number;
+  code: CsvIssueCode;
+  value: string;
+}
+
+export type CsvImportedRecord = Pick<DailyRecord, 'date' | 'capsules' | 'time' | 'notes' | 'completed'>;
+
+export interface CsvImportPlan {
+  records: CsvImportedRecord[];
+  added: string[];
+  updated: string[];
+  unchanged: number;
+  // Dias com doses registradas no app: o total do dia vem das doses
+  skipped: string[];
+  issues: CsvIssue[];
+  totalRows: number;
+}
+
+interface CsvPlanInput {
+  table: CsvTable;
+  mapping: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  existingRecords: DailyRecord[];
+  existingIntakes: DoseIntake[];
+  planFor: (date: string) => DayPlan;
+  today: string;
+}
+
+export const CSV_FIELDS: CsvField[] = ['date', 'capsules', 'time', 'notes', 'completed'];
+
+// Cabeçalhos comuns em planilhas e outros apps, já normalizados
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  date: ['date', 'data', 'day', 'dia', 'datum', 'fecha'],
+  capsules: ['capsules', 'capsulas', 'capsule', 'capsula', 'pills', 'pill', 'dose', 'doses', 'amount', 'quantity', 'qty', 'quantidade', 'count'],
+  time: ['time', 'hora', 'horario', 'hour', 'taken at', 'taken_at'],
+  notes: ['notes', 'note', 'notas', 'observacoes', 'observacao', 'comment', 'comments', 'comentario', 'comentarios'],
+  completed: ['completed', 'complete', 'concluido', 'done', 'taken', 'tomado', 'status'],
+};
+
+const TRUE_VALUES = ['1', 'true', 'yes', 'y', 'sim', 's', 'x', '✓', '✔', 'done', 'taken', 'tomado', 'concluido', 'completed'];
+const FALSE_VALUES = ['0', 'false', 'no', 'n', 'nao', 'skipped', 'missed', 'pulado', 'perdido'];
+
+const DEFAULT_TIME = '09:00';
+
+/**
+ * Importação de histórico a partir de CSV de planilhas ou de outros apps.
+ *
+ * O fluxo é: ler a tabela, sugerir o mapeamento de colunas, detectar o formato
+ * das datas e montar um plano (simulação) que só é gravado após confirmação.
+ */
+export class CsvImport {
+  static readTable(content: string): CsvTable {
+    const [headers = [], ...rows] = Csv.parse(content);
+    return { headers: headers.map(header => header.trim()), rows };
+  }
+
+  static suggestMapping(headers: string[]): CsvColumnMapping {
+    const normalized = headers.map(header => this.normalize(header));
+    const mapping = {} as CsvColumnMapping;
+
+    for (const field of CSV_FIELDS) {
+      const index = normalized.findIndex((header, column) =>
+        HEADER_ALIASES[field].includes(header) && !Object.values(mapping).includes(column)
+      );
+      mapping[field] = index >= 0 ? index : null;
+    }
+
+    // Sem cabeçalho reconhecido, a primeira coluna costuma ser a data
+    if (mapping.date === null && headers.length > 0) mapping.date = 0;
+    return mapping;
+  }
+
+  /**
+   * Decide entre ISO, DD/MM/AAAA e MM/DD/AAAA olhando todos os valores.
+   * Quando nenhum dia passa de 12 a escolha segue o idioma e fica marcada
+   * como ambígua para o usuário confirmar.
+   */
+  static detectDateFormat(values: string[], language: string): { format: CsvDateFormat; ambiguous: boolean } {
+    const filled = values.map(value => value.trim()).filter(Boolean);
+    const fallback: CsvDateFormat = language === 'pt' ? 'dmy' : 'mdy';
+
+    if (filled.length > 0 && filled.every(value => this.isoParts(value))) {
+      return { format: 'iso', ambiguous: false };
+    }
+
+    let firstAbove12 = false;
+    let secondAbove12 = false;
+    for (const value of filled) {
+      const parts = this.numericParts(value);
+      if (!parts) continue;
+      if (parts[0] > 12) firstAbove12 = true;
+      if (parts[1] > 12) secondAbove12 = true;
+    }
+
+    if (firstAbove12 && !secondAbove12) return { format: 'dmy', ambiguous: false };
+    if (secondAbove12 && !firstAbove12) return { format: 'mdy', ambiguous: false };
+    return { format: fallback, ambiguous: true };
+  }
+
+  static parseDate(value: string, format: CsvDateFormat): string | null {
+    const trimmed = value.trim();
+    let year: number;
+    let month: number;
+    let day: number;
+
+    const iso = this.isoParts(trimmed);
+    if (iso) {
+      [year, month, day] = iso;
+    } else {
+      const parts = this.numericParts(trimmed);
+      if (!parts || format === 'iso') return null;
+      [day, month] = format === 'dmy' ? [parts[0], parts[1]] : [parts[1], parts[0]];
+      year = parts[2] < 100 ? 2000 + parts[2] : parts[2];
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  /**
+   * Simulação da importação: valida cada linha contra o formato de
+   * DailyRecord e a unicidade (user_id, date) e compara com a nuvem.
+   */
+  static plan(input: CsvPlanInput): CsvImportPlan {
+    const { table, mapping } = input;
+    const existingByDate = new Map(input.existingRecords.map(record => [record.date, record]));
+    const datesWithIntakes = new Set(input.existingIntakes.map(intake => intake.date));
+    const rowByDate = new Map<string, number>();
+    const plan: CsvImportPlan = {
+      records: [],
+      added: [],
+      updated: [],
+      unchanged: 0,
+      skipped: [],
+      issues: [],
+      totalRows: table.rows.length,
+    };
+
+    table.rows.forEach((cells, index) => {
+      // Linha 1 é o cabeçalho
+      const row = index + 2;
+      const cell = (field: CsvField) => {
+        const column = mapping[field];
+        return column === null ? '' : (cells[column] || '').trim();
+      };
+      const issue = (code: CsvIssueCode, value: string) => plan.issues.push({ row, code, value });
+
+      const date = this.parseDate(cell('date'), input.dateFormat);
+      if (!date) return issue('invalidDate', cell('date'));
+      if (date > input.today) return issue('futureDate', cell('date'));
+      if (rowByDate.has(date)) return issue('duplicateDate', cell('date'));
+      rowByDate.set(date, row);
+
+      const dayPlan = input.planFor(date);
+      const existing = existingByDate.get(date);
+
+      let capsules = dayPlan.capsules;
+      if (mapping.capsules !== null && cell('capsules') !== '') {
+        const parsed = Number(cell('capsules').replace(',', '.'));
+        if (!Number.isInteger(parsed) || parsed < 0) return issue('invalidCapsules', cell('capsules'));
+        capsules = parsed;
+      }
+
+      // Colunas ausentes mantêm o que o dia já tem na nuvem
+      let time = existing?.time?.slice(0, 5) || dayPlan.doses[0]?.time || DEFAULT_TIME;
+      if (cell('time') !== '') {
+        const parsed = this.parseTime(cell('time'));
+        if (!parsed) return issue('invalidTime', cell('time'));
+        time = parsed;
+      }
+
+      let completed = DoseSchedule.isDayComplete(dayPlan, capsules);
+      if (cell('completed') !== '') {
+        const value = this.normalize(cell('completed'));
+        if (TRUE_VALUES.includes(value)) completed = true;
+        else if (FALSE_VALUES.includes(value)) completed = false;
+        else return issue('invalidCompleted', cell('completed'));
+      }
+
+      const notes = mapping.notes === null ? existing?.notes || '' : cell('notes');
+      const record: CsvImportedRecord = { date, capsules, time, notes, completed };
+
+      if (datesWithIntakes.has(date)) {
+        plan.skipped.push(date);
+        return;
+      }
+
+      if (!existing) {
+        plan.added.push(date);
+      } else if (
+        existing.capsules === record.capsules &&
+        (existing.time || '').slice(0, 5) === record.time &&
+        (existing.notes || '') === record.notes &&
+        existing.completed === record.completed
+      ) {
+        plan.unchanged++;
+        return;
+      } else {
+        plan.updated.push(date);
+      }
+
+      plan.records.push(record);
+    });
+
+    return plan;
+  }
+
+  private static parseTime(value: string): string | null {
+    const match = value.trim().match(/^(\d{1,2})[:h](\d{2})(?::\d{2})?\s*(am|pm)?$/i);
+    if (!match) return null;
+
+    let hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    const meridiem = match[3]?.toLowerCase();
+    if (meridiem) {
+      if (hours < 1 || hours > 12) return null;
+      hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+    }
+    if (hours > 23 || minutes > 59) return null;
+
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+
+  // AAAA-MM-DD ou AAAA/MM/DD, com hora opcional depois da data
+  private static isoParts(value: string): [number, number, number] | null {
+    const match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+    return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+  }
+
+  // Três números separados por /, - ou . com o ano por último
+  private static numericParts(value: string): [number, number, number] | null {
+    const match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:\s.*)?$/);
+    return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+  }
+
+  private static normalize(value: string): string {
+    return value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  }
+}
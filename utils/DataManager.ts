@@ -2,17 +2,84 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import * as DocumentPicker from 'expo-document-picker';
+import * as Print from 'expo-print';
+import { SupabaseService } from '@/services/SupabaseService';
+import { DailyRecord, DoseIntake, UserProfile, UserSettings } from '@/types/database';
+import { BackupFile, BackupPreferences, BackupReport } from '@/types/backup';
+import { BackupCrypto } from '@/utils/BackupCrypto';
+import { Csv } from '@/utils/Csv';
+import { CsvColumnMapping, CsvDateFormat, CsvImport, CsvImportPlan, CsvTable } from '@/utils/CsvImport';
+import { DayPlan } from '@/utils/DoseSchedule';
+import { IntegrityChecker, IntegrityIssue, IntegrityReport } from '@/utils/IntegrityChecker';
+import { BackupSchema } from '@/utils/BackupSchema';
+import { LocalDate } from '@/utils/LocalDate';
 
-export interface UserData {
-  profile: any;
-  records: any[];
-  settings: any;
-  auth: any;
-  metadata: {
-    version: string;
-    exportDate: string;
-    deviceInfo: string;
+export interface ParsedBackup {
+  data: BackupFile | null;
+  report: BackupReport;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface RecordsTableLabels {
+  date: string;
+  time: string;
+  capsules: string;
+  completed: string;
+  notes: string;
+  yes: string;
+  no: string;
+}
+
+export interface ImportPreview {
+  mode: ImportMode;
+  exportDate: string | null;
+  records: {
+    added: string[];
+    updated: string[];
+    removed: string[];
+    unchanged: number;
+  };
+  intakes: {
+    added: number;
+    removed: number;
+  };
+  profileFields: string[];
+  settingsFields: string[];
+}
+
+export type LocalStorageCategory = 'pending' | 'preferences' | 'session' | 'legacy' | 'other';
+
+export interface UsageReport {
+  local: {
+    totalBytes: number;
+    storage: { category: LocalStorageCategory; bytes: number; keys: number }[];
+    // Arquivos temporários e exportações já compartilhadas, que podem ser apagados
+    cacheBytes: number;
+    cacheFiles: number;
+    snapshotBytes: number;
+    snapshotFiles: number;
   };
+  // null quando a nuvem não pôde ser consultada
+  cloud: {
+    recordsPerYear: { year: string; records: number; doses: number }[];
+    totalRecords: number;
+    totalDoses: number;
+    profileImageBytes: number;
+    profileImageCount: number;
+  } | null;
+}
+
+interface CloudData {
+  profile: UserProfile | null;
+  records: DailyRecord[];
+  intakes: DoseIntake[];
+  settings: UserSettings | null;
 }
 
 export class DataManager {
@@ -25,33 +92,49 @@ export class DataManager {
     APP_THEME: 'appTheme',
     APP_LANGUAGE: 'appLanguage',
   };
+  private static readonly THEMES: NonNullable<BackupPreferences['theme']>[] = ['light', 'dark'];
+  private static readonly LANGUAGES: NonNullable<BackupPreferences['language']>[] = ['en', 'pt'];
+
+  // Chaves antigas do armazenamento local, anteriores à sincronização com a nuvem
+  private static readonly LEGACY_KEYS = [
+    'userProfile', 'dailyRecords', 'appSettings', 'user', 'authToken',
+    'currentUser', 'registeredUsers', 'max_testorin_user', 'max_testorin_auth_token',
+  ];
+  private static readonly PREFERENCE_KEYS = ['appTheme', 'appLanguage', 'backupSnapshotSettings', 'timezone_travel_dismissed'];
+  private static readonly EXPORT_FILE_PATTERN = /^MaxTestorin_(Backup|Intakes|Report)_/;
+  private static readonly SNAPSHOT_FOLDER = 'snapshots/';
 
-  private static readonly CURRENT_VERSION = '1.0.0';
+  // Campos comparados para saber se um dia do backup altera o da nuvem
+  private static readonly RECORD_FIELDS: (keyof DailyRecord)[] = ['capsules', 'time', 'notes', 'completed', 'edited_late'];
+
+  // Campos que pertencem à conta ou ao servidor e nunca vêm do backup
+  private static readonly PROTECTED_FIELDS = ['user_id', 'email', 'created_at', 'updated_at'];
 
   /**
-   * Exporta todos os dados do usuário
+   * Exporta os dados do usuário autenticado direto da nuvem
    */
-  static async exportUserData(): Promise<string> {
+  static async exportUserData(userId: string): Promise<string> {
     try {
-      const data: UserData = {
-        profile: await this.getStorageItem(this.STORAGE_KEYS.USER_PROFILE),
-        records: await this.getStorageItem(this.STORAGE_KEYS.DAILY_RECORDS) || [],
-        settings: {
-          appSettings: await this.getStorageItem(this.STORAGE_KEYS.APP_SETTINGS),
-          theme: await this.getStorageItem(this.STORAGE_KEYS.APP_THEME),
-          language: await this.getStorageItem(this.STORAGE_KEYS.APP_LANGUAGE),
-        },
-        auth: {
-          user: await this.getStorageItem(this.STORAGE_KEYS.USER_AUTH),
-          token: await this.getStorageItem(this.STORAGE_KEYS.AUTH_TOKEN),
+      const cloud = await this.fetchCloudData(userId);
+
+      const data: BackupFile = {
+        profile: cloud.profile,
+        records: cloud.records,
+        intakes: cloud.intakes,
+        settings: cloud.settings,
+        preferences: {
+          theme: await this.getPreference(this.STORAGE_KEYS.APP_THEME, this.THEMES),
+          language: await this.getPreference(this.STORAGE_KEYS.APP_LANGUAGE, this.LANGUAGES),
         },
         metadata: {
-          version: this.CURRENT_VERSION,
+          version: BackupSchema.CURRENT_VERSION,
           exportDate: new Date().toISOString(),
           deviceInfo: 'MaxTestorin Tracker',
+          userId,
         },
       };
 
+      console.log(`📦 [DataManager] Exported ${data.records.length} records and ${data.intakes.length} intakes`);
       return JSON.stringify(data, null, 2);
     } catch (error) {
       console.error('Error exporting data:', error);
@@ -60,45 +143,92 @@ export class DataManager {
   }
 
   /**
-   * Importa dados do usuário
+   * Lê um arquivo de backup, atualiza versões antigas e valida o resultado.
+   * Arquivos rejeitados voltam com data = null e os erros no relatório.
+   * Backups protegidos por senha precisam da senha para serem abertos.
    */
-  static async importUserData(jsonData: string): Promise<void> {
+  static async parseBackup(content: string, passphrase?: string): Promise<ParsedBackup> {
+    let jsonData = content;
+    if (BackupCrypto.isEncrypted(content)) {
+      if (!passphrase) throw new Error('Passphrase required');
+      jsonData = await BackupCrypto.decrypt(content, passphrase);
+    }
+
+    let raw: unknown;
     try {
-      const data: UserData = JSON.parse(jsonData);
-      
-      // Validar estrutura dos dados
-      this.validateImportData(data);
+      raw = JSON.parse(jsonData);
+    } catch {
+      return {
+        data: null,
+        report: {
+          fromVersion: '',
+          toVersion: BackupSchema.CURRENT_VERSION,
+          steps: [],
+          errors: ['The file is not valid JSON'],
+        },
+      };
+    }
 
-      // Importar dados
-      if (data.profile) {
-        await this.setStorageItem(this.STORAGE_KEYS.USER_PROFILE, data.profile);
-      }
+    const result = BackupSchema.upgrade(raw);
+    if (result.report.errors.length > 0) {
+      console.warn(`⚠️ [DataManager] Backup rejected: ${result.report.errors.join('; ')}`);
+    }
+    return result;
+  }
+
+  static isEncryptedBackup(content: string): boolean {
+    return BackupCrypto.isEncrypted(content);
+  }
+
+  /**
+   * Compara o backup com a nuvem e descreve o que a importação vai mudar
+   */
+  static async previewImport(userId: string, data: BackupFile, mode: ImportMode): Promise<ImportPreview> {
+    const cloud = await this.fetchCloudData(userId);
+    return this.diff(cloud, data, mode);
+  }
 
-      if (data.records && Array.isArray(data.records)) {
-        await this.setStorageItem(this.STORAGE_KEYS.DAILY_RECORDS, data.records);
+  /**
+   * Importa o backup para a nuvem.
+   *
+   * - merge: mantém os dias da nuvem e grava por cima apenas os dias do backup
+   * - replace: grava o backup e só depois apaga o que ficou de fora dele, para
+   *   que uma falha no meio nunca deixe a conta sem os dados antigos
+   */
+  static async importUserData(userId: string, data: BackupFile, mode: ImportMode): Promise<ImportPreview> {
+    try {
+      const cloud = await this.fetchCloudData(userId);
+      const preview = this.diff(cloud, data, mode);
+      console.log(`📥 [DataManager] Importing backup (${mode}) for user ${userId}`);
+
+      if (mode === 'replace') {
+        await SupabaseService.bulkUpsertDailyRecords(userId, data.records);
+        await SupabaseService.bulkInsertDoseIntakes(userId, data.intakes);
+        await SupabaseService.deleteDoseIntakesByIds(userId, cloud.intakes.flatMap(intake => intake.id ? [intake.id] : []));
+        await SupabaseService.deleteDailyRecordsByDates(userId, preview.records.removed);
+      } else {
+        const changed = new Set([...preview.records.added, ...preview.records.updated]);
+        const cloudIntakes = new Set(cloud.intakes.map(intake => this.intakeKey(intake)));
+
+        await SupabaseService.bulkUpsertDailyRecords(userId, data.records.filter(record => changed.has(record.date)));
+        await SupabaseService.bulkInsertDoseIntakes(userId, data.intakes.filter(intake => !cloudIntakes.has(this.intakeKey(intake))));
       }
 
-      if (data.settings) {
-        if (data.settings.appSettings) {
-          await this.setStorageItem(this.STORAGE_KEYS.APP_SETTINGS, data.settings.appSettings);
-        }
-        if (data.settings.theme) {
-          await this.setStorageItem(this.STORAGE_KEYS.APP_THEME, data.settings.theme);
-        }
-        if (data.settings.language) {
-          await this.setStorageItem(this.STORAGE_KEYS.APP_LANGUAGE, data.settings.language);
-        }
+      if (data.profile && preview.profileFields.length > 0) {
+        await SupabaseService.upsertUserProfile(userId, cloud.profile
+          ? this.pick(data.profile, preview.profileFields)
+          : { ...data.profile, email: data.profile.email || '' });
       }
 
-      if (data.auth) {
-        if (data.auth.user) {
-          await this.setStorageItem(this.STORAGE_KEYS.USER_AUTH, data.auth.user);
-        }
-        if (data.auth.token) {
-          await this.setStorageItem(this.STORAGE_KEYS.AUTH_TOKEN, data.auth.token);
-        }
+      if (data.settings && preview.settingsFields.length > 0) {
+        await SupabaseService.upsertUserSettings(userId, this.pick(data.settings, preview.settingsFields));
       }
 
+      await this.setPreference(this.STORAGE_KEYS.APP_THEME, this.THEMES, data.preferences?.theme);
+      await this.setPreference(this.STORAGE_KEYS.APP_LANGUAGE, this.LANGUAGES, data.preferences?.language);
+
+      console.log(`✅ [DataManager] Import finished: ${preview.records.added.length} added, ${preview.records.updated.length} updated, ${preview.records.removed.length} removed`);
+      return preview;
     } catch (error) {
       console.error('Error importing data:', error);
       throw new Error('Failed to import data. Please check the file format.');
@@ -106,12 +236,13 @@ export class DataManager {
   }
 
   /**
-   * Cria backup em arquivo
+   * Cria backup em arquivo, cifrado quando há senha
    */
-  static async createBackupFile(): Promise<string> {
+  static async createBackupFile(userId: string, passphrase?: string): Promise<string> {
     try {
-      const data = await this.exportUserData();
-      const fileName = `MaxTestorin_Backup_${new Date().toISOString().split('T')[0]}.json`;
+      const json = await this.exportUserData(userId);
+      const data = passphrase ? await BackupCrypto.encrypt(json, passphrase) : json;
+      const fileName = `MaxTestorin_Backup_${LocalDate.today()}${passphrase ? '_encrypted' : ''}.json`;
       const fileUri = `${FileSystem.documentDirectory}${fileName}`;
       
       await FileSystem.writeAsStringAsync(fileUri, data);
@@ -125,18 +256,10 @@ export class DataManager {
   /**
    * Compartilha arquivo de backup
    */
-  static async shareBackup(): Promise<void> {
+  static async shareBackup(userId: string, passphrase?: string): Promise<void> {
     try {
-      const fileUri = await this.createBackupFile();
-      
-      if (await Sharing.isAvailableAsync()) {
-        await Sharing.shareAsync(fileUri, {
-          mimeType: 'application/json',
-          dialogTitle: 'Share MaxTestorin Backup',
-        });
-      } else {
-        throw new Error('Sharing is not available on this device');
-      }
+      const fileUri = await this.createBackupFile(userId, passphrase);
+      await this.shareFile(fileUri, 'application/json', 'Share MaxTestorin Backup');
     } catch (error) {
       console.error('Error sharing backup:', error);
       throw new Error('Failed to share backup');
@@ -144,24 +267,130 @@ export class DataManager {
   }
 
   /**
-   * Seleciona e importa arquivo de backup
+   * Exporta a tabela de registros diários do período em CSV e compartilha.
+   * Retorna quantos dias foram exportados (nada é compartilhado se zero).
+   */
+  static async shareRecordsCsv(userId: string, range: DateRange, labels: RecordsTableLabels, language: string): Promise<number> {
+    try {
+      const records = await SupabaseService.getDailyRecordsInRange(userId, range.start, range.end);
+      if (records.length === 0) return 0;
+
+      const rows = [
+        [labels.date, labels.time, labels.capsules, labels.completed, labels.notes],
+        ...records.map(record => [
+          record.date,
+          record.time,
+          record.capsules,
+          record.completed ? labels.yes : labels.no,
+          record.notes || '',
+        ]),
+      ];
+
+      const fileUri = `${FileSystem.documentDirectory}MaxTestorin_Intakes_${range.start}_${range.end}.csv`;
+      await FileSystem.writeAsStringAsync(fileUri, Csv.stringify(rows, Csv.delimiterFor(language)));
+      await this.shareFile(fileUri, 'text/csv', 'Share intake history', 'public.comma-separated-values-text');
+
+      console.log(`📊 [DataManager] Exported ${records.length} records to CSV`);
+      return records.length;
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+      throw new Error('Failed to export CSV');
+    }
+  }
+
+  /**
+   * Gera o PDF do relatório para o médico a partir do HTML e compartilha
+   */
+  static async shareClinicianReport(html: string, range: DateRange): Promise<void> {
+    try {
+      const { uri } = await Print.printToFileAsync({ html });
+      const fileUri = `${FileSystem.documentDirectory}MaxTestorin_Report_${range.start}_${range.end}.pdf`;
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
+      await FileSystem.moveAsync({ from: uri, to: fileUri });
+      await this.shareFile(fileUri, 'application/pdf', 'Share progress report', 'com.adobe.pdf');
+
+      console.log(`🩺 [DataManager] Clinician report shared (${range.start} → ${range.end})`);
+    } catch (error) {
+      console.error('Error sharing clinician report:', error);
+      throw new Error('Failed to generate report');
+    }
+  }
+
+  /**
+   * Seleciona um arquivo de backup e devolve o conteúdo (null se o usuário cancelar)
    */
-  static async selectAndImportBackup(): Promise<void> {
+  static async selectBackupFile(): Promise<string | null> {
     try {
       const result = await DocumentPicker.getDocumentAsync({
         type: 'application/json',
         copyToCacheDirectory: true,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        const fileContent = await FileSystem.readAsStringAsync(result.assets[0].uri);
-        await this.importUserData(fileContent);
-      } else {
-        throw new Error('No file selected');
-      }
+      if (result.canceled || !result.assets[0]) return null;
+
+      return await FileSystem.readAsStringAsync(result.assets[0].uri);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      throw new Error('Failed to read backup file');
+    }
+  }
+
+  /**
+   * Seleciona um CSV de planilha ou de outro app (null se o usuário cancelar)
+   */
+  static async selectCsvFile(): Promise<CsvTable | null> {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets[0]) return null;
+
+      return CsvImport.readTable(await FileSystem.readAsStringAsync(result.assets[0].uri));
     } catch (error) {
-      console.error('Error importing backup:', error);
-      throw new Error('Failed to import backup file');
+      console.error('Error reading CSV:', error);
+      throw new Error('Failed to read CSV file');
+    }
+  }
+
+  /**
+   * Simula a importação do CSV contra os registros atuais da nuvem
+   */
+  static async previewCsvImport(
+    userId: string,
+    table: CsvTable,
+    mapping: CsvColumnMapping,
+    dateFormat: CsvDateFormat,
+    planFor: (date: string) => DayPlan
+  ): Promise<CsvImportPlan> {
+    const [existingRecords, existingIntakes] = await Promise.all([
+      SupabaseService.getDailyRecords(userId),
+      SupabaseService.getDoseIntakes(userId),
+    ]);
+
+    return CsvImport.plan({
+      table,
+      mapping,
+      dateFormat,
+      existingRecords,
+      existingIntakes,
+      planFor,
+      today: LocalDate.today(),
+    });
+  }
+
+  /**
+   * Grava os dias novos e alterados do plano em lote (upsert por user_id + date)
+   */
+  static async importCsvRecords(userId: string, plan: CsvImportPlan): Promise<number> {
+    try {
+      const written = await SupabaseService.bulkUpsertDailyRecords(userId, plan.records);
+      console.log(`📥 [DataManager] Imported ${written} records from CSV`);
+      return written;
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      throw new Error('Failed to import CSV');
     }
   }
 
@@ -179,45 +408,61 @@ export class DataManager {
   }
 
   /**
-   * Valida integridade dos dados
+   * Procura inconsistências nos dados do usuário na nuvem (não altera nada)
    */
-  static async validateDataIntegrity(): Promise<boolean> {
+  static async validateDataIntegrity(userId: string, planFor: (date: string) => DayPlan): Promise<IntegrityReport> {
     try {
-      const profile = await this.getStorageItem(this.STORAGE_KEYS.USER_PROFILE);
-      const records = await this.getStorageItem(this.STORAGE_KEYS.DAILY_RECORDS);
-      
-      // Validações básicas
-      if (records && !Array.isArray(records)) {
-        return false;
-      }
+      const [cloud, images] = await Promise.all([
+        this.fetchCloudData(userId),
+        SupabaseService.listProfileImages(userId),
+      ]);
 
-      if (profile && typeof profile !== 'object') {
-        return false;
-      }
+      const report = IntegrityChecker.scan({
+        records: cloud.records,
+        intakes: cloud.intakes,
+        profile: cloud.profile,
+        images,
+        planFor,
+        today: LocalDate.today(),
+      });
 
-      return true;
+      console.log(`🩺 [DataManager] Integrity scan found ${report.issues.length} issues in ${report.checkedRecords} records`);
+      return report;
     } catch (error) {
       console.error('Error validating data integrity:', error);
-      return false;
+      throw new Error('Failed to validate data');
     }
   }
 
   /**
-   * Migra dados para nova versão
+   * Aplica as correções sugeridas. Exclusões vão antes das alterações para que
+   * uma data corrigida não colida com a duplicata que ainda seria apagada.
    */
-  static async migrateData(fromVersion: string, toVersion: string): Promise<void> {
-    try {
-      // Implementar migrações específicas conforme necessário
-      console.log(`Migrating data from ${fromVersion} to ${toVersion}`);
-      
-      // Exemplo de migração
-      if (fromVersion === '0.9.0' && toVersion === '1.0.0') {
-        // Migrar estrutura de dados se necessário
+  static async repairIntegrityIssues(userId: string, issues: IntegrityIssue[]): Promise<number> {
+    const ordered = [...issues].sort((a, b) =>
+      Number(a.fix.type === 'updateRecord') - Number(b.fix.type === 'updateRecord')
+    );
+    let repaired = 0;
+
+    for (const { fix } of ordered) {
+      try {
+        if (fix.type === 'deleteRecords') {
+          for (const recordId of fix.recordIds) {
+            await SupabaseService.deleteDailyRecord(recordId);
+          }
+        } else if (fix.type === 'updateRecord') {
+          await SupabaseService.updateDailyRecord(fix.recordId, fix.changes);
+        } else {
+          await SupabaseService.deleteProfileImageFiles(userId, fix.fileNames);
+        }
+        repaired++;
+      } catch (error) {
+        console.error('Error repairing integrity issue:', error);
       }
-    } catch (error) {
-      console.error('Error migrating data:', error);
-      throw new Error('Failed to migrate data');
     }
+
+    console.log(`🔧 [DataManager] Repaired ${repaired}/${issues.length} integrity issues`);
+    return repaired;
   }
 
   /**
@@ -237,79 +482,253 @@ export class DataManager {
   }
 
   /**
-   * Obtém estatísticas de uso de armazenamento
+   * Uso de espaço no aparelho e na nuvem
    */
-  static async getStorageStats(): Promise<{
-    totalSize: number;
-    itemCount: number;
-    breakdown: Record<string, number>;
-  }> {
+  static async getUsageReport(userId: string): Promise<UsageReport> {
+    const [local, cloud] = await Promise.all([
+      this.getLocalUsage(),
+      this.getCloudUsage(userId).catch(error => {
+        console.error('Error getting cloud usage:', error);
+        return null;
+      }),
+    ]);
+
+    return { local, cloud };
+  }
+
+  /**
+   * Apaga arquivos temporários e exportações locais. Dados da nuvem, alterações
+   * offline pendentes, preferências e backups automáticos não são tocados.
+   * Retorna quantos bytes foram liberados.
+   */
+  static async clearLocalCaches(): Promise<number> {
     try {
-      const keys = Object.values(this.STORAGE_KEYS);
-      const breakdown: Record<string, number> = {};
-      let totalSize = 0;
-      let itemCount = 0;
-
-      for (const key of keys) {
-        try {
-          const value = await AsyncStorage.getItem(key);
-          if (value) {
-            const size = new Blob([value]).size;
-            breakdown[key] = size;
-            totalSize += size;
-            itemCount++;
-          }
-        } catch (error) {
-          breakdown[key] = 0;
-        }
+      const files = await this.cacheFiles();
+      for (const file of files) {
+        await FileSystem.deleteAsync(file.uri, { idempotent: true });
       }
 
-      return {
-        totalSize,
-        itemCount,
-        breakdown,
-      };
+      const freed = files.reduce((sum, file) => sum + file.size, 0);
+      console.log(`🧹 [DataManager] Cleared ${files.length} cached files (${freed} bytes)`);
+      return freed;
     } catch (error) {
-      console.error('Error getting storage stats:', error);
-      return {
-        totalSize: 0,
-        itemCount: 0,
-        breakdown: {},
-      };
+      console.error('Error clearing local caches:', error);
+      throw new Error('Failed to clear local caches');
     }
   }
 
   // Métodos auxiliares privados
-  private static async getStorageItem(key: string): Promise<any> {
-    try {
-      const value = await AsyncStorage.getItem(key);
-      return value ? JSON.parse(value) : null;
-    } catch (error) {
-      console.error(`Error getting storage item ${key}:`, error);
-      return null;
+  private static async shareFile(fileUri: string, mimeType: string, dialogTitle: string, UTI?: string): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
     }
+
+    await Sharing.shareAsync(fileUri, { mimeType, dialogTitle, UTI });
   }
 
-  private static async setStorageItem(key: string, value: any): Promise<void> {
-    try {
-      await AsyncStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-      console.error(`Error setting storage item ${key}:`, error);
-      throw error;
+  private static async fetchCloudData(userId: string): Promise<CloudData> {
+    const [profile, records, intakes, settings] = await Promise.all([
+      SupabaseService.getUserProfile(userId),
+      SupabaseService.getDailyRecords(userId),
+      SupabaseService.getDoseIntakes(userId),
+      SupabaseService.getUserSettings(userId),
+    ]);
+
+    return { profile, records, intakes, settings };
+  }
+
+  private static diff(cloud: CloudData, data: BackupFile, mode: ImportMode): ImportPreview {
+    const cloudRecords = new Map(cloud.records.map(record => [record.date, record]));
+    const backupDates = new Set<string>();
+    const preview: ImportPreview = {
+      mode,
+      exportDate: data.metadata?.exportDate || null,
+      records: { added: [], updated: [], removed: [], unchanged: 0 },
+      intakes: { added: 0, removed: 0 },
+      profileFields: this.changedFields(cloud.profile, data.profile),
+      settingsFields: this.changedFields(cloud.settings, data.settings),
+    };
+
+    for (const record of data.records) {
+      backupDates.add(record.date);
+
+      const existing = cloudRecords.get(record.date);
+      if (!existing) {
+        preview.records.added.push(record.date);
+      } else if (this.RECORD_FIELDS.some(field => (record[field] ?? null) !== (existing[field] ?? null))) {
+        preview.records.updated.push(record.date);
+      } else {
+        preview.records.unchanged++;
+      }
+    }
+
+    if (mode === 'replace') {
+      preview.records.removed = cloud.records.map(record => record.date).filter(date => !backupDates.has(date));
+      preview.intakes = { added: data.intakes.length, removed: cloud.intakes.length };
+    } else {
+      const cloudIntakes = new Set(cloud.intakes.map(intake => this.intakeKey(intake)));
+      preview.intakes.added = data.intakes.filter(intake => !cloudIntakes.has(this.intakeKey(intake))).length;
+    }
+
+    preview.records.added.sort();
+    preview.records.updated.sort();
+    preview.records.removed.sort();
+    return preview;
+  }
+
+  private static changedFields(current: Record<string, any> | null, incoming: Record<string, any> | null): string[] {
+    if (!incoming) return [];
+
+    return Object.keys(incoming).filter(field =>
+      !this.PROTECTED_FIELDS.includes(field) &&
+      JSON.stringify(incoming[field] ?? null) !== JSON.stringify(current?.[field] ?? null)
+    );
+  }
+
+  private static pick<T extends Record<string, any>>(source: T, fields: string[]): Partial<T> {
+    const picked: Partial<T> = {};
+    for (const field of fields) {
+      picked[field as keyof T] = source[field];
+    }
+    return picked;
+  }
+
+  private static intakeKey(intake: Partial<DoseIntake>): string {
+    return `${intake.date}|${intake.taken_at}`;
+  }
+
+  private static async getLocalUsage(): Promise<UsageReport['local']> {
+    const keys = await AsyncStorage.getAllKeys();
+    const entries = await AsyncStorage.multiGet(keys);
+    const categories = new Map<LocalStorageCategory, { bytes: number; keys: number }>();
+
+    for (const [key, value] of entries) {
+      const category = this.categoryOf(key);
+      const current = categories.get(category) || { bytes: 0, keys: 0 };
+      categories.set(category, {
+        bytes: current.bytes + this.byteLength(key) + this.byteLength(value || ''),
+        keys: current.keys + 1,
+      });
+    }
+
+    const cache = await this.cacheFiles();
+    const snapshots = FileSystem.documentDirectory
+      ? await this.listFiles(FileSystem.documentDirectory + this.SNAPSHOT_FOLDER)
+      : [];
+
+    const storage = [...categories.entries()].map(([category, usage]) => ({ category, ...usage }));
+    const cacheBytes = cache.reduce((sum, file) => sum + file.size, 0);
+    const snapshotBytes = snapshots.reduce((sum, file) => sum + file.size, 0);
+
+    return {
+      totalBytes: storage.reduce((sum, item) => sum + item.bytes, 0) + cacheBytes + snapshotBytes,
+      storage,
+      cacheBytes,
+      cacheFiles: cache.length,
+      snapshotBytes,
+      snapshotFiles: snapshots.length,
+    };
+  }
+
+  private static async getCloudUsage(userId: string): Promise<NonNullable<UsageReport['cloud']>> {
+    const [dates, images] = await Promise.all([
+      SupabaseService.getCloudDates(userId),
+      SupabaseService.listProfileImages(userId),
+    ]);
+
+    const years = new Map<string, { records: number; doses: number }>();
+    const count = (date: string, field: 'records' | 'doses') => {
+      const year = date.slice(0, 4);
+      const current = years.get(year) || { records: 0, doses: 0 };
+      years.set(year, { ...current, [field]: current[field] + 1 });
+    };
+    dates.records.forEach(date => count(date, 'records'));
+    dates.intakes.forEach(date => count(date, 'doses'));
+
+    return {
+      recordsPerYear: [...years.entries()]
+        .map(([year, totals]) => ({ year, ...totals }))
+        .sort((a, b) => b.year.localeCompare(a.year)),
+      totalRecords: dates.records.length,
+      totalDoses: dates.intakes.length,
+      profileImageBytes: images.reduce((sum, image) => sum + image.size, 0),
+      profileImageCount: images.length,
+    };
+  }
+
+  private static categoryOf(key: string): LocalStorageCategory {
+    if (key.startsWith('max_testorin_records_outbox')) return 'pending';
+    if (key.startsWith('sb-') || key.startsWith('supabase.')) return 'session';
+    if (this.LEGACY_KEYS.includes(key)) return 'legacy';
+    if (this.PREFERENCE_KEYS.includes(key)) return 'preferences';
+    return 'other';
+  }
+
+  // Todo o cacheDirectory mais as exportações deixadas no documentDirectory
+  private static async cacheFiles(): Promise<{ uri: string; size: number }[]> {
+    const cached = FileSystem.cacheDirectory ? await this.listFiles(FileSystem.cacheDirectory) : [];
+    const exports = FileSystem.documentDirectory
+      ? (await this.listFiles(FileSystem.documentDirectory, false))
+          .filter(file => this.EXPORT_FILE_PATTERN.test(file.uri.split('/').pop() || ''))
+      : [];
+
+    return [...cached, ...exports];
+  }
+
+  private static async listFiles(directory: string, recursive = true): Promise<{ uri: string; size: number }[]> {
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists || !info.isDirectory) return [];
+
+    const files: { uri: string; size: number }[] = [];
+    for (const name of await FileSystem.readDirectoryAsync(directory)) {
+      const uri = directory.endsWith('/') ? directory + name : `${directory}/${name}`;
+      const entry = await FileSystem.getInfoAsync(uri);
+      if (!entry.exists) continue;
+
+      if (entry.isDirectory) {
+        if (recursive) files.push(...await this.listFiles(`${uri}/`));
+      } else {
+        files.push({ uri, size: entry.size });
+      }
     }
+    return files;
   }
 
-  private static validateImportData(data: UserData): void {
-    if (!data || typeof data !== 'object') {
-      throw new Error('Invalid data format');
+  // Tamanho em UTF-8 sem depender de Blob/TextEncoder, ausentes no React Native
+  private static byteLength(value: string): number {
+    let bytes = 0;
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i);
+      if (code < 0x80) bytes += 1;
+      else if (code < 0x800) bytes += 2;
+      else if (code >= 0xd800 && code <= 0xdbff) {
+        bytes += 4;
+        i++;
+      } else bytes += 3;
     }
+    return bytes;
+  }
 
-    if (data.records && !Array.isArray(data.records)) {
-      throw new Error('Invalid records format');
+  // ThemeContext e LanguageContext guardam o valor puro ('dark', 'en'), sem JSON
+  private static async getPreference<T extends string>(key: string, allowed: T[]): Promise<T | null> {
+    try {
+      const value = await AsyncStorage.getItem(key);
+      return allowed.find(option => option === value) ?? null;
+    } catch (error) {
+      console.error(`Error getting preference ${key}:`, error);
+      return null;
     }
+  }
+
+  private static async setPreference<T extends string>(key: string, allowed: T[], value: unknown): Promise<void> {
+    const option = allowed.find(candidate => candidate === value);
+    if (!option) return;
 
-    if (data.metadata && !data.metadata.version) {
-      throw new Error('Missing version information');
+    try {
+      await AsyncStorage.setItem(key, option);
+    } catch (error) {
+      console.error(`Error setting preference ${key}:`, error);
+      throw error;
     }
   }
 }
\ No newline at end of file
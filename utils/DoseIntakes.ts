@@ -0,0 +1,61 @@
+import { DailyRecord, DoseIntake } from '@/types/database';
+import { DayPlan, DoseSchedule } from '@/utils/DoseSchedule';
+
+export interface DaySummary {
+  capsules: number;
+  doses: number;
+  time: string;
+  completed: boolean;
+}
+
+export class DoseIntakes {
+  static forDate(intakes: DoseIntake[], date: string): DoseIntake[] {
+    return intakes
+      .filter(intake => intake.date === date)
+      .sort((a, b) => a.taken_at.localeCompare(b.taken_at));
+  }
+
+  static groupByDate(intakes: DoseIntake[]): Record<string, DoseIntake[]> {
+    const groups: Record<string, DoseIntake[]> = {};
+    for (const intake of intakes) {
+      (groups[intake.date] = groups[intake.date] || []).push(intake);
+    }
+    return groups;
+  }
+
+  /**
+   * Resumo do dia a partir das tomadas: soma das cápsulas, horário da última
+   * tomada e se a quantidade prevista no esquema foi alcançada.
+   */
+  static summarize(intakes: DoseIntake[], plan: DayPlan): DaySummary {
+    const sorted = [...intakes].sort((a, b) => a.taken_at.localeCompare(b.taken_at));
+    const last = sorted[sorted.length - 1];
+    const capsules = sorted.reduce((sum, intake) => sum + intake.capsules, 0);
+
+    return {
+      capsules,
+      doses: sorted.length,
+      time: last?.time || '',
+      completed: DoseSchedule.isDayComplete(plan, capsules),
+    };
+  }
+
+  /**
+   * Cápsulas de cada dia. Dias antigos sem tomadas registradas usam o total
+   * gravado no próprio registro diário.
+   */
+  static capsulesByDate(records: DailyRecord[], intakes: DoseIntake[]): Record<string, number> {
+    const totals: Record<string, number> = {};
+
+    for (const record of records) {
+      if (record.completed) totals[record.date] = record.capsules;
+    }
+
+    const groups = this.groupByDate(intakes);
+    for (const date of Object.keys(groups)) {
+      totals[date] = groups[date].reduce((sum, intake) => sum + intake.capsules, 0);
+    }
+
+    return totals;
+  }
+}
@@ -0,0 +1,121 @@
+import { DosingSchedule, SchedulePhase, ScheduledDose } from '@/types/database';
+import { LocalDate } from '@/utils/LocalDate';
+
+export interface DayPlan {
+  doses: ScheduledDose[];
+  capsules: number;
+  isRestDay: boolean;
+  phase: SchedulePhase | null;
+  phaseIndex: number;
+}
+
+export class DoseSchedule {
+  static readonly DEFAULT_CAPSULES = 2;
+
+  /**
+   * Esquema simples usado enquanto o usuário não configurou um próprio:
+   * a meta diária dividida em doses ao longo do dia. As cápsulas somam
+   * exatamente a meta; a sobra da divisão vai para as primeiras doses, e nunca
+   * há mais doses do que cápsulas.
+   */
+  static fromSettings(
+    userId: string,
+    options: { dailyGoal?: number; dosesPerDay?: number; reminderTime?: string; startDate: string }
+  ): DosingSchedule {
+    const dailyGoal = options.dailyGoal || this.DEFAULT_CAPSULES;
+    const dosesPerDay = Math.min(dailyGoal, Math.max(1, options.dosesPerDay || 1));
+    const capsules = Math.floor(dailyGoal / dosesPerDay);
+    const remainder = dailyGoal % dosesPerDay;
+    const firstTime = options.reminderTime || '09:00';
+
+    const doses = Array.from({ length: dosesPerDay }, (_, index) => ({
+      time: index === 0 ? firstTime : this.addHours(firstTime, Math.round((12 / dosesPerDay) * index)),
+      capsules: capsules + (index < remainder ? 1 : 0),
+    }));
+
+    return {
+      user_id: userId,
+      name: '',
+      start_date: options.startDate,
+      phases: [{ duration_days: null, doses }],
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * O que estava previsto para um dia: fase ativa, ciclo de pausa e
+   * substituições por dia da semana.
+   */
+  static planFor(schedule: DosingSchedule | null, date: string): DayPlan {
+    if (!schedule || schedule.phases.length === 0) {
+      return this.toPlan([{ time: '09:00', capsules: this.DEFAULT_CAPSULES }], false, null, -1);
+    }
+
+    const dayIndex = LocalDate.daysBetween(schedule.start_date, date);
+
+    // Dias anteriores ao início seguem a dose regular da primeira fase
+    if (dayIndex < 0) {
+      return this.toPlan(schedule.phases[0].doses, false, schedule.phases[0], 0);
+    }
+
+    let offset = dayIndex;
+    let phaseIndex = 0;
+    for (; phaseIndex < schedule.phases.length - 1; phaseIndex++) {
+      const duration = schedule.phases[phaseIndex].duration_days;
+      if (!duration || offset < duration) break;
+      offset -= duration;
+    }
+
+    // A última fase continua valendo depois de terminar
+    const phase = schedule.phases[phaseIndex];
+    const cycleLength = (phase.cycle_on_days || 0) + (phase.cycle_off_days || 0);
+    if (phase.cycle_on_days && phase.cycle_off_days && offset % cycleLength >= phase.cycle_on_days) {
+      return this.toPlan([], true, phase, phaseIndex);
+    }
+
+    const weekday = LocalDate.weekday(date);
+    const doses = phase.weekday_doses?.[weekday] ?? phase.doses;
+    return this.toPlan(doses, doses.length === 0, phase, phaseIndex);
+  }
+
+  /**
+   * Um dia está completo quando as cápsulas tomadas alcançam o previsto
+   */
+  static isDayComplete(plan: DayPlan, capsulesTaken: number): boolean {
+    if (plan.isRestDay) return false;
+    return capsulesTaken >= plan.capsules;
+  }
+
+  /**
+   * Próxima dose prevista depois das já tomadas (a última se passou do plano)
+   */
+  static nextDose(plan: DayPlan, dosesTaken: number): ScheduledDose {
+    if (plan.doses.length === 0) return { time: '', capsules: this.DEFAULT_CAPSULES };
+    return plan.doses[Math.min(dosesTaken, plan.doses.length - 1)];
+  }
+
+  /**
+   * Opções de acesso rápido: as quantidades do esquema mais 1, 2 e 3
+   */
+  static quickOptions(plan: DayPlan): number[] {
+    const amounts = new Set([1, 2, 3, ...plan.doses.map(dose => dose.capsules)]);
+    return Array.from(amounts).filter(amount => amount > 0).sort((a, b) => a - b);
+  }
+
+  private static toPlan(doses: ScheduledDose[], isRestDay: boolean, phase: SchedulePhase | null, phaseIndex: number): DayPlan {
+    return {
+      doses,
+      capsules: doses.reduce((sum, dose) => sum + dose.capsules, 0),
+      isRestDay,
+      phase,
+      phaseIndex,
+    };
+  }
+
+  private static addHours(time: string, hours: number): string {
+    const [h, m] = time.split(':').map(Number);
+    const total = ((h + hours) % 24 + 24) % 24;
+    return `${String(total).padStart(2, '0')}:${String(m || 0).padStart(2, '0')}`;
+  }
+}
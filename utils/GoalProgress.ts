@@ -0,0 +1,75 @@
+import { LocalDate } from '@/utils/LocalDate';
+
+export interface GoalAttainment {
+  dailyGoal: number;
+  weeklyGoal: number;
+  todayCapsules: number;
+  dailyGoalMet: boolean;
+  weekCapsules: number;
+  weeklyGoalProgress: number;
+  weeklyGoalMet: boolean;
+  dailyGoalDaysThisWeek: number;
+}
+
+export class GoalProgress {
+  static readonly DEFAULT_DAILY_GOAL = 2;
+  static readonly DEFAULT_WEEKLY_GOAL = 14;
+
+  /**
+   * Primeiro dia (segunda-feira) da semana que contém a data
+   */
+  static weekStart(date: string): string {
+    const offset = (LocalDate.weekday(date) + 6) % 7;
+    return LocalDate.addDays(date, -offset);
+  }
+
+  /**
+   * Datas de início até fim, inclusive
+   */
+  static datesInRange(startDate: string, endDate: string): string[] {
+    const dates: string[] = [];
+    for (let date = startDate; date <= endDate; date = LocalDate.addDays(date, 1)) {
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  static capsulesInRange(capsulesByDate: Record<string, number>, startDate: string, endDate: string): number {
+    return this.datesInRange(startDate, endDate).reduce((sum, date) => sum + (capsulesByDate[date] || 0), 0);
+  }
+
+  /**
+   * Percentual da meta alcançado, limitado a 100
+   */
+  static percentage(capsules: number, goal: number): number {
+    if (goal <= 0) return 0;
+    return Math.min(100, (capsules / goal) * 100);
+  }
+
+  /**
+   * Situação das metas diária e semanal no dia informado
+   */
+  static attainment(
+    capsulesByDate: Record<string, number>,
+    today: string,
+    goals: { dailyGoal?: number; weeklyGoal?: number }
+  ): GoalAttainment {
+    const dailyGoal = goals.dailyGoal || this.DEFAULT_DAILY_GOAL;
+    const weeklyGoal = goals.weeklyGoal || this.DEFAULT_WEEKLY_GOAL;
+    const weekDates = this.datesInRange(this.weekStart(today), today);
+
+    const todayCapsules = capsulesByDate[today] || 0;
+    const weekCapsules = weekDates.reduce((sum, date) => sum + (capsulesByDate[date] || 0), 0);
+
+    return {
+      dailyGoal,
+      weeklyGoal,
+      todayCapsules,
+      dailyGoalMet: todayCapsules >= dailyGoal,
+      weekCapsules,
+      weeklyGoalProgress: this.percentage(weekCapsules, weeklyGoal),
+      weeklyGoalMet: weekCapsules >= weeklyGoal,
+      dailyGoalDaysThisWeek: weekDates.filter(date => (capsulesByDate[date] || 0) >= dailyGoal).length,
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import { DailyRecord, DoseIntake, UserProfile } from '@/types/database';
+import { DayPlan, DoseSchedule } from '@/utils/DoseSchedule';
+
+export type IntegrityIssueKind =
+  | 'invalidDate'
+  | 'duplicateDate'
+  | 'futureDate'
+  | 'negativeCapsules'
+  | 'absurdCapsules'
+  | 'malformedTime'
+  | 'completedMismatch'
+  | 'orphanedImage';
+
+export type IntegrityFix =
+  | { type: 'deleteRecords'; recordIds: string[] }
+  | { type: 'updateRecord'; recordId: string; changes: Partial<DailyRecord> }
+  | { type: 'deleteImages'; fileNames: string[] };
+
+export interface IntegrityIssue {
+  id: string;
+  kind: IntegrityIssueKind;
+  date: string | null;
+  value: string;
+  fix: IntegrityFix;
+}
+
+export interface IntegrityReport {
+  checkedRecords: number;
+  checkedImages: number;
+  issues: IntegrityIssue[];
+}
+
+interface IntegrityInput {
+  records: DailyRecord[];
+  intakes: DoseIntake[];
+  profile: UserProfile | null;
+  images: { name: string; size: number }[];
+  planFor: (date: string) => DayPlan;
+  today: string;
+}
+
+// Acima disso num único dia é quase certamente erro de digitação
+const MAX_DAILY_CAPSULES = 20;
+const DEFAULT_TIME = '09:00';
+
+/**
+ * Varredura dos dados do usuário na nuvem em busca de registros inconsistentes.
+ *
+ * Cada problema já vem com a correção sugerida, aplicada depois pelo
+ * DataManager; a varredura em si não altera nada.
+ */
+export class IntegrityChecker {
+  static scan(input: IntegrityInput): IntegrityReport {
+    const issues: IntegrityIssue[] = [];
+    const intakeTotals = new Map<string, number>();
+    for (const intake of input.intakes) {
+      intakeTotals.set(intake.date, (intakeTotals.get(intake.date) || 0) + intake.capsules);
+    }
+
+    // Datas escritas de formas diferentes contam como o mesmo dia
+    const groups = new Map<string, DailyRecord[]>();
+    for (const record of input.records) {
+      if (!record.id) continue;
+
+      const date = this.normalizeDate(record.date);
+      if (!date) {
+        issues.push(this.issue('invalidDate', record.id, null, String(record.date), { type: 'deleteRecords', recordIds: [record.id] }));
+        continue;
+      }
+      groups.set(date, [...(groups.get(date) || []), record]);
+    }
+
+    for (const [date, group] of groups) {
+      const [kept, ...duplicates] = [...group].sort((a, b) => (b.updated_at || '').localeCompare(a.updated_at || ''));
+      const recordId = kept.id!;
+
+      if (date > input.today) {
+        issues.push(this.issue('futureDate', recordId, date, date, { type: 'deleteRecords', recordIds: group.map(record => record.id!) }));
+        continue;
+      }
+
+      if (duplicates.length > 0) {
+        issues.push(this.issue('duplicateDate', recordId, date, String(group.length), {
+          type: 'deleteRecords',
+          recordIds: duplicates.map(record => record.id!),
+        }));
+      }
+
+      if (kept.date !== date) {
+        issues.push(this.issue('invalidDate', recordId, date, kept.date, { type: 'updateRecord', recordId, changes: { date } }));
+      }
+
+      const plan = input.planFor(date);
+      const capsules = Number(kept.capsules);
+      const capsulesValid = Number.isFinite(capsules) && capsules >= 0;
+
+      if (!capsulesValid) {
+        issues.push(this.issue('negativeCapsules', recordId, date, String(kept.capsules), {
+          type: 'updateRecord',
+          recordId,
+          changes: { capsules: intakeTotals.get(date) || 0 },
+        }));
+      } else if (capsules > MAX_DAILY_CAPSULES) {
+        issues.push(this.issue('absurdCapsules', recordId, date, String(capsules), {
+          type: 'updateRecord',
+          recordId,
+          changes: { capsules: intakeTotals.get(date) ?? plan.capsules },
+        }));
+      }
+
+      const time = this.normalizeTime(kept.time);
+      if (!time || !/^\d{2}:\d{2}(:\d{2})?$/.test(kept.time)) {
+        issues.push(this.issue('malformedTime', recordId, date, String(kept.time ?? ''), {
+          type: 'updateRecord',
+          recordId,
+          changes: { time: time || plan.doses[0]?.time || DEFAULT_TIME },
+        }));
+      }
+
+      // Dias antigos sem doses individuais usam o total gravado no registro
+      const logged = intakeTotals.get(date) ?? (capsulesValid && capsules <= MAX_DAILY_CAPSULES ? capsules : 0);
+      if (!kept.completed && DoseSchedule.isDayComplete(plan, logged) && logged > 0) {
+        issues.push(this.issue('completedMismatch', recordId, date, String(logged), {
+          type: 'updateRecord',
+          recordId,
+          changes: { completed: true, capsules: logged },
+        }));
+      }
+    }
+
+    const currentImage = input.profile?.profile_image_url?.split('?')[0].split('/').pop();
+    for (const image of input.images) {
+      if (image.name !== currentImage) {
+        issues.push(this.issue('orphanedImage', image.name, null, image.name, { type: 'deleteImages', fileNames: [image.name] }));
+      }
+    }
+
+    issues.sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+    return { checkedRecords: input.records.length, checkedImages: input.images.length, issues };
+  }
+
+  private static issue(kind: IntegrityIssueKind, subject: string, date: string | null, value: string, fix: IntegrityFix): IntegrityIssue {
+    return { id: `${kind}:${subject}`, kind, date, value, fix };
+  }
+
+  // AAAA-MM-DD, também aceitando dia/mês sem zero à esquerda
+  private static normalizeDate(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+
+    const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (!match) return null;
+
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+    return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  }
+
+  private static normalizeTime(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+
+    const match = value.trim().match(/^(\d{1,2}):(\d{1,2})(?::\d{1,2})?$/);
+    if (!match) return null;
+
+    const [hours, minutes] = match.slice(1).map(Number);
+    if (hours > 23 || minutes > 59) return null;
+
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,179 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Datas de calendário (YYYY-MM-DD) no fuso horário do usuário.
+ *
+ * Os registros são gravados pelo dia local, não pelo dia em UTC: quem faz o
+ * check-in às 22h em São Paulo ainda está no mesmo dia. O fuso vem das
+ * configurações; sem fuso configurado, vale o do aparelho.
+ */
+export class LocalDate {
+  private static timeZone: string | null = null;
+
+  static deviceTimeZone(): string {
+    try {
+      return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+      return 'UTC';
+    }
+  }
+
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Define o fuso usado por todo o app (null = fuso do aparelho)
+   */
+  static setTimeZone(timeZone: string | null | undefined) {
+    const next = timeZone && this.isValidTimeZone(timeZone) ? timeZone : null;
+    if (next !== this.timeZone) {
+      console.log(`🌍 [LocalDate] Using time zone ${next || `${this.deviceTimeZone()} (device)`}`);
+    }
+    this.timeZone = next;
+  }
+
+  static currentTimeZone(): string {
+    return this.timeZone || this.deviceTimeZone();
+  }
+
+  /**
+   * Dia de hoje no fuso do usuário
+   */
+  static today(): string {
+    return this.fromInstant(new Date());
+  }
+
+  /**
+   * Dia de calendário de um instante no fuso do usuário
+   */
+  static fromInstant(instant: Date, timeZone = this.currentTimeZone()): string {
+    const parts = this.partsOf(instant, timeZone);
+    return `${parts.year}-${this.pad(parts.month)}-${this.pad(parts.day)}`;
+  }
+
+  /**
+   * Hora HH:MM de um instante no fuso do usuário
+   */
+  static timeOf(instant: Date = new Date(), timeZone = this.currentTimeZone()): string {
+    const parts = this.partsOf(instant, timeZone);
+    return `${this.pad(parts.hour)}:${this.pad(parts.minute)}`;
+  }
+
+  /**
+   * Instante correspondente a um dia e horário no fuso do usuário
+   */
+  static toInstant(date: string, time: string, timeZone = this.currentTimeZone()): Date | null {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    if ([year, month, day, hours, minutes].some(value => isNaN(value))) return null;
+
+    const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+    // Ajusta duas vezes para acertar horários próximos à troca de horário de verão
+    let instant = asUtc - this.offsetMs(new Date(asUtc), timeZone);
+    instant = asUtc - this.offsetMs(new Date(instant), timeZone);
+    return new Date(instant);
+  }
+
+  /**
+   * Milissegundos até a próxima meia-noite no fuso do usuário
+   */
+  static msUntilMidnight(now: Date = new Date()): number {
+    const tomorrow = this.addDays(this.fromInstant(now), 1);
+    const midnight = this.toInstant(tomorrow, '00:00');
+    return midnight ? Math.max(0, midnight.getTime() - now.getTime()) : 0;
+  }
+
+  static addDays(date: string, days: number): string {
+    return this.format(new Date(this.parse(date).getTime() + days * DAY_MS));
+  }
+
+  static daysBetween(startDate: string, endDate: string): number {
+    return Math.round((this.parse(endDate).getTime() - this.parse(startDate).getTime()) / DAY_MS);
+  }
+
+  /**
+   * Dia da semana (0 = domingo)
+   */
+  static weekday(date: string): number {
+    return this.parse(date).getUTCDay();
+  }
+
+  static monthOf(date: string): { year: number; month: number } {
+    const [year, month] = date.split('-').map(Number);
+    return { year, month: month - 1 };
+  }
+
+  static daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  }
+
+  /**
+   * Primeiro e último dia do mês (mês começando em 0)
+   */
+  static monthBounds(year: number, month: number): { start: string; end: string } {
+    const prefix = `${year}-${this.pad(month + 1)}`;
+    return {
+      start: `${prefix}-01`,
+      end: `${prefix}-${this.pad(this.daysInMonth(year, month))}`,
+    };
+  }
+
+  static dateOf(year: number, month: number, day: number): string {
+    return `${year}-${this.pad(month + 1)}-${this.pad(day)}`;
+  }
+
+  /**
+   * Data de calendário como Date em UTC, para aritmética de dias
+   */
+  static parse(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  private static format(date: Date): string {
+    return `${date.getUTCFullYear()}-${this.pad(date.getUTCMonth() + 1)}-${this.pad(date.getUTCDate())}`;
+  }
+
+  private static offsetMs(instant: Date, timeZone: string): number {
+    const parts = this.partsOf(instant, timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+  }
+
+  private static partsOf(instant: Date, timeZone: string) {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+
+    const values: Record<string, number> = {};
+    for (const part of formatter.formatToParts(instant)) {
+      if (part.type !== 'literal') values[part.type] = Number(part.value);
+    }
+
+    return {
+      year: values.year,
+      month: values.month,
+      day: values.day,
+      hour: values.hour === 24 ? 0 : values.hour,
+      minute: values.minute,
+      second: values.second,
+    };
+  }
+
+  private static pad(value: number): string {
+    return String(value).padStart(2, '0');
+  }
+}
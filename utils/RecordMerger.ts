@@ -0,0 +1,94 @@
+import { DailyRecord } from '@/types/database';
+
+export type ConflictChoice = 'mine' | 'theirs' | 'merged';
+
+export interface DailyRecordConflict {
+  id: string;
+  date: string;
+  local: Partial<DailyRecord>;
+  remote: DailyRecord;
+  merged: DailyRecord;
+  detectedAt: string;
+}
+
+export class RecordMerger {
+  /**
+   * Combina duas versões do mesmo dia.
+   *
+   * Política: a versão com `updated_at` mais recente vence nos campos simples
+   * (horário), `capsules` usa o maior valor, `completed` é verdadeiro se uma das
+   * versões estiver completa e `notes` são concatenadas sem duplicar.
+   */
+  static merge(remote: DailyRecord, local: Partial<DailyRecord>, localUpdatedAt: string): DailyRecord {
+    const localIsNewer = new Date(localUpdatedAt).getTime() >= new Date(remote.updated_at).getTime();
+    const newer = localIsNewer ? { ...remote, ...local } : { ...local, ...remote };
+
+    return {
+      ...remote,
+      time: newer.time || remote.time,
+      capsules: Math.max(remote.capsules || 0, local.capsules || 0),
+      completed: !!(remote.completed || local.completed),
+      edited_late: !!(remote.edited_late || local.edited_late),
+      notes: this.mergeNotes(remote.notes, local.notes),
+      updated_at: localIsNewer ? localUpdatedAt : remote.updated_at,
+    };
+  }
+
+  /**
+   * Um conflito real acontece quando as duas versões registram o dia como
+   * tomado mas discordam da quantidade de cápsulas — a mescla automática não
+   * consegue saber qual valor está correto.
+   */
+  static isTrueConflict(remote: DailyRecord, local: Partial<DailyRecord>): boolean {
+    if (!remote.completed || !local.completed) return false;
+    if (local.capsules === undefined) return false;
+    return remote.capsules !== local.capsules;
+  }
+
+  /**
+   * Verifica se o registro remoto foi alterado depois da versão que o usuário editou
+   */
+  static wasModifiedSince(remote: DailyRecord, baseUpdatedAt?: string): boolean {
+    if (!baseUpdatedAt) return true;
+    return new Date(remote.updated_at).getTime() > new Date(baseUpdatedAt).getTime();
+  }
+
+  static mergeNotes(first?: string, second?: string): string {
+    const parts = [first, second]
+      .map(note => (note || '').trim())
+      .filter(Boolean);
+
+    if (parts.length === 2 && (parts[0].includes(parts[1]) || parts[1].includes(parts[0]))) {
+      return parts[0].length >= parts[1].length ? parts[0] : parts[1];
+    }
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Campos que devem ser gravados para aplicar a escolha do usuário
+   */
+  static resolve(conflict: DailyRecordConflict, choice: ConflictChoice): Partial<DailyRecord> | null {
+    switch (choice) {
+      case 'mine':
+        return {
+          date: conflict.date,
+          capsules: conflict.local.capsules ?? conflict.remote.capsules,
+          time: conflict.local.time ?? conflict.remote.time,
+          notes: conflict.local.notes ?? conflict.remote.notes,
+          completed: conflict.local.completed ?? conflict.remote.completed,
+        };
+      case 'theirs':
+        return {
+          date: conflict.date,
+          capsules: conflict.remote.capsules,
+          time: conflict.remote.time,
+          notes: conflict.remote.notes,
+          completed: conflict.remote.completed,
+        };
+      case 'merged':
+      default:
+        return null;
+    }
+  }
+}
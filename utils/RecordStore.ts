@@ -0,0 +1,136 @@
+import { DailyRecord } from '@/types/database';
+
+export interface DailyRecordStore {
+  byDate: Record<string, DailyRecord>;
+  dateById: Record<string, string>;
+  // Datas ordenadas da mais recente para a mais antiga
+  dates: string[];
+}
+
+export type RecordChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RecordChangePayload {
+  eventType: RecordChangeEvent;
+  new: Partial<DailyRecord>;
+  old: Partial<DailyRecord>;
+}
+
+export class RecordStore {
+  static empty(): DailyRecordStore {
+    return { byDate: {}, dateById: {}, dates: [] };
+  }
+
+  static fromRecords(records: DailyRecord[]): DailyRecordStore {
+    const byDate: Record<string, DailyRecord> = {};
+    const dateById: Record<string, string> = {};
+
+    for (const record of records) {
+      byDate[record.date] = record;
+      if (record.id) dateById[record.id] = record.date;
+    }
+
+    return { byDate, dateById, dates: this.sortDates(Object.keys(byDate)) };
+  }
+
+  static toList(store: DailyRecordStore): DailyRecord[] {
+    return store.dates.map(date => store.byDate[date]);
+  }
+
+  static selectByDate(store: DailyRecordStore, date: string): DailyRecord | null {
+    return store.byDate[date] || null;
+  }
+
+  /**
+   * Registros de um mês (month começa em 0, como em Date#getMonth)
+   */
+  static selectByMonth(store: DailyRecordStore, year: number, month: number): DailyRecord[] {
+    const prefix = `${year}-${String(month + 1).padStart(2, '0')}-`;
+    return store.dates
+      .filter(date => date.startsWith(prefix))
+      .map(date => store.byDate[date]);
+  }
+
+  /**
+   * Registros entre duas datas YYYY-MM-DD, inclusive
+   */
+  static selectByRange(store: DailyRecordStore, startDate: string, endDate: string): DailyRecord[] {
+    return store.dates
+      .filter(date => date >= startDate && date <= endDate)
+      .map(date => store.byDate[date]);
+  }
+
+  /**
+   * Aplica um evento do realtime ao store.
+   * Retorna o mesmo objeto quando nada mudou, para não disparar re-renderizações.
+   */
+  static applyChange(store: DailyRecordStore, payload: RecordChangePayload): DailyRecordStore {
+    if (payload.eventType === 'DELETE') {
+      // Sem REPLICA IDENTITY FULL o evento de exclusão traz apenas o id
+      const id = payload.old?.id;
+      const date = payload.old?.date || (id ? store.dateById[id] : undefined);
+      return date ? this.remove(store, date) : store;
+    }
+
+    const record = payload.new as DailyRecord;
+    if (!record?.date) return store;
+
+    const current = store.byDate[record.date];
+    if (current && current.id === record.id && current.updated_at === record.updated_at) {
+      return store;
+    }
+
+    // Um UPDATE pode ter mudado a data do registro
+    const previousDate = record.id ? store.dateById[record.id] : undefined;
+    const base = previousDate && previousDate !== record.date ? this.remove(store, previousDate) : store;
+    return this.put(base, record);
+  }
+
+  /**
+   * Compara o store com uma busca completa do servidor, mantendo as referências
+   * dos registros que não mudaram.
+   */
+  static reconcile(store: DailyRecordStore, records: DailyRecord[]): DailyRecordStore {
+    const fresh = this.fromRecords(records);
+    let changed = fresh.dates.length !== store.dates.length;
+
+    for (const date of fresh.dates) {
+      const current = store.byDate[date];
+      const incoming = fresh.byDate[date];
+      if (current && current.id === incoming.id && current.updated_at === incoming.updated_at) {
+        fresh.byDate[date] = current;
+      } else {
+        changed = true;
+      }
+    }
+
+    return changed ? fresh : store;
+  }
+
+  private static put(store: DailyRecordStore, record: DailyRecord): DailyRecordStore {
+    const previous = store.byDate[record.date];
+    const dateById = { ...store.dateById };
+    if (previous?.id && previous.id !== record.id) delete dateById[previous.id];
+    if (record.id) dateById[record.id] = record.date;
+
+    return {
+      byDate: { ...store.byDate, [record.date]: record },
+      dateById,
+      dates: previous ? store.dates : this.sortDates([...store.dates, record.date]),
+    };
+  }
+
+  private static remove(store: DailyRecordStore, date: string): DailyRecordStore {
+    const record = store.byDate[date];
+    if (!record) return store;
+
+    const { [date]: _removed, ...byDate } = store.byDate;
+    const dateById = { ...store.dateById };
+    if (record.id) delete dateById[record.id];
+
+    return { byDate, dateById, dates: store.dates.filter(d => d !== date) };
+  }
+
+  private static sortDates(dates: string[]): string[] {
+    return dates.sort((a, b) => b.localeCompare(a));
+  }
+}
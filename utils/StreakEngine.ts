@@ -0,0 +1,83 @@
+import { LocalDate } from '@/utils/LocalDate';
+
+export interface StreakRun {
+  start: string;
+  end: string;
+  length: number;
+  frozenDays: number;
+  active: boolean;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  history: StreakRun[];
+  freezeDaysUsedThisMonth: number;
+  freezeDaysPerMonth: number;
+}
+
+interface StreakInput {
+  completedDates: string[];
+  today: string;
+  isComplete: (date: string) => boolean;
+  isRestDay: (date: string) => boolean;
+  freezeDaysPerMonth?: number;
+}
+
+export class StreakEngine {
+  static readonly MAX_FREEZE_DAYS = 5;
+
+  /**
+   * Percorre os dias do primeiro registro até hoje montando as sequências.
+   *
+   * - Dias de pausa do esquema não contam nem quebram a sequência
+   * - Hoje só quebra a sequência depois que o dia termina
+   * - Cada mês tem alguns dias de congelamento que cobrem faltas
+   */
+  static compute(input: StreakInput): StreakSummary {
+    const freezeDaysPerMonth = Math.max(0, Math.min(this.MAX_FREEZE_DAYS, input.freezeDaysPerMonth || 0));
+    const currentMonth = input.today.slice(0, 7);
+    const freezesByMonth: Record<string, number> = {};
+    const runs: StreakRun[] = [];
+    let run: StreakRun | null = null;
+
+    const oldest = [...input.completedDates].sort()[0];
+
+    for (let date = oldest; date && date <= input.today; date = LocalDate.addDays(date, 1)) {
+      if (input.isComplete(date)) {
+        if (!run) {
+          run = { start: date, end: date, length: 0, frozenDays: 0, active: false };
+        }
+        run.length++;
+        run.end = date;
+        continue;
+      }
+
+      if (date === input.today || input.isRestDay(date) || !run) continue;
+
+      // Dia perdido: usa um congelamento do mês, se ainda houver
+      const month = date.slice(0, 7);
+      if ((freezesByMonth[month] || 0) < freezeDaysPerMonth) {
+        freezesByMonth[month] = (freezesByMonth[month] || 0) + 1;
+        run.frozenDays++;
+        continue;
+      }
+
+      runs.push(run);
+      run = null;
+    }
+
+    if (run) {
+      run.active = true;
+      runs.push(run);
+    }
+
+    return {
+      current: run ? run.length : 0,
+      longest: runs.reduce((longest, streak) => Math.max(longest, streak.length), 0),
+      history: runs.sort((a, b) => b.start.localeCompare(a.start)),
+      freezeDaysUsedThisMonth: freezesByMonth[currentMonth] || 0,
+      freezeDaysPerMonth,
+    };
+  }
+}